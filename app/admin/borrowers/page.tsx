@@ -5,7 +5,6 @@ import ProtectedRoute from "@/components/protected-route"
 import MainLayout from "@/components/main-layout"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import {
   Dialog,
   DialogContent,
@@ -21,6 +20,15 @@ import { Badge } from "@/components/ui/badge"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Eye, UserPlus } from "lucide-react"
+import DataTable, { type DataTableColumn } from "@/components/data-table"
+import ExportDialog from "@/components/export-dialog"
+import BorrowerImportDialog, { type ImportedBorrower } from "@/components/borrowers/borrower-import-dialog"
+import Can from "@/components/can"
+import FieldError from "@/components/field-error"
+import { useFormValidation } from "@/hooks/use-form-validation"
+import { borrowerAccountSchema, type BorrowerAccountForm } from "@/lib/account-schemas"
+import { toExportDate, type ExportColumn } from "@/lib/export"
+import { getAccountStatusBadgeClass, type BorrowerAccountStatus } from "@/lib/borrower-profile"
 import api from "@/utils/api"
 
 interface Borrower {
@@ -28,22 +36,42 @@ interface Borrower {
   name: string
   email: string
   phone: string
-  status: "active" | "inactive" | "blacklisted"
+  status: BorrowerAccountStatus
   loans: number
   totalBorrowed: number
   lastActivity: string
 }
 
+// Columns offered when exporting the borrower list
+const BORROWER_EXPORT_COLUMNS: ExportColumn<Borrower>[] = [
+  { id: "id", header: "ID", type: "text", value: (borrower) => borrower._id },
+  { id: "name", header: "Name", type: "text", value: (borrower) => borrower.name },
+  { id: "email", header: "Email", type: "text", value: (borrower) => borrower.email },
+  { id: "phone", header: "Phone", type: "text", value: (borrower) => borrower.phone },
+  { id: "status", header: "Status", type: "text", value: (borrower) => borrower.status },
+  { id: "loans", header: "Loans", type: "number", value: (borrower) => borrower.loans },
+  { id: "totalBorrowed", header: "Total Borrowed", type: "amount", value: (borrower) => borrower.totalBorrowed },
+  {
+    id: "lastActivity",
+    header: "Last Activity",
+    type: "date",
+    value: (borrower) => toExportDate(borrower.lastActivity),
+  },
+]
+
 export default function AdminBorrowers() {
   const [borrowers, setBorrowers] = useState<Borrower[]>([])
   const [searchTerm, setSearchTerm] = useState("")
+  const [activeTab, setActiveTab] = useState("all")
   const [isAddBorrowerOpen, setIsAddBorrowerOpen] = useState(false)
-  const [newBorrower, setNewBorrower] = useState({
+  const [newBorrower, setNewBorrower] = useState<BorrowerAccountForm>({
     name: "",
     email: "",
     phone: "",
     password: "", // Added password field for creating new user
   })
+  const { errors, validateAll, validateOne, clearError, resetErrors, applyServerError, fieldProps } =
+    useFormValidation(borrowerAccountSchema)
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const { toast } = useToast()
@@ -92,15 +120,22 @@ export default function AdminBorrowers() {
       borrower.phone.includes(searchTerm),
   )
 
+  // Rows on the open tab, which is what an export contains
+  const visibleBorrowers =
+    activeTab === "all" ? filteredBorrowers : filteredBorrowers.filter((borrower) => borrower.status === activeTab)
+
+  const updateNewBorrower = (field: keyof BorrowerAccountForm, value: string) => {
+    setNewBorrower((current) => ({ ...current, [field]: value }))
+    clearError(field)
+  }
+
+  const handleAddBorrowerOpenChange = (open: boolean) => {
+    setIsAddBorrowerOpen(open)
+    if (!open) resetErrors()
+  }
+
   const handleAddBorrower = async () => {
-    if (!newBorrower.name || !newBorrower.email || !newBorrower.password) {
-      toast({
-        variant: "destructive",
-        title: "Error",
-        description: "Please fill in all required fields (name, email, and password)",
-      })
-      return
-    }
+    if (!validateAll(newBorrower)) return
 
     try {
       // Creating a new user with 'user' role via the API
@@ -135,7 +170,7 @@ export default function AdminBorrowers() {
         password: "",
       })
 
-      setIsAddBorrowerOpen(false)
+      handleAddBorrowerOpenChange(false)
 
       toast({
         title: "Borrower Added",
@@ -143,14 +178,34 @@ export default function AdminBorrowers() {
       })
     } catch (error: any) {
       console.error("Error adding borrower:", error)
-      toast({
-        variant: "destructive",
-        title: "Failed to add borrower",
-        description: error.response?.data?.message || "There was an error creating the borrower.",
-      })
+      const message = applyServerError(error, "There was an error creating the borrower.")
+      if (message) {
+        toast({
+          variant: "destructive",
+          title: "Failed to add borrower",
+          description: message,
+        })
+      }
     }
   }
 
+  const handleImported = (imported: ImportedBorrower[]) => {
+    const now = new Date().toISOString()
+    setBorrowers((current) => [
+      ...current,
+      ...imported.map((user) => ({
+        _id: user._id,
+        name: user.name,
+        email: user.email,
+        phone: user.phone || "Not provided",
+        status: "active" as const,
+        loans: 0,
+        totalBorrowed: 0,
+        lastActivity: now,
+      })),
+    ])
+  }
+
   const handleUpdateStatus = async (borrowerId: string, newStatus: Borrower["status"]) => {
     try {
       // Update borrower status via API
@@ -177,19 +232,6 @@ export default function AdminBorrowers() {
     }
   }
 
-  const getStatusBadgeClass = (status: Borrower["status"]) => {
-    switch (status) {
-      case "active":
-        return "bg-green-100 text-green-800 hover:bg-green-200"
-      case "inactive":
-        return "bg-yellow-100 text-yellow-800 hover:bg-yellow-200"
-      case "blacklisted":
-        return "bg-red-100 text-red-800 hover:bg-red-200"
-      default:
-        return "bg-gray-100 text-gray-800 hover:bg-gray-200"
-    }
-  }
-
   const activeCount = borrowers.filter((b) => b.status === "active").length
   const inactiveCount = borrowers.filter((b) => b.status === "inactive").length
   const blacklistedCount = borrowers.filter((b) => b.status === "blacklisted").length
@@ -246,7 +288,22 @@ export default function AdminBorrowers() {
                   className="w-64"
                 />
 
-                <Dialog open={isAddBorrowerOpen} onOpenChange={setIsAddBorrowerOpen}>
+                <ExportDialog
+                  title="Export borrowers"
+                  filename="borrowers"
+                  columns={BORROWER_EXPORT_COLUMNS}
+                  getRows={() => visibleBorrowers}
+                  storageKey="admin-borrowers"
+                />
+
+                <Can permission="users.create">
+                  <BorrowerImportDialog
+                    existingEmails={borrowers.map((borrower) => borrower.email)}
+                    onImported={handleImported}
+                  />
+                </Can>
+
+                <Dialog open={isAddBorrowerOpen} onOpenChange={handleAddBorrowerOpenChange}>
                   <DialogTrigger asChild>
                     <Button className="bg-green-600 hover:bg-green-700">
                       <UserPlus className="mr-2 h-4 w-4" />
@@ -265,8 +322,11 @@ export default function AdminBorrowers() {
                         <Input
                           id="name"
                           value={newBorrower.name}
-                          onChange={(e) => setNewBorrower({ ...newBorrower, name: e.target.value })}
+                          onChange={(e) => updateNewBorrower("name", e.target.value)}
+                          onBlur={() => validateOne("name", newBorrower)}
+                          {...fieldProps("name")}
                         />
+                        <FieldError id="name-error" message={errors.name} />
                       </div>
 
                       <div className="grid gap-2">
@@ -275,8 +335,11 @@ export default function AdminBorrowers() {
                           id="email"
                           type="email"
                           value={newBorrower.email}
-                          onChange={(e) => setNewBorrower({ ...newBorrower, email: e.target.value })}
+                          onChange={(e) => updateNewBorrower("email", e.target.value)}
+                          onBlur={() => validateOne("email", newBorrower)}
+                          {...fieldProps("email")}
                         />
+                        <FieldError id="email-error" message={errors.email} />
                       </div>
 
                       <div className="grid gap-2">
@@ -285,22 +348,28 @@ export default function AdminBorrowers() {
                           id="password"
                           type="password"
                           value={newBorrower.password}
-                          onChange={(e) => setNewBorrower({ ...newBorrower, password: e.target.value })}
+                          onChange={(e) => updateNewBorrower("password", e.target.value)}
+                          onBlur={() => validateOne("password", newBorrower)}
+                          {...fieldProps("password")}
                         />
+                        <FieldError id="password-error" message={errors.password} />
                       </div>
 
                       <div className="grid gap-2">
-                        <Label htmlFor="phone">Phone Number</Label>
+                        <Label htmlFor="phone">Phone Number (optional)</Label>
                         <Input
                           id="phone"
                           value={newBorrower.phone}
-                          onChange={(e) => setNewBorrower({ ...newBorrower, phone: e.target.value })}
+                          onChange={(e) => updateNewBorrower("phone", e.target.value)}
+                          onBlur={() => validateOne("phone", newBorrower)}
+                          {...fieldProps("phone")}
                         />
+                        <FieldError id="phone-error" message={errors.phone} />
                       </div>
                     </div>
 
                     <DialogFooter>
-                      <Button variant="outline" onClick={() => setIsAddBorrowerOpen(false)}>
+                      <Button variant="outline" onClick={() => handleAddBorrowerOpenChange(false)}>
                         Cancel
                       </Button>
                       <Button className="bg-green-600 hover:bg-green-700" onClick={handleAddBorrower}>
@@ -322,7 +391,7 @@ export default function AdminBorrowers() {
                 <span className="block sm:inline">{error}</span>
               </div>
             ) : (
-              <Tabs defaultValue="all">
+              <Tabs value={activeTab} onValueChange={setActiveTab}>
                 <TabsList className="mb-4">
                   <TabsTrigger value="all">All Borrowers</TabsTrigger>
                   <TabsTrigger value="active">Active</TabsTrigger>
@@ -334,7 +403,6 @@ export default function AdminBorrowers() {
                   <BorrowerTable
                     borrowers={filteredBorrowers}
                     onUpdateStatus={handleUpdateStatus}
-                    getStatusBadgeClass={getStatusBadgeClass}
                   />
                 </TabsContent>
 
@@ -342,7 +410,6 @@ export default function AdminBorrowers() {
                   <BorrowerTable
                     borrowers={filteredBorrowers.filter((b) => b.status === "active")}
                     onUpdateStatus={handleUpdateStatus}
-                    getStatusBadgeClass={getStatusBadgeClass}
                   />
                 </TabsContent>
 
@@ -350,7 +417,6 @@ export default function AdminBorrowers() {
                   <BorrowerTable
                     borrowers={filteredBorrowers.filter((b) => b.status === "inactive")}
                     onUpdateStatus={handleUpdateStatus}
-                    getStatusBadgeClass={getStatusBadgeClass}
                   />
                 </TabsContent>
 
@@ -358,7 +424,6 @@ export default function AdminBorrowers() {
                   <BorrowerTable
                     borrowers={filteredBorrowers.filter((b) => b.status === "blacklisted")}
                     onUpdateStatus={handleUpdateStatus}
-                    getStatusBadgeClass={getStatusBadgeClass}
                   />
                 </TabsContent>
               </Tabs>
@@ -373,123 +438,100 @@ export default function AdminBorrowers() {
 interface BorrowerTableProps {
   borrowers: Borrower[]
   onUpdateStatus: (borrowerId: string, newStatus: Borrower["status"]) => void
-  getStatusBadgeClass: (status: Borrower["status"]) => string
 }
 
-function BorrowerTable({ borrowers, onUpdateStatus, getStatusBadgeClass }: BorrowerTableProps) {
-  const [currentPage, setCurrentPage] = useState(1)
-  const [itemsPerPage] = useState(5)
-
-  const indexOfLastItem = currentPage * itemsPerPage
-  const indexOfFirstItem = indexOfLastItem - itemsPerPage
-  const currentBorrowers = borrowers.slice(indexOfFirstItem, indexOfLastItem)
-  const totalPages = Math.ceil(borrowers.length / itemsPerPage)
-
-  return (
-    <div>
-      <Table>
-        <TableHeader>
-          <TableRow>
-            <TableHead>Name</TableHead>
-            <TableHead>Email</TableHead>
-            <TableHead>Phone</TableHead>
-            <TableHead>Status</TableHead>
-            <TableHead>Loans</TableHead>
-            <TableHead>Total Borrowed</TableHead>
-            <TableHead>Last Activity</TableHead>
-            <TableHead>Actions</TableHead>
-          </TableRow>
-        </TableHeader>
-        <TableBody>
-          {currentBorrowers.length === 0 ? (
-            <TableRow>
-              <TableCell colSpan={8} className="text-center py-4">
-                No borrowers found
-              </TableCell>
-            </TableRow>
-          ) : (
-            currentBorrowers.map((borrower) => (
-              <TableRow key={borrower._id}>
-                <TableCell className="font-medium">{borrower.name}</TableCell>
-                <TableCell>{borrower.email}</TableCell>
-                <TableCell>{borrower.phone}</TableCell>
-                <TableCell>
-                  <Badge variant="outline" className={getStatusBadgeClass(borrower.status)}>
-                    {borrower.status.toUpperCase()}
-                  </Badge>
-                </TableCell>
-                <TableCell>{borrower.loans}</TableCell>
-                <TableCell>{borrower.totalBorrowed.toLocaleString()}</TableCell>
-                <TableCell>{new Date(borrower.lastActivity).toLocaleDateString()}</TableCell>
-                <TableCell>
-                  <div className="flex space-x-2">
-                    <Button variant="outline" size="sm" asChild>
-                      <a href={`/admin/borrowers/${borrower._id}`}>
-                        <Eye className="h-4 w-4" />
-                      </a>
-                    </Button>
-                    {borrower.status !== "active" && (
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        className="bg-green-100 text-green-800 hover:bg-green-200"
-                        onClick={() => onUpdateStatus(borrower._id, "active")}
-                      >
-                        Activate
-                      </Button>
-                    )}
-                    {borrower.status !== "inactive" && (
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        className="bg-yellow-100 text-yellow-800 hover:bg-yellow-200"
-                        onClick={() => onUpdateStatus(borrower._id, "inactive")}
-                      >
-                        Deactivate
-                      </Button>
-                    )}
-                    {borrower.status !== "blacklisted" && (
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        className="bg-red-100 text-red-800 hover:bg-red-200"
-                        onClick={() => onUpdateStatus(borrower._id, "blacklisted")}
-                      >
-                        Blacklist
-                      </Button>
-                    )}
-                  </div>
-                </TableCell>
-              </TableRow>
-            ))
+function BorrowerTable({ borrowers, onUpdateStatus }: BorrowerTableProps) {
+  const columns: DataTableColumn<Borrower>[] = [
+    {
+      id: "name",
+      header: "Name",
+      className: "font-medium",
+      sortValue: (borrower) => borrower.name.toLowerCase(),
+      cell: (borrower) => borrower.name,
+    },
+    {
+      id: "email",
+      header: "Email",
+      sortValue: (borrower) => borrower.email.toLowerCase(),
+      cell: (borrower) => borrower.email,
+    },
+    { id: "phone", header: "Phone", cell: (borrower) => borrower.phone },
+    {
+      id: "status",
+      header: "Status",
+      sortValue: (borrower) => borrower.status,
+      cell: (borrower) => (
+        <Badge variant="outline" className={getAccountStatusBadgeClass(borrower.status)}>
+          {borrower.status.toUpperCase()}
+        </Badge>
+      ),
+    },
+    { id: "loans", header: "Loans", sortValue: (borrower) => borrower.loans, cell: (borrower) => borrower.loans },
+    {
+      id: "totalBorrowed",
+      header: "Total Borrowed",
+      sortValue: (borrower) => borrower.totalBorrowed,
+      cell: (borrower) => borrower.totalBorrowed.toLocaleString(),
+    },
+    {
+      id: "lastActivity",
+      header: "Last Activity",
+      sortValue: (borrower) => new Date(borrower.lastActivity).getTime(),
+      cell: (borrower) => new Date(borrower.lastActivity).toLocaleDateString(),
+    },
+    {
+      id: "actions",
+      header: "Actions",
+      hideable: false,
+      cell: (borrower) => (
+        <div className="flex space-x-2">
+          <Button variant="outline" size="sm" asChild>
+            <a href={`/admin/borrowers/${borrower._id}`}>
+              <Eye className="h-4 w-4" />
+            </a>
+          </Button>
+          {borrower.status !== "active" && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="bg-green-100 text-green-800 hover:bg-green-200"
+              onClick={() => onUpdateStatus(borrower._id, "active")}
+            >
+              Activate
+            </Button>
           )}
-        </TableBody>
-      </Table>
-
-      {borrowers.length > itemsPerPage && (
-        <div className="flex justify-between items-center mt-4">
-          <div>Items per page: {itemsPerPage}</div>
-          <div className="flex items-center">
-            <span>
-              {indexOfFirstItem + 1}-{Math.min(indexOfLastItem, borrowers.length)} of {borrowers.length}
-            </span>
-            <button
-              className="ml-2 p-1 rounded border disabled:opacity-50"
-              disabled={currentPage === 1}
-              onClick={() => setCurrentPage(currentPage - 1)}
+          {borrower.status !== "inactive" && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="bg-yellow-100 text-yellow-800 hover:bg-yellow-200"
+              onClick={() => onUpdateStatus(borrower._id, "inactive")}
             >
-              <span className="material-icons">chevron_left</span>
-            </button>
-            <button
-              className="p-1 rounded border disabled:opacity-50"
-              disabled={currentPage === totalPages}
-              onClick={() => setCurrentPage(currentPage + 1)}
+              Deactivate
+            </Button>
+          )}
+          {borrower.status !== "blacklisted" && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="bg-red-100 text-red-800 hover:bg-red-200"
+              onClick={() => onUpdateStatus(borrower._id, "blacklisted")}
             >
-              <span className="material-icons">chevron_right</span>
-            </button>
-          </div>
+              Blacklist
+            </Button>
+          )}
         </div>
-      )}
-    </div>
+      ),
+    },
+  ]
+
+  return (
+    <DataTable
+      data={borrowers}
+      columns={columns}
+      getRowId={(borrower) => borrower._id}
+      emptyMessage="No borrowers found"
+      visibilityKey="admin-borrowers"
+    />
   )
-}
\ No newline at end of file
+}
@@ -7,7 +7,11 @@ import MainLayout from "@/components/main-layout"
 import StatsCard from "@/components/dashboard/stats-card"
 import ChartCard from "@/components/dashboard/chart-card"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import TableViewControls from "@/components/dashboard/table-view-controls"
 import api from "@/utils/api"
+import { useTableView } from "@/hooks/use-table-view"
+import { applyTableView } from "@/lib/table-view"
+import type { LoanStatus } from "@/lib/loan-status"
 
 interface DashboardStats {
   activeUsers: number
@@ -35,7 +39,7 @@ interface Loan {
   user: User
   amount: number
   applicationDate: string
-  status: string
+  status: LoanStatus
   reason?: string
 }
 
@@ -59,6 +63,7 @@ export default function AdminDashboard() {
   })
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState("")
+  const tableView = useTableView("admin-recent-loans")
 
   useEffect(() => {
     const fetchDashboardData = async () => {
@@ -113,6 +118,12 @@ export default function AdminDashboard() {
     fetchDashboardData()
   }, [])
 
+  const recentLoans = applyTableView(loans || [], tableView.view, {
+    amount: (loan) => loan.amount,
+    date: (loan) => loan.applicationDate,
+    status: (loan) => loan.status,
+  })
+
   const handleStatusChange = async (loanId: string, newStatus: string) => {
     try {
       // This would be implemented to update loan status
@@ -213,14 +224,7 @@ export default function AdminDashboard() {
           <div className="bg-white p-4 rounded shadow mb-6">
             <div className="flex justify-between items-center mb-4">
               <h3 className="font-medium">Recent Loans</h3>
-              <div className="flex space-x-2">
-                <button className="text-gray-500 px-2">
-                  <span className="material-icons text-sm">sort</span>
-                </button>
-                <button className="text-gray-500 px-2">
-                  <span className="material-icons text-sm">filter_list</span>
-                </button>
-              </div>
+              <TableViewControls tableView={tableView} buttonClassName="text-gray-500 px-2" />
             </div>
 
             <div className="overflow-x-auto">
@@ -234,8 +238,8 @@ export default function AdminDashboard() {
                   </tr>
                 </thead>
                 <tbody>
-                  {loans && loans.length > 0 ? (
-                    loans.slice(0, 5).map((loan) => (
+                  {recentLoans.length > 0 ? (
+                    recentLoans.slice(0, 5).map((loan) => (
                       <tr key={loan._id} className="border-b">
                         <td className="py-3 flex items-center">
                           <div className="w-8 h-8 rounded-full bg-gray-300 flex items-center justify-center mr-2">
@@ -263,7 +267,9 @@ export default function AdminDashboard() {
                     ))
                   ) : (
                     <tr>
-                      <td colSpan={4} className="py-4 text-center">No loans found</td>
+                      <td colSpan={4} className="py-4 text-center">
+                        {loans && loans.length > 0 ? "No loans match the current filters" : "No loans found"}
+                      </td>
                     </tr>
                   )}
                 </tbody>
@@ -0,0 +1,194 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import ProtectedRoute from "@/components/protected-route"
+import MainLayout from "@/components/main-layout"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { useToast } from "@/hooks/use-toast"
+import { usePermission } from "@/hooks/use-permission"
+import { Pencil, Plus } from "lucide-react"
+import Can from "@/components/can"
+import DataTable, { type DataTableColumn } from "@/components/data-table"
+import LoanProductDialog from "@/components/loans/loan-product-dialog"
+import { describeFees, formatTenures, getInterestMethodLabel, type LoanProduct } from "@/lib/loan-products"
+import api from "@/utils/api"
+
+// Eligibility rules in one line, e.g. "Employed; income 2,000+; age 21+"
+const summarizeEligibility = ({ eligibility }: LoanProduct) => {
+  const rules = [
+    eligibility.employmentStatuses.join(", "),
+    eligibility.minMonthlyIncome > 0 ? `income ${eligibility.minMonthlyIncome.toLocaleString()}+` : "",
+    eligibility.minAge > 0 ? `age ${eligibility.minAge}+` : "",
+  ].filter(Boolean)
+  return rules.length > 0 ? rules.join("; ") : "Anyone"
+}
+
+export default function AdminLoanProducts() {
+  const [products, setProducts] = useState<LoanProduct[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [editingProduct, setEditingProduct] = useState<LoanProduct | null>(null)
+  const canManageProducts = usePermission("products.manage")
+  const { toast } = useToast()
+
+  useEffect(() => {
+    const fetchProducts = async () => {
+      try {
+        const response = await api.get("/api/admin/loan-products")
+        setProducts(response.data.products)
+      } catch (error: any) {
+        console.error("Error fetching loan products:", error)
+        setError(error.response?.data?.message || "Failed to fetch loan products")
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchProducts()
+  }, [])
+
+  const openDialog = (product: LoanProduct | null) => {
+    setEditingProduct(product)
+    setIsDialogOpen(true)
+  }
+
+  const handleSaved = (saved: LoanProduct) => {
+    setProducts((current) =>
+      current.some((product) => product._id === saved._id)
+        ? current.map((product) => (product._id === saved._id ? saved : product))
+        : [...current, saved],
+    )
+  }
+
+  // Products are retired rather than deleted, since existing loans still refer to them
+  const handleToggleActive = async (product: LoanProduct) => {
+    try {
+      const response = await api.put(`/api/admin/loan-products/${product._id}`, { active: !product.active })
+      handleSaved(response.data.product)
+
+      toast({
+        title: product.active ? "Product Retired" : "Product Reactivated",
+        description: product.active
+          ? `${product.name} is no longer offered for new loans`
+          : `${product.name} is available for new loans again`,
+      })
+    } catch (error: any) {
+      console.error("Error updating loan product:", error)
+      toast({
+        variant: "destructive",
+        title: "Failed to update product",
+        description: error.response?.data?.message || "There was an error updating the product.",
+      })
+    }
+  }
+
+  const columns: DataTableColumn<LoanProduct>[] = [
+    {
+      id: "name",
+      header: "Product",
+      sortValue: (product) => product.name.toLowerCase(),
+      cell: (product) => (
+        <div>
+          <div className="font-medium">{product.name}</div>
+          {product.description && <div className="text-xs text-muted-foreground">{product.description}</div>}
+        </div>
+      ),
+    },
+    {
+      id: "amount",
+      header: "Amount",
+      sortValue: (product) => product.maxAmount,
+      cell: (product) => `${product.minAmount.toLocaleString()} - ${product.maxAmount.toLocaleString()}`,
+    },
+    { id: "tenures", header: "Tenures", cell: (product) => formatTenures(product.tenures) },
+    {
+      id: "rate",
+      header: "Rate",
+      sortValue: (product) => product.interestRate,
+      cell: (product) => `${product.interestRate}% ${getInterestMethodLabel(product.interestMethod).toLowerCase()}`,
+    },
+    { id: "fees", header: "Fees", cell: describeFees },
+    { id: "eligibility", header: "Eligibility", cell: summarizeEligibility },
+    {
+      id: "status",
+      header: "Status",
+      sortValue: (product) => (product.active ? 0 : 1),
+      cell: (product) => (
+        <Badge
+          variant="outline"
+          className={product.active ? "bg-green-100 text-green-800" : "bg-gray-100 text-gray-800"}
+        >
+          {product.active ? "ACTIVE" : "RETIRED"}
+        </Badge>
+      ),
+    },
+    ...(canManageProducts
+      ? [
+          {
+            id: "actions",
+            header: "Actions",
+            hideable: false,
+            cell: (product: LoanProduct) => (
+              <div className="flex space-x-2">
+                <Button variant="outline" size="sm" onClick={() => openDialog(product)}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => handleToggleActive(product)}>
+                  {product.active ? "Retire" : "Reactivate"}
+                </Button>
+              </div>
+            ),
+          },
+        ]
+      : []),
+  ]
+
+  return (
+    <ProtectedRoute allowedRoles={["admin"]}>
+      <MainLayout title="Loan Products">
+        <div className="bg-white p-6 rounded shadow">
+          <div className="flex justify-between items-center mb-6">
+            <div>
+              <h2 className="text-xl font-semibold">Loan Products</h2>
+              <p className="text-sm text-muted-foreground">
+                Every new loan is made under one of these products and must fit its limits.
+              </p>
+            </div>
+
+            <Can permission="products.manage">
+              <Button className="bg-green-600 hover:bg-green-700" onClick={() => openDialog(null)}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Product
+              </Button>
+            </Can>
+          </div>
+
+          {error ? (
+            <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded relative" role="alert">
+              <strong className="font-bold">Error: </strong>
+              <span className="block sm:inline">{error}</span>
+            </div>
+          ) : (
+            <DataTable
+              data={products}
+              columns={columns}
+              getRowId={(product) => product._id}
+              isLoading={isLoading}
+              emptyMessage="No loan products yet"
+              visibilityKey="admin-loan-products"
+            />
+          )}
+        </div>
+
+        <LoanProductDialog
+          open={isDialogOpen}
+          onOpenChange={setIsDialogOpen}
+          product={editingProduct}
+          onSaved={handleSaved}
+        />
+      </MainLayout>
+    </ProtectedRoute>
+  )
+}
@@ -0,0 +1,300 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import Link from "next/link"
+import { useParams } from "next/navigation"
+import ProtectedRoute from "@/components/protected-route"
+import MainLayout from "@/components/main-layout"
+import { Button } from "@/components/ui/button"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { useToast } from "@/hooks/use-toast"
+import { ArrowLeft } from "lucide-react"
+import LoanStatusActions from "@/components/loans/loan-status-actions"
+import LoanStatusTimeline, { type LoanStatusEvent } from "@/components/loans/loan-status-timeline"
+import type { LoanDecision, LoanStatus } from "@/lib/loan-status"
+import { getLoanStatusBadgeClass, getRepaymentStatusBadgeClass, type RepaymentStatus } from "@/lib/status-badges"
+import api from "@/utils/api"
+
+interface LoanDetail {
+  _id: string
+  user: {
+    _id: string
+    name: string
+    email: string
+    phone?: string
+  }
+  amount: number
+  interestRate: number
+  tenure: number
+  applicationDate: string
+  disbursementDate?: string
+  status: LoanStatus
+  reason: string
+  amountPaid: number
+  totalAmountPayable: number
+  employmentStatus?: string
+  employerName?: string
+  employerAddress?: string
+  statusHistory?: LoanStatusEvent[]
+}
+
+interface ScheduledRepayment {
+  _id: string
+  amount: number
+  dueDate: string
+  paidDate: string | null
+  status: RepaymentStatus
+}
+
+export default function AdminLoanDetail() {
+  const params = useParams<{ id: string }>()
+  const loanId = params.id
+  const [loan, setLoan] = useState<LoanDetail | null>(null)
+  const [repayments, setRepayments] = useState<ScheduledRepayment[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  // Kept apart from `error` so a missing schedule does not hide a loan that loaded
+  const [repaymentsError, setRepaymentsError] = useState<string | null>(null)
+  const { toast } = useToast()
+
+  // Fetch the loan and its repayment schedule
+  useEffect(() => {
+    const fetchRepayments = async () => {
+      setRepaymentsError(null)
+      try {
+        const response = await api.get("/api/admin/repayments", { params: { loanId } })
+        setRepayments(response.data.repayments || [])
+      } catch (error: any) {
+        console.error("Error fetching loan repayments:", error)
+        setRepaymentsError(error.response?.data?.message || "Failed to load the repayment schedule")
+      }
+    }
+
+    const fetchLoan = async () => {
+      setIsLoading(true)
+      setError(null)
+      try {
+        const response = await api.get(`/api/admin/loans/${loanId}`)
+        setLoan(response.data.loan)
+        await fetchRepayments()
+      } catch (error: any) {
+        console.error("Error fetching loan details:", error)
+
+        let errorMessage = "Failed to load loan details"
+        if (error.response) {
+          errorMessage += `: ${error.response.status} - ${error.response.data?.message || "Unknown error"}`
+        } else if (error.request) {
+          errorMessage += ": No response received from server"
+        } else {
+          errorMessage += `: ${error.message}`
+        }
+
+        setError(errorMessage)
+
+        toast({
+          variant: "destructive",
+          title: "Failed to fetch data",
+          description: "There was an error loading the loan details.",
+        })
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchLoan()
+  }, [loanId, toast])
+
+  const handleUpdateStatus = async (id: string, newStatus: LoanStatus, decision?: LoanDecision) => {
+    try {
+      const response = await api.patch(`/api/admin/loans/${id}/status`, { status: newStatus, ...decision })
+
+      // Prefer the server copy so the status history stays accurate
+      setLoan((current) => response.data.loan ?? (current ? { ...current, status: newStatus } : current))
+
+      toast({
+        title: "Status Updated",
+        description: `Loan status has been updated to ${newStatus.toUpperCase()}`,
+      })
+    } catch (error: any) {
+      console.error("Error updating loan status:", error)
+      toast({
+        variant: "destructive",
+        title: "Failed to update status",
+        description: error.response?.data?.message || "There was an error updating the loan status.",
+      })
+    }
+  }
+
+  const paidPercentage =
+    loan && loan.totalAmountPayable > 0 ? Math.min((loan.amountPaid / loan.totalAmountPayable) * 100, 100) : 0
+
+  return (
+    <ProtectedRoute allowedRoles={["admin"]}>
+      <MainLayout title="Loan Details">
+        <div className="space-y-6">
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/admin/loans">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Loans
+            </Link>
+          </Button>
+
+          {isLoading ? (
+            <div className="flex justify-center items-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900"></div>
+            </div>
+          ) : error || !loan ? (
+            <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded relative" role="alert">
+              <strong className="font-bold">Error: </strong>
+              <span className="block sm:inline">{error || "Loan not found"}</span>
+            </div>
+          ) : (
+            <>
+              <div className="bg-white p-6 rounded shadow">
+                <div className="flex flex-col md:flex-row md:justify-between md:items-center gap-4">
+                  <div>
+                    <p className="text-sm text-muted-foreground">Loan #{loan._id}</p>
+                    <h2 className="text-2xl font-bold">{loan.amount.toLocaleString()}</h2>
+                    <p className="text-sm text-muted-foreground">{loan.reason}</p>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Badge variant="outline" className={getLoanStatusBadgeClass(loan.status)}>
+                      {loan.status.toUpperCase()}
+                    </Badge>
+                    <LoanStatusActions loanId={loan._id} status={loan.status} onUpdateStatus={handleUpdateStatus} />
+                  </div>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <Card>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-sm font-medium">Borrower</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-1 text-sm">
+                    <Link
+                      href={`/admin/borrowers/${loan.user._id}`}
+                      className="block text-lg font-semibold hover:underline"
+                    >
+                      {loan.user.name}
+                    </Link>
+                    <p>{loan.user.email}</p>
+                    <p>{loan.user.phone || "Phone not provided"}</p>
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-sm font-medium">Employment</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-1 text-sm">
+                    <p className="text-lg font-semibold">{loan.employmentStatus || "Not provided"}</p>
+                    <p>{loan.employerName || "-"}</p>
+                    <p>{loan.employerAddress || "-"}</p>
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-sm font-medium">Terms</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-1 text-sm">
+                    <p>
+                      <span className="text-muted-foreground">Interest rate:</span> {loan.interestRate}%
+                    </p>
+                    <p>
+                      <span className="text-muted-foreground">Tenure:</span> {loan.tenure} months
+                    </p>
+                    <p>
+                      <span className="text-muted-foreground">Applied:</span>{" "}
+                      {new Date(loan.applicationDate).toLocaleDateString()}
+                    </p>
+                    <p>
+                      <span className="text-muted-foreground">Disbursed:</span>{" "}
+                      {loan.disbursementDate ? new Date(loan.disbursementDate).toLocaleDateString() : "-"}
+                    </p>
+                  </CardContent>
+                </Card>
+              </div>
+
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-medium">Repayment Progress</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="flex justify-between items-center mb-2">
+                    <span className="text-sm">
+                      {loan.amountPaid.toLocaleString()} of {loan.totalAmountPayable.toLocaleString()} paid
+                    </span>
+                    <span className="text-sm font-medium">{paidPercentage.toFixed(1)}%</span>
+                  </div>
+                  <div className="w-full bg-gray-200 rounded-full h-2.5">
+                    <div className="bg-green-600 h-2.5 rounded-full" style={{ width: `${paidPercentage}%` }}></div>
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-2">
+                    Outstanding: {Math.max(loan.totalAmountPayable - loan.amountPaid, 0).toLocaleString()}
+                  </p>
+                </CardContent>
+              </Card>
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <div className="bg-white p-6 rounded shadow">
+                  <h3 className="text-lg font-semibold mb-4">Status History</h3>
+                  <LoanStatusTimeline events={loan.statusHistory || []} getStatusBadgeClass={getLoanStatusBadgeClass} />
+                </div>
+
+                <div className="bg-white p-6 rounded shadow">
+                  <h3 className="text-lg font-semibold mb-4">Repayment Schedule</h3>
+                  {repaymentsError ? (
+                    <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded" role="alert">
+                      {repaymentsError}
+                    </div>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>#</TableHead>
+                          <TableHead>Due Date</TableHead>
+                          <TableHead>Amount</TableHead>
+                          <TableHead>Paid Date</TableHead>
+                          <TableHead>Status</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {repayments.length === 0 ? (
+                          <TableRow>
+                            <TableCell colSpan={5} className="text-center py-4">
+                              No repayments scheduled
+                            </TableCell>
+                          </TableRow>
+                        ) : (
+                          repayments.map((repayment, index) => (
+                            <TableRow key={repayment._id}>
+                              <TableCell>{index + 1}</TableCell>
+                              <TableCell>{new Date(repayment.dueDate).toLocaleDateString()}</TableCell>
+                              <TableCell>{repayment.amount.toLocaleString()}</TableCell>
+                              <TableCell>
+                                {repayment.paidDate ? new Date(repayment.paidDate).toLocaleDateString() : "-"}
+                              </TableCell>
+                              <TableCell>
+                                <Badge variant="outline" className={getRepaymentStatusBadgeClass(repayment.status)}>
+                                  {repayment.status.toUpperCase()}
+                                </Badge>
+                              </TableCell>
+                            </TableRow>
+                          ))
+                        )}
+                      </TableBody>
+                    </Table>
+                  )}
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </MainLayout>
+    </ProtectedRoute>
+  )
+}
@@ -5,10 +5,9 @@ import ProtectedRoute from "@/components/protected-route"
 import MainLayout from "@/components/main-layout"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Badge } from "@/components/ui/badge"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
-import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import {
   Dialog,
   DialogContent,
@@ -22,6 +21,33 @@ import { Label } from "@/components/ui/label"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { useToast } from "@/hooks/use-toast"
 import { Eye, FileText } from "lucide-react"
+import LoanStatusActions from "@/components/loans/loan-status-actions"
+import BulkLoanActions, { type BulkLoan, type BulkLoanResult } from "@/components/loans/bulk-loan-actions"
+import { useRowSelection } from "@/hooks/use-row-selection"
+import { usePaginatedQuery, type PaginatedQuery } from "@/hooks/use-paginated-query"
+import LoanListFilters, { LOAN_FILTER_KEYS } from "@/components/loans/loan-list-filters"
+import DataTable, { type DataTableColumn } from "@/components/data-table"
+import { downloadCsv } from "@/lib/csv"
+import ExportDialog from "@/components/export-dialog"
+import { toExportDate, type ExportColumn } from "@/lib/export"
+import type { LoanDecision, LoanStatus } from "@/lib/loan-status"
+import { getLoanStatusBadgeClass } from "@/lib/status-badges"
+import Can from "@/components/can"
+import AmortizationSchedule from "@/components/loans/amortization-schedule"
+import LoanProductSummary from "@/components/loans/loan-product-summary"
+import { calculateAmortization } from "@/lib/amortization"
+import FieldError from "@/components/field-error"
+import { useFormValidation } from "@/hooks/use-form-validation"
+import { useLoanProducts } from "@/hooks/use-loan-products"
+import { EMPLOYMENT_STATUSES, hasEmployer } from "@/lib/loan-application"
+import {
+  findProduct,
+  getEligibilityIssues,
+  productAmount,
+  productTenure,
+  type LoanProduct,
+} from "@/lib/loan-products"
+import { required, when, type Rule, type Schema } from "@/lib/validation"
 // Import the API utility instead of axios directly
 import api from "@/utils/api"
 
@@ -37,7 +63,7 @@ interface Loan {
   tenure: number // Changed from term to tenure to match backend model
   applicationDate: string // Changed from startDate
   disbursementDate?: string // Optional as it might not be set for all loan statuses
-  status: "pending" | "verified" | "approved" | "disbursed" | "repaying" | "completed" | "defaulted" | "rejected"
+  status: LoanStatus
   reason: string // Changed from purpose
   amountPaid: number
   totalAmountPayable: number
@@ -46,8 +72,8 @@ interface Loan {
 // Interface for creating a new loan
 interface NewLoan {
   userId: string
+  productId: string
   amount: string
-  interestRate: string
   tenure: string
   reason: string
   employmentStatus: string
@@ -55,6 +81,60 @@ interface NewLoan {
   employerAddress: string
 }
 
+const EMPTY_NEW_LOAN: NewLoan = {
+  userId: "",
+  productId: "",
+  amount: "",
+  tenure: "",
+  reason: "",
+  employmentStatus: "Employed",
+  employerName: "",
+  employerAddress: "",
+}
+
+// Amount, tenure and eligibility all depend on the product picked
+const getNewLoanSchema = (products: LoanProduct[]): Schema<NewLoan> => {
+  const getProduct = (loan: NewLoan) => findProduct(products, loan.productId)
+  const eligible: Rule<NewLoan, string> = (productId, loan) => {
+    const product = findProduct(products, productId)
+    return product ? getEligibilityIssues(product, { employmentStatus: loan.employmentStatus })[0] : undefined
+  }
+
+  return {
+    userId: [required("Select a borrower")],
+    productId: [required("Select a loan product"), eligible],
+    amount: [required("Amount is required"), productAmount(getProduct)],
+    tenure: [required("Term is required"), productTenure(getProduct)],
+    reason: [required("Loan purpose is required")],
+    employmentStatus: [required("Employment status is required")],
+    employerName: [when((loan) => hasEmployer(loan.employmentStatus), [required("Employer name is required")])],
+  }
+}
+
+// Columns offered when exporting the loan book
+const LOAN_EXPORT_COLUMNS: ExportColumn<Loan>[] = [
+  { id: "id", header: "ID", type: "text", value: (loan) => loan._id },
+  { id: "borrower", header: "Borrower", type: "text", value: (loan) => loan.user.name },
+  { id: "email", header: "Email", type: "text", value: (loan) => loan.user.email },
+  { id: "amount", header: "Amount", type: "amount", value: (loan) => loan.amount },
+  { id: "interestRate", header: "Interest Rate", type: "percent", value: (loan) => loan.interestRate },
+  { id: "tenure", header: "Tenure (months)", type: "number", value: (loan) => loan.tenure },
+  { id: "purpose", header: "Purpose", type: "text", value: (loan) => loan.reason },
+  { id: "applicationDate", header: "Applied", type: "date", value: (loan) => toExportDate(loan.applicationDate) },
+  { id: "disbursementDate", header: "Disbursed", type: "date", value: (loan) => toExportDate(loan.disbursementDate) },
+  { id: "status", header: "Status", type: "text", value: (loan) => loan.status },
+  { id: "amountPaid", header: "Amount Paid", type: "amount", value: (loan) => loan.amountPaid },
+  { id: "totalAmountPayable", header: "Total Payable", type: "amount", value: (loan) => loan.totalAmountPayable },
+]
+
+// Totals across every loan, returned alongside each page
+interface LoanSummary {
+  totalLoans: number
+  totalAmount: number
+  totalDisbursed: number
+  totalRepaid: number
+}
+
 // User interface
 interface User {
   _id: string
@@ -64,121 +144,102 @@ interface User {
 }
 
 export default function AdminLoans() {
-  const [loans, setLoans] = useState<Loan[]>([])
+  const query = usePaginatedQuery<Loan>("/api/admin/loans", {
+    dataKey: "loans",
+    filterKeys: LOAN_FILTER_KEYS,
+    defaultSortBy: "applicationDate",
+  })
   const [users, setUsers] = useState<User[]>([])
-  const [searchTerm, setSearchTerm] = useState("")
   const [isAddLoanOpen, setIsAddLoanOpen] = useState(false)
-  const [isLoading, setIsLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
-  const [newLoan, setNewLoan] = useState<NewLoan>({
-    userId: "",
-    amount: "",
-    interestRate: "15", // Default interest rate
-    tenure: "",
-    reason: "",
-    employmentStatus: "Employed",
-    employerName: "",
-    employerAddress: "",
-  })
+  const [newLoan, setNewLoan] = useState<NewLoan>(EMPTY_NEW_LOAN)
+  const { products } = useLoanProducts()
+  const { errors, validateAll, validateOne, clearError, resetErrors, applyServerError, fieldProps } =
+    useFormValidation(getNewLoanSchema(products))
+  const selectedProduct = findProduct(products, newLoan.productId)
   const { toast } = useToast()
 
-  // Fetch loans on component mount
+  // Fetch users for the dropdown in the add loan form
   useEffect(() => {
-    const fetchLoans = async () => {
-      setIsLoading(true)
-      setError(null)
+    const fetchUsers = async () => {
       try {
-        console.log("Fetching loans data...")
-        
-        // Use the API utility instead of axios directly
-        const response = await api.get("/api/admin/loans")
-        console.log("Loans data received:", response.data)
-        setLoans(response.data.loans || [])
-        
-        // Also fetch users for the dropdown in the add loan form
-        console.log("Fetching users data...")
         const usersResponse = await api.get("/api/admin/users")
-        console.log("Users data received:", usersResponse.data)
-        
+
         // Filter to only include users with role 'user'
         const regularUsers = usersResponse.data.users.filter((user: User) => user.role === "user")
         setUsers(regularUsers)
       } catch (error: any) {
-        console.error("Error fetching loans or users:", error)
-        
-        let errorMessage = "Failed to load data"
-        if (error.response) {
-          errorMessage += `: ${error.response.status} - ${error.response.data?.message || "Unknown error"}`
-        } else if (error.request) {
-          errorMessage += ": No response received from server"
-        } else {
-          errorMessage += `: ${error.message}`
-        }
-        
-        setError(errorMessage)
-        
+        console.error("Error fetching users:", error)
         toast({
           variant: "destructive",
           title: "Failed to fetch data",
-          description: "There was an error loading the loans data."
+          description: "There was an error loading the borrowers list."
         })
-      } finally {
-        setIsLoading(false)
       }
     }
 
-    fetchLoans()
+    fetchUsers()
   }, [toast])
 
-  const filteredLoans = loans.filter(
-    (loan) =>
-      loan.user?.name?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      loan.reason?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      loan.status?.toLowerCase().includes(searchTerm.toLowerCase()),
-  )
+  const schedule = selectedProduct
+    ? calculateAmortization(
+        Number(newLoan.amount),
+        selectedProduct.interestRate,
+        Number(newLoan.tenure),
+        selectedProduct.interestMethod,
+      )
+    : null
+
+  const updateNewLoan = <K extends keyof NewLoan>(field: K, value: NewLoan[K]) => {
+    setNewLoan((current) => ({ ...current, [field]: value }))
+    clearError(field)
+  }
+
+  // A tenure the new product does not offer is cleared rather than left to fail validation
+  const handleProductChange = (productId: string) => {
+    const product = findProduct(products, productId)
+    setNewLoan((current) => ({
+      ...current,
+      productId,
+      tenure: product?.tenures.includes(Number(current.tenure)) ? current.tenure : "",
+    }))
+    clearError("productId")
+  }
+
+  const handleAddLoanOpenChange = (open: boolean) => {
+    setIsAddLoanOpen(open)
+    if (!open) resetErrors()
+  }
 
   const handleAddLoan = async () => {
-    if (!newLoan.userId || !newLoan.amount || !newLoan.interestRate || !newLoan.tenure || !newLoan.reason) {
-      toast({
-        variant: "destructive",
-        title: "Error",
-        description: "Please fill in all required fields",
-      })
-      return
-    }
+    // The schema covers everything the schedule needs, so it is only missing for invalid input
+    if (!validateAll(newLoan) || !selectedProduct || !schedule) return
 
     try {
       // Use the API utility
-      const response = await api.post(
+      await api.post(
         "/api/admin/loans",
         {
           user: newLoan.userId,
+          product: selectedProduct._id,
           amount: Number(newLoan.amount),
-          interestRate: Number(newLoan.interestRate),
+          interestRate: selectedProduct.interestRate,
+          interestMethod: selectedProduct.interestMethod,
           tenure: Number(newLoan.tenure),
+          totalAmountPayable: schedule.totalPayable,
           reason: newLoan.reason,
           employmentStatus: newLoan.employmentStatus,
-          employerName: newLoan.employerName,
-          employerAddress: newLoan.employerAddress,
+          employerName: hasEmployer(newLoan.employmentStatus) ? newLoan.employerName : undefined,
+          employerAddress: hasEmployer(newLoan.employmentStatus) ? newLoan.employerAddress : undefined,
         }
       )
 
-      // Add the new loan to the state
-      setLoans([response.data.loan, ...loans])
+      // Reload the current page so the new loan appears in sort order
+      query.refetch()
 
       // Reset the form
-      setNewLoan({
-        userId: "",
-        amount: "",
-        interestRate: "15",
-        tenure: "",
-        reason: "",
-        employmentStatus: "Employed",
-        employerName: "",
-        employerAddress: "",
-      })
+      setNewLoan(EMPTY_NEW_LOAN)
 
-      setIsAddLoanOpen(false)
+      handleAddLoanOpenChange(false)
 
       toast({
         title: "Loan Added",
@@ -186,24 +247,27 @@ export default function AdminLoans() {
       })
     } catch (error: any) {
       console.error("Error adding loan:", error)
-      toast({
-        variant: "destructive",
-        title: "Failed to add loan",
-        description: error.response?.data?.message || "There was an error creating the loan.",
-      })
+      const message = applyServerError(error, "There was an error creating the loan.")
+      if (message) {
+        toast({
+          variant: "destructive",
+          title: "Failed to add loan",
+          description: message,
+        })
+      }
     }
   }
 
-  const handleUpdateStatus = async (loanId: string, newStatus: Loan["status"]) => {
+  const handleUpdateStatus = async (loanId: string, newStatus: Loan["status"], decision?: LoanDecision) => {
     try {
       // Use the API utility
       await api.patch(
         `/api/admin/loans/${loanId}/status`,
-        { status: newStatus }
+        { status: newStatus, ...decision }
       )
 
       // Update the state
-      setLoans(loans.map((loan) => (loan._id === loanId ? { ...loan, status: newStatus } : loan)))
+      query.setItems((current) => current.map((loan) => (loan._id === loanId ? { ...loan, status: newStatus } : loan)))
 
       toast({
         title: "Status Updated",
@@ -219,36 +283,41 @@ export default function AdminLoans() {
     }
   }
 
-  const getStatusBadgeClass = (status: Loan["status"]) => {
-    switch (status) {
-      case "pending":
-        return "bg-yellow-100 text-yellow-800"
-      case "verified":
-        return "bg-blue-100 text-blue-800"
-      case "approved":
-        return "bg-green-100 text-green-800"
-      case "disbursed":
-        return "bg-purple-100 text-purple-800"
-      case "repaying":
-        return "bg-cyan-100 text-cyan-800"
-      case "completed":
-        return "bg-green-100 text-green-800"
-      case "defaulted":
-        return "bg-red-100 text-red-800"
-      case "rejected":
-        return "bg-red-100 text-red-800"
-      default:
-        return "bg-gray-100 text-gray-800"
-    }
+  // Send one PATCH per loan so a single failure does not block the rest
+  const handleBulkUpdate = async (
+    selected: BulkLoan[],
+    newStatus: Loan["status"],
+    decision?: LoanDecision,
+  ): Promise<BulkLoanResult[]> => {
+    const settled = await Promise.allSettled(
+      selected.map((loan) => api.patch(`/api/admin/loans/${loan._id}/status`, { status: newStatus, ...decision })),
+    )
+
+    const results = selected.map((loan, index) => {
+      const outcome = settled[index]
+      return {
+        loanId: loan._id,
+        borrower: loan.user.name,
+        success: outcome.status === "fulfilled",
+        message:
+          outcome.status === "rejected"
+            ? outcome.reason?.response?.data?.message || "There was an error updating the loan status."
+            : undefined,
+      }
+    })
+
+    // Updated loans may have left the current filter, so reload the page
+    query.refetch()
+
+    return results
   }
 
-  // Calculate statistics
-  const totalLoans = loans.length
-  const totalAmount = loans.reduce((sum, loan) => sum + loan.amount, 0)
-  const totalDisbursed = loans
-    .filter((loan) => ["disbursed", "repaying", "completed", "defaulted"].includes(loan.status))
-    .reduce((sum, loan) => sum + loan.amount, 0)
-  const totalRepaid = loans.reduce((sum, loan) => sum + loan.amountPaid, 0)
+  // Statistics cover every loan, not just the current page
+  const summary: LoanSummary | undefined = query.meta.summary
+  const totalLoans = summary?.totalLoans ?? query.total
+  const totalAmount = summary?.totalAmount ?? 0
+  const totalDisbursed = summary?.totalDisbursed ?? 0
+  const totalRepaid = summary?.totalRepaid ?? 0
 
   return (
     <ProtectedRoute allowedRoles={["admin"]}>
@@ -302,21 +371,24 @@ export default function AdminLoans() {
               <h2 className="text-xl font-semibold">Loans</h2>
 
               <div className="flex space-x-2">
-                <Input
-                  placeholder="Search loans..."
-                  value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
-                  className="w-64"
+                <ExportDialog
+                  title="Export loans"
+                  filename="loans"
+                  columns={LOAN_EXPORT_COLUMNS}
+                  getRows={query.fetchAllMatching}
+                  storageKey="admin-loans"
                 />
 
-                <Dialog open={isAddLoanOpen} onOpenChange={setIsAddLoanOpen}>
-                  <DialogTrigger asChild>
-                    <Button className="bg-green-600 hover:bg-green-700">
-                      <FileText className="mr-2 h-4 w-4" />
-                      Add Loan
-                    </Button>
-                  </DialogTrigger>
-                  <DialogContent>
+                <Dialog open={isAddLoanOpen} onOpenChange={handleAddLoanOpenChange}>
+                  <Can permission="loans.create">
+                    <DialogTrigger asChild>
+                      <Button className="bg-green-600 hover:bg-green-700">
+                        <FileText className="mr-2 h-4 w-4" />
+                        Add Loan
+                      </Button>
+                    </DialogTrigger>
+                  </Can>
+                  <DialogContent className="max-h-[90vh] overflow-y-auto">
                     <DialogHeader>
                       <DialogTitle>Add New Loan</DialogTitle>
                       <DialogDescription>Create a new loan for a borrower</DialogDescription>
@@ -327,9 +399,9 @@ export default function AdminLoans() {
                         <Label htmlFor="borrower">Borrower</Label>
                         <Select
                           value={newLoan.userId}
-                          onValueChange={(value) => setNewLoan({ ...newLoan, userId: value })}
+                          onValueChange={(value) => updateNewLoan("userId", value)}
                         >
-                          <SelectTrigger id="borrower">
+                          <SelectTrigger id="borrower" {...fieldProps("userId", "borrower")}>
                             <SelectValue placeholder="Select borrower" />
                           </SelectTrigger>
                           <SelectContent>
@@ -340,75 +412,110 @@ export default function AdminLoans() {
                             ))}
                           </SelectContent>
                         </Select>
+                        <FieldError id="borrower-error" message={errors.userId} />
                       </div>
 
                       <div className="grid gap-2">
-                        <Label htmlFor="amount">Loan Amount</Label>
-                        <Input
-                          id="amount"
-                          type="number"
-                          value={newLoan.amount}
-                          onChange={(e) => setNewLoan({ ...newLoan, amount: e.target.value })}
-                        />
+                        <Label htmlFor="productId">Loan Product</Label>
+                        <Select value={newLoan.productId} onValueChange={handleProductChange}>
+                          <SelectTrigger id="productId" {...fieldProps("productId")}>
+                            <SelectValue placeholder="Select product" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {products.map((product) => (
+                              <SelectItem key={product._id} value={product._id}>
+                                {product.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FieldError id="productId-error" message={errors.productId} />
                       </div>
 
+                      {selectedProduct && (
+                        <LoanProductSummary product={selectedProduct} amount={Number(newLoan.amount)} />
+                      )}
+
                       <div className="grid gap-2">
-                        <Label htmlFor="interestRate">Interest Rate (%)</Label>
+                        <Label htmlFor="amount">Loan Amount</Label>
                         <Input
-                          id="interestRate"
+                          id="amount"
                           type="number"
-                          value={newLoan.interestRate}
-                          onChange={(e) => setNewLoan({ ...newLoan, interestRate: e.target.value })}
+                          value={newLoan.amount}
+                          onChange={(e) => updateNewLoan("amount", e.target.value)}
+                          onBlur={() => validateOne("amount", newLoan)}
+                          {...fieldProps("amount")}
                         />
+                        <FieldError id="amount-error" message={errors.amount} />
                       </div>
 
                       <div className="grid gap-2">
                         <Label htmlFor="tenure">Loan Term (months)</Label>
-                        <Input
-                          id="tenure"
-                          type="number"
+                        <Select
                           value={newLoan.tenure}
-                          onChange={(e) => setNewLoan({ ...newLoan, tenure: e.target.value })}
-                        />
+                          onValueChange={(value) => updateNewLoan("tenure", value)}
+                          disabled={!selectedProduct}
+                        >
+                          <SelectTrigger id="tenure" {...fieldProps("tenure")}>
+                            <SelectValue placeholder={selectedProduct ? "Select term" : "Select a product first"} />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {selectedProduct?.tenures.map((months) => (
+                              <SelectItem key={months} value={String(months)}>
+                                {months} months
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FieldError id="tenure-error" message={errors.tenure} />
                       </div>
 
+                      <AmortizationSchedule schedule={schedule} />
+
                       <div className="grid gap-2">
                         <Label htmlFor="reason">Loan Purpose</Label>
                         <Input
                           id="reason"
                           value={newLoan.reason}
-                          onChange={(e) => setNewLoan({ ...newLoan, reason: e.target.value })}
+                          onChange={(e) => updateNewLoan("reason", e.target.value)}
+                          onBlur={() => validateOne("reason", newLoan)}
+                          {...fieldProps("reason")}
                         />
+                        <FieldError id="reason-error" message={errors.reason} />
                       </div>
 
                       <div className="grid gap-2">
                         <Label htmlFor="employmentStatus">Employment Status</Label>
                         <Select
                           value={newLoan.employmentStatus}
-                          onValueChange={(value) => setNewLoan({ ...newLoan, employmentStatus: value })}
+                          onValueChange={(value) => updateNewLoan("employmentStatus", value)}
                         >
-                          <SelectTrigger id="employmentStatus">
+                          <SelectTrigger id="employmentStatus" {...fieldProps("employmentStatus")}>
                             <SelectValue placeholder="Select status" />
                           </SelectTrigger>
                           <SelectContent>
-                            <SelectItem value="Employed">Employed</SelectItem>
-                            <SelectItem value="Self-employed">Self-employed</SelectItem>
-                            <SelectItem value="Unemployed">Unemployed</SelectItem>
-                            <SelectItem value="Student">Student</SelectItem>
-                            <SelectItem value="Retired">Retired</SelectItem>
+                            {EMPLOYMENT_STATUSES.map((status) => (
+                              <SelectItem key={status} value={status}>
+                                {status}
+                              </SelectItem>
+                            ))}
                           </SelectContent>
                         </Select>
+                        <FieldError id="employmentStatus-error" message={errors.employmentStatus} />
                       </div>
 
-                      {(newLoan.employmentStatus === "Employed" || newLoan.employmentStatus === "Self-employed") && (
+                      {hasEmployer(newLoan.employmentStatus) && (
                         <>
                           <div className="grid gap-2">
                             <Label htmlFor="employerName">Employer Name</Label>
                             <Input
                               id="employerName"
                               value={newLoan.employerName}
-                              onChange={(e) => setNewLoan({ ...newLoan, employerName: e.target.value })}
+                              onChange={(e) => updateNewLoan("employerName", e.target.value)}
+                              onBlur={() => validateOne("employerName", newLoan)}
+                              {...fieldProps("employerName")}
                             />
+                            <FieldError id="employerName-error" message={errors.employerName} />
                           </div>
 
                           <div className="grid gap-2">
@@ -416,7 +523,7 @@ export default function AdminLoans() {
                             <Input
                               id="employerAddress"
                               value={newLoan.employerAddress}
-                              onChange={(e) => setNewLoan({ ...newLoan, employerAddress: e.target.value })}
+                              onChange={(e) => updateNewLoan("employerAddress", e.target.value)}
                             />
                           </div>
                         </>
@@ -424,7 +531,7 @@ export default function AdminLoans() {
                     </div>
 
                     <DialogFooter>
-                      <Button variant="outline" onClick={() => setIsAddLoanOpen(false)}>
+                      <Button variant="outline" onClick={() => handleAddLoanOpenChange(false)}>
                         Cancel
                       </Button>
                       <Button className="bg-green-600 hover:bg-green-700" onClick={handleAddLoan}>
@@ -436,13 +543,18 @@ export default function AdminLoans() {
               </div>
             </div>
 
-            {error ? (
+            <LoanListFilters query={query} />
+
+            {query.error ? (
               <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded relative" role="alert">
                 <strong className="font-bold">Error: </strong>
-                <span className="block sm:inline">{error}</span>
+                <span className="block sm:inline">{query.error}</span>
               </div>
             ) : (
-              <Tabs defaultValue="all">
+              <Tabs
+                value={query.filters.status || "all"}
+                onValueChange={(value) => query.setFilter("status", value === "all" ? null : value)}
+              >
                 <TabsList className="mb-4">
                   <TabsTrigger value="all">All Loans</TabsTrigger>
                   <TabsTrigger value="pending">Pending</TabsTrigger>
@@ -454,77 +566,11 @@ export default function AdminLoans() {
                   <TabsTrigger value="defaulted">Defaulted</TabsTrigger>
                 </TabsList>
 
-                <TabsContent value="all">
-                  <LoanTable
-                    loans={filteredLoans}
-                    onUpdateStatus={handleUpdateStatus}
-                    getStatusBadgeClass={getStatusBadgeClass}
-                    isLoading={isLoading}
-                  />
-                </TabsContent>
-
-                <TabsContent value="pending">
-                  <LoanTable
-                    loans={filteredLoans.filter((l) => l.status === "pending")}
-                    onUpdateStatus={handleUpdateStatus}
-                    getStatusBadgeClass={getStatusBadgeClass}
-                    isLoading={isLoading}
-                  />
-                </TabsContent>
-
-                <TabsContent value="verified">
-                  <LoanTable
-                    loans={filteredLoans.filter((l) => l.status === "verified")}
-                    onUpdateStatus={handleUpdateStatus}
-                    getStatusBadgeClass={getStatusBadgeClass}
-                    isLoading={isLoading}
-                  />
-                </TabsContent>
-
-                <TabsContent value="approved">
-                  <LoanTable
-                    loans={filteredLoans.filter((l) => l.status === "approved")}
-                    onUpdateStatus={handleUpdateStatus}
-                    getStatusBadgeClass={getStatusBadgeClass}
-                    isLoading={isLoading}
-                  />
-                </TabsContent>
-
-                <TabsContent value="disbursed">
-                  <LoanTable
-                    loans={filteredLoans.filter((l) => l.status === "disbursed")}
-                    onUpdateStatus={handleUpdateStatus}
-                    getStatusBadgeClass={getStatusBadgeClass}
-                    isLoading={isLoading}
-                  />
-                </TabsContent>
-
-                <TabsContent value="repaying">
-                  <LoanTable
-                    loans={filteredLoans.filter((l) => l.status === "repaying")}
-                    onUpdateStatus={handleUpdateStatus}
-                    getStatusBadgeClass={getStatusBadgeClass}
-                    isLoading={isLoading}
-                  />
-                </TabsContent>
-
-                <TabsContent value="completed">
-                  <LoanTable
-                    loans={filteredLoans.filter((l) => l.status === "completed")}
-                    onUpdateStatus={handleUpdateStatus}
-                    getStatusBadgeClass={getStatusBadgeClass}
-                    isLoading={isLoading}
-                  />
-                </TabsContent>
-
-                <TabsContent value="defaulted">
-                  <LoanTable
-                    loans={filteredLoans.filter((l) => l.status === "defaulted")}
-                    onUpdateStatus={handleUpdateStatus}
-                    getStatusBadgeClass={getStatusBadgeClass}
-                    isLoading={isLoading}
-                  />
-                </TabsContent>
+                <LoanTable
+                  query={query}
+                  onUpdateStatus={handleUpdateStatus}
+                  onBulkUpdate={handleBulkUpdate}
+                />
               </Tabs>
             )}
           </div>
@@ -535,185 +581,124 @@ export default function AdminLoans() {
 }
 
 interface LoanTableProps {
-  loans: Loan[]
-  onUpdateStatus: (loanId: string, newStatus: Loan["status"]) => void
-  getStatusBadgeClass: (status: Loan["status"]) => string
-  isLoading: boolean
+  query: PaginatedQuery<Loan>
+  onUpdateStatus: (loanId: string, newStatus: Loan["status"], decision?: LoanDecision) => void
+  onBulkUpdate: (loans: BulkLoan[], newStatus: Loan["status"], decision?: LoanDecision) => Promise<BulkLoanResult[]>
 }
 
-function LoanTable({ loans, onUpdateStatus, getStatusBadgeClass, isLoading }: LoanTableProps) {
-  const [currentPage, setCurrentPage] = useState(1)
-  const [itemsPerPage] = useState(5)
+function LoanTable({ query, onUpdateStatus, onBulkUpdate }: LoanTableProps) {
+  const { toast } = useToast()
+  const loans = query.items
+  const selection = useRowSelection(loans, (loan) => loan._id, query.filterKey)
 
-  const indexOfLastItem = currentPage * itemsPerPage
-  const indexOfFirstItem = indexOfLastItem - itemsPerPage
-  const currentLoans = loans.slice(indexOfFirstItem, indexOfLastItem)
-  const totalPages = Math.ceil(loans.length / itemsPerPage)
+  const handleSelectAllMatching = async () => {
+    try {
+      selection.selectRows(await query.fetchAllMatching())
+    } catch (error: any) {
+      console.error("Error selecting all loans:", error)
+      toast({
+        variant: "destructive",
+        title: "Failed to select loans",
+        description: error.response?.data?.message || "There was an error loading the matching loans.",
+      })
+    }
+  }
 
-  if (isLoading) {
-    return (
-      <div className="flex justify-center items-center py-8">
-        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900"></div>
-      </div>
-    )
+  const handleExport = () => {
+    downloadCsv(`loans-${new Date().toISOString().split("T")[0]}.csv`, selection.selectedRows, [
+      { header: "ID", value: (loan) => loan._id },
+      { header: "Borrower", value: (loan) => loan.user.name },
+      { header: "Email", value: (loan) => loan.user.email },
+      { header: "Amount", value: (loan) => loan.amount },
+      { header: "Interest Rate", value: (loan) => loan.interestRate },
+      { header: "Tenure", value: (loan) => loan.tenure },
+      { header: "Applied", value: (loan) => new Date(loan.applicationDate).toLocaleDateString() },
+      { header: "Status", value: (loan) => loan.status },
+      { header: "Amount Paid", value: (loan) => loan.amountPaid },
+      { header: "Total Payable", value: (loan) => loan.totalAmountPayable },
+    ])
   }
 
+  const columns: DataTableColumn<Loan>[] = [
+    { id: "id", header: "ID", cell: (loan) => `${loan._id.substring(0, 8)}...` },
+    { id: "borrower", header: "Borrower", sortable: true, className: "font-medium", cell: (loan) => loan.user.name },
+    { id: "amount", header: "Amount", sortable: true, cell: (loan) => loan.amount.toLocaleString() },
+    { id: "interestRate", header: "Interest", sortable: true, cell: (loan) => `${loan.interestRate}%` },
+    { id: "tenure", header: "Term", sortable: true, cell: (loan) => `${loan.tenure} months` },
+    {
+      id: "applicationDate",
+      header: "Start Date",
+      sortable: true,
+      cell: (loan) => new Date(loan.applicationDate).toLocaleDateString(),
+    },
+    {
+      id: "status",
+      header: "Status",
+      sortable: true,
+      cell: (loan) => (
+        <Badge variant="outline" className={getLoanStatusBadgeClass(loan.status)}>
+          {loan.status.toUpperCase()}
+        </Badge>
+      ),
+    },
+    {
+      id: "amountPaid",
+      header: "Paid",
+      sortable: true,
+      cell: (loan) => (
+        <>
+          {loan.amountPaid.toLocaleString()} ({loan.totalAmountPayable > 0 ? ((loan.amountPaid / loan.totalAmountPayable) * 100).toFixed(1) : 0}%)
+        </>
+      ),
+    },
+    {
+      id: "actions",
+      header: "Actions",
+      hideable: false,
+      cell: (loan) => (
+        <div className="flex space-x-2">
+          <Button variant="outline" size="sm" asChild>
+            <a href={`/admin/loans/${loan._id}`}>
+              <Eye className="h-4 w-4" />
+            </a>
+          </Button>
+
+          <LoanStatusActions loanId={loan._id} status={loan.status} onUpdateStatus={onUpdateStatus} />
+        </div>
+      ),
+    },
+  ]
+
   return (
     <div>
-      <Table>
-        <TableHeader>
-          <TableRow>
-            <TableHead>ID</TableHead>
-            <TableHead>Borrower</TableHead>
-            <TableHead>Amount</TableHead>
-            <TableHead>Interest</TableHead>
-            <TableHead>Term</TableHead>
-            <TableHead>Start Date</TableHead>
-            <TableHead>Status</TableHead>
-            <TableHead>Paid</TableHead>
-            <TableHead>Actions</TableHead>
-          </TableRow>
-        </TableHeader>
-        <TableBody>
-          {currentLoans.length === 0 ? (
-            <TableRow>
-              <TableCell colSpan={9} className="text-center py-4">
-                No loans found
-              </TableCell>
-            </TableRow>
-          ) : (
-            currentLoans.map((loan) => (
-              <TableRow key={loan._id}>
-                <TableCell>{loan._id.substring(0, 8)}...</TableCell>
-                <TableCell className="font-medium">{loan.user.name}</TableCell>
-                <TableCell>{loan.amount.toLocaleString()}</TableCell>
-                <TableCell>{loan.interestRate}%</TableCell>
-                <TableCell>{loan.tenure} months</TableCell>
-                <TableCell>{new Date(loan.applicationDate).toLocaleDateString()}</TableCell>
-                <TableCell>
-                  <Badge variant="outline" className={getStatusBadgeClass(loan.status)}>
-                    {loan.status.toUpperCase()}
-                  </Badge>
-                </TableCell>
-                <TableCell>
-                  {loan.amountPaid.toLocaleString()} ({loan.totalAmountPayable > 0 ? ((loan.amountPaid / loan.totalAmountPayable) * 100).toFixed(1) : 0}%)
-                </TableCell>
-                <TableCell>
-                  <div className="flex space-x-2">
-                    <Button variant="outline" size="sm" asChild>
-                      <a href={`/admin/loans/${loan._id}`}>
-                        <Eye className="h-4 w-4" />
-                      </a>
-                    </Button>
-
-                    {loan.status === "pending" && (
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        className="bg-blue-100 text-blue-800 hover:bg-blue-200"
-                        onClick={() => onUpdateStatus(loan._id, "verified")}
-                      >
-                        Verify
-                      </Button>
-                    )}
-
-                    {loan.status === "verified" && (
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        className="bg-green-100 text-green-800 hover:bg-green-200"
-                        onClick={() => onUpdateStatus(loan._id, "approved")}
-                      >
-                        Approve
-                      </Button>
-                    )}
-
-                    {loan.status === "approved" && (
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        className="bg-purple-100 text-purple-800 hover:bg-purple-200"
-                        onClick={() => onUpdateStatus(loan._id, "disbursed")}
-                      >
-                        Disburse
-                      </Button>
-                    )}
-
-                    {loan.status === "disbursed" && (
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        className="bg-cyan-100 text-cyan-800 hover:bg-cyan-200"
-                        onClick={() => onUpdateStatus(loan._id, "repaying")}
-                      >
-                        Start Repayment
-                      </Button>
-                    )}
-
-                    {loan.status === "repaying" && (
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        className="bg-green-100 text-green-800 hover:bg-green-200"
-                        onClick={() => onUpdateStatus(loan._id, "completed")}
-                      >
-                        Mark Completed
-                      </Button>
-                    )}
-
-                    {["pending", "verified", "approved"].includes(loan.status) && (
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        className="bg-red-100 text-red-800 hover:bg-red-200"
-                        onClick={() => onUpdateStatus(loan._id, "rejected")}
-                      >
-                        Reject
-                      </Button>
-                    )}
-
-                    {["disbursed", "repaying"].includes(loan.status) && (
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        className="bg-red-100 text-red-800 hover:bg-red-200"
-                        onClick={() => onUpdateStatus(loan._id, "defaulted")}
-                      >
-                        Mark Default
-                      </Button>
-                    )}
-                  </div>
-                </TableCell>
-              </TableRow>
-            ))
-          )}
-        </TableBody>
-      </Table>
-
-      {loans.length > itemsPerPage && (
-        <div className="flex justify-between items-center mt-4">
-          <div>Items per page: {itemsPerPage}</div>
-          <div className="flex items-center">
-            <span>
-              {indexOfFirstItem + 1}-{Math.min(indexOfLastItem, loans.length)} of {loans.length}
-            </span>
-            <button
-              className="ml-2 p-1 rounded border disabled:opacity-50"
-              disabled={currentPage === 1}
-              onClick={() => setCurrentPage(currentPage - 1)}
-            >
-              <span className="material-icons">chevron_left</span>
-            </button>
-            <button
-              className="p-1 rounded border disabled:opacity-50"
-              disabled={currentPage === totalPages}
-              onClick={() => setCurrentPage(currentPage + 1)}
-            >
-              <span className="material-icons">chevron_right</span>
-            </button>
-          </div>
-        </div>
-      )}
+      <BulkLoanActions
+        selectedLoans={selection.selectedRows}
+        matchingCount={query.total}
+        allMatchingSelected={selection.selectedRows.length >= query.total}
+        onSelectAllMatching={handleSelectAllMatching}
+        onClearSelection={selection.clear}
+        onBulkUpdate={onBulkUpdate}
+        onExport={handleExport}
+      />
+
+      <DataTable
+        data={loans}
+        columns={columns}
+        getRowId={(loan) => loan._id}
+        isLoading={query.isLoading}
+        emptyMessage="No loans found"
+        sort={{ sortBy: query.sortBy, sortOrder: query.sortOrder, onSort: query.setSort }}
+        pagination={{
+          page: query.page,
+          pageSize: query.pageSize,
+          total: query.total,
+          onPageChange: query.setPage,
+          onPageSizeChange: query.setPageSize,
+        }}
+        selection={selection}
+        getRowLabel={(loan) => `loan for ${loan.user.name}`}
+        visibilityKey="admin-loans"
+      />
     </div>
   )
-}
\ No newline at end of file
+}
@@ -18,6 +18,11 @@ import {
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Label } from "@/components/ui/label"
 import { useToast } from "@/hooks/use-toast"
+import { usePermission } from "@/hooks/use-permission"
+import Can from "@/components/can"
+import FieldError from "@/components/field-error"
+import { useFormValidation } from "@/hooks/use-form-validation"
+import { accountSchema, type AccountForm } from "@/lib/account-schemas"
 import type { UserRole } from "@/context/auth-context"
 import api from "@/utils/api"
 
@@ -43,6 +48,9 @@ export default function ManageUsers() {
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState("")
   const { toast } = useToast()
+  const canUpdateUsers = usePermission("users.update")
+  const { errors, validateAll, validateOne, clearError, resetErrors, applyServerError, fieldProps } =
+    useFormValidation(accountSchema)
 
   // Fetch admin users on component mount
   useEffect(() => {
@@ -87,15 +95,18 @@ export default function ManageUsers() {
     setFilteredUsers(filtered)
   }, [searchTerm, users])
 
+  const updateNewUser = (field: keyof AccountForm, value: string) => {
+    setNewUser((current) => ({ ...current, [field]: value }))
+    clearError(field)
+  }
+
+  const handleAddUserOpenChange = (open: boolean) => {
+    setIsAddUserOpen(open)
+    if (!open) resetErrors()
+  }
+
   const handleAddUser = async () => {
-    if (!newUser.name || !newUser.email || !newUser.password) {
-      toast({
-        variant: "destructive",
-        title: "Error",
-        description: "Please fill in all required fields",
-      })
-      return
-    }
+    if (!validateAll(newUser)) return
 
     try {
       const response = await api.post('/api/auth/register/privileged', {
@@ -122,18 +133,21 @@ export default function ManageUsers() {
         role: "admin",
       })
 
-      setIsAddUserOpen(false)
+      handleAddUserOpenChange(false)
 
       toast({
         title: "User Added",
         description: `${newUser.name} has been added as a ${newUser.role}`,
       })
     } catch (err: any) {
-      toast({
-        variant: "destructive",
-        title: "Error",
-        description: err.response?.data?.message || "Failed to create user",
-      })
+      const message = applyServerError(err, "Failed to create user")
+      if (message) {
+        toast({
+          variant: "destructive",
+          title: "Error",
+          description: message,
+        })
+      }
     }
   }
 
@@ -195,10 +209,12 @@ export default function ManageUsers() {
                 className="w-64"
               />
 
-              <Dialog open={isAddUserOpen} onOpenChange={setIsAddUserOpen}>
-                <DialogTrigger asChild>
-                  <Button className="bg-green-600 hover:bg-green-700">Add Admin</Button>
-                </DialogTrigger>
+              <Dialog open={isAddUserOpen} onOpenChange={handleAddUserOpenChange}>
+                <Can permission="users.create">
+                  <DialogTrigger asChild>
+                    <Button className="bg-green-600 hover:bg-green-700">Add Admin</Button>
+                  </DialogTrigger>
+                </Can>
                 <DialogContent>
                   <DialogHeader>
                     <DialogTitle>Add New User</DialogTitle>
@@ -211,8 +227,11 @@ export default function ManageUsers() {
                       <Input
                         id="name"
                         value={newUser.name}
-                        onChange={(e) => setNewUser({ ...newUser, name: e.target.value })}
+                        onChange={(e) => updateNewUser("name", e.target.value)}
+                        onBlur={() => validateOne("name", newUser)}
+                        {...fieldProps("name")}
                       />
+                      <FieldError id="name-error" message={errors.name} />
                     </div>
 
                     <div className="grid gap-2">
@@ -221,8 +240,11 @@ export default function ManageUsers() {
                         id="email"
                         type="email"
                         value={newUser.email}
-                        onChange={(e) => setNewUser({ ...newUser, email: e.target.value })}
+                        onChange={(e) => updateNewUser("email", e.target.value)}
+                        onBlur={() => validateOne("email", newUser)}
+                        {...fieldProps("email")}
                       />
+                      <FieldError id="email-error" message={errors.email} />
                     </div>
 
                     <div className="grid gap-2">
@@ -231,8 +253,11 @@ export default function ManageUsers() {
                         id="password"
                         type="password"
                         value={newUser.password}
-                        onChange={(e) => setNewUser({ ...newUser, password: e.target.value })}
+                        onChange={(e) => updateNewUser("password", e.target.value)}
+                        onBlur={() => validateOne("password", newUser)}
+                        {...fieldProps("password")}
                       />
+                      <FieldError id="password-error" message={errors.password} />
                     </div>
 
                     <div className="grid gap-2">
@@ -253,7 +278,7 @@ export default function ManageUsers() {
                   </div>
 
                   <DialogFooter>
-                    <Button variant="outline" onClick={() => setIsAddUserOpen(false)}>
+                    <Button variant="outline" onClick={() => handleAddUserOpenChange(false)}>
                       Cancel
                     </Button>
                     <Button className="bg-green-600 hover:bg-green-700" onClick={handleAddUser}>
@@ -294,7 +319,7 @@ export default function ManageUsers() {
                         <Select
                           value={user.role}
                           onValueChange={(value: UserRole) => handleUpdateRole(user.id, value)}
-                          disabled={user.email === "admin@example.com"} // Prevent changing the main admin
+                          disabled={!canUpdateUsers || user.email === "admin@example.com"} // Prevent changing the main admin
                         >
                           <SelectTrigger className="w-32">
                             <SelectValue />
@@ -308,14 +333,16 @@ export default function ManageUsers() {
                       </TableCell>
                       <TableCell>{user.createdAt}</TableCell>
                       <TableCell>
-                        <Button
-                          variant="destructive"
-                          size="sm"
-                          onClick={() => handleDeleteUser(user.id)}
-                          disabled={user.email === "admin@example.com"} // Prevent deleting the main admin
-                        >
-                          Delete
-                        </Button>
+                        <Can permission="users.delete">
+                          <Button
+                            variant="destructive"
+                            size="sm"
+                            onClick={() => handleDeleteUser(user.id)}
+                            disabled={user.email === "admin@example.com"} // Prevent deleting the main admin
+                          >
+                            Delete
+                          </Button>
+                        </Can>
                       </TableCell>
                     </TableRow>
                   ))
@@ -1,11 +1,10 @@
 "use client"
 
-import { useState } from "react"
+import { useState, useEffect } from "react"
 import ProtectedRoute from "@/components/protected-route"
 import MainLayout from "@/components/main-layout"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Badge } from "@/components/ui/badge"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
@@ -21,181 +20,197 @@ import {
 import { Label } from "@/components/ui/label"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { useToast } from "@/hooks/use-toast"
+import { usePermission } from "@/hooks/use-permission"
+import Can from "@/components/can"
+import FieldError from "@/components/field-error"
+import { useFormValidation } from "@/hooks/use-form-validation"
+import { number, required, type Schema } from "@/lib/validation"
 import { DollarSign, Eye } from "lucide-react"
+import DataTable, { type DataTableColumn } from "@/components/data-table"
+import { getRepaymentStatusBadgeClass, type RepaymentStatus } from "@/lib/status-badges"
+import ExportDialog from "@/components/export-dialog"
+import { toExportDate, type ExportColumn } from "@/lib/export"
+import api from "@/utils/api"
 
 interface Repayment {
-  id: string
-  loanId: string
-  borrowerId: string
-  borrowerName: string
+  _id: string // Changed from id to _id to match MongoDB's ID
+  loan: string
+  borrower: {
+    _id: string
+    name: string
+    email: string
+  }
   amount: number
+  amountPaid: number
   dueDate: string
   paidDate: string | null
-  status: "pending" | "paid" | "overdue" | "partial"
+  status: RepaymentStatus
   paymentMethod: string | null
   transactionId: string | null
   notes: string | null
 }
 
-// Mock repayments data
-const MOCK_REPAYMENTS: Repayment[] = [
-  {
-    id: "1",
-    loanId: "1",
-    borrowerId: "1",
-    borrowerName: "John Smith",
-    amount: 5000,
-    dueDate: "2023-02-15",
-    paidDate: "2023-02-14",
-    status: "paid",
-    paymentMethod: "Bank Transfer",
-    transactionId: "TRX123456",
-    notes: null,
-  },
-  {
-    id: "2",
-    loanId: "1",
-    borrowerId: "1",
-    borrowerName: "John Smith",
-    amount: 5000,
-    dueDate: "2023-03-15",
-    paidDate: "2023-03-16",
-    status: "paid",
-    paymentMethod: "Mobile Money",
-    transactionId: "TRX234567",
-    notes: "Paid one day late",
-  },
-  {
-    id: "3",
-    loanId: "1",
-    borrowerId: "1",
-    borrowerName: "John Smith",
-    amount: 5000,
-    dueDate: "2023-04-15",
-    paidDate: "2023-04-10",
-    status: "paid",
-    paymentMethod: "Bank Transfer",
-    transactionId: "TRX345678",
-    notes: null,
-  },
-  {
-    id: "4",
-    loanId: "2",
-    borrowerId: "2",
-    borrowerName: "Sarah Johnson",
-    amount: 3750,
-    dueDate: "2023-03-20",
-    paidDate: "2023-03-19",
-    status: "paid",
-    paymentMethod: "Mobile Money",
-    transactionId: "TRX456789",
-    notes: null,
-  },
-  {
-    id: "5",
-    loanId: "2",
-    borrowerId: "2",
-    borrowerName: "Sarah Johnson",
-    amount: 3750,
-    dueDate: "2023-04-20",
-    paidDate: "2023-04-20",
-    status: "paid",
-    paymentMethod: "Bank Transfer",
-    transactionId: "TRX567890",
-    notes: null,
-  },
-  {
-    id: "6",
-    loanId: "2",
-    borrowerId: "2",
-    borrowerName: "Sarah Johnson",
-    amount: 3750,
-    dueDate: "2023-05-20",
-    paidDate: null,
-    status: "pending",
-    paymentMethod: null,
-    transactionId: null,
-    notes: null,
-  },
-  {
-    id: "7",
-    loanId: "6",
-    borrowerId: "4",
-    borrowerName: "Emily Davis",
-    amount: 4000,
-    dueDate: "2023-01-01",
-    paidDate: null,
-    status: "overdue",
-    paymentMethod: null,
-    transactionId: null,
-    notes: "Borrower not responding to calls",
-  },
-  {
-    id: "8",
-    loanId: "6",
-    borrowerId: "4",
-    borrowerName: "Emily Davis",
-    amount: 4000,
-    dueDate: "2023-02-01",
-    paidDate: "2023-02-15",
-    status: "paid",
-    paymentMethod: "Bank Transfer",
-    transactionId: "TRX678901",
-    notes: "Paid late with penalty",
-  },
-  {
-    id: "9",
-    loanId: "6",
-    borrowerId: "4",
-    borrowerName: "Emily Davis",
-    amount: 4000,
-    dueDate: "2023-03-01",
-    paidDate: "2023-03-01",
-    status: "partial",
-    paymentMethod: "Mobile Money",
-    transactionId: "TRX789012",
-    notes: "Paid only half the amount",
-  },
-]
+// Loans that repayments can be scheduled against
+interface RepayableLoan {
+  _id: string
+  user: {
+    _id: string
+    name: string
+    email: string
+  }
+  amount: number
+  status: string
+}
+
+// Payment details captured when marking a repayment as paid or partial
+interface PaymentRecord {
+  repaymentId: string
+  status: "paid" | "partial"
+  amountPaid: string
+  paymentMethod: string
+  transactionId: string
+  // Still owed on the repayment, which caps the amount received
+  outstanding: number
+}
+
+interface NewRepayment {
+  loanId: string
+  amount: string
+  dueDate: string
+  notes: string
+}
+
+const NEW_REPAYMENT_SCHEMA: Schema<NewRepayment> = {
+  loanId: [required("Select a loan")],
+  amount: [required("Amount is required"), number({ min: 0.01, label: "Amount" })],
+  dueDate: [required("Due date is required")],
+}
+
+const PAYMENT_RECORD_SCHEMA: Schema<PaymentRecord> = {
+  amountPaid: [
+    required("Amount received is required"),
+    number({ min: 0.01, max: (values) => values.outstanding, label: "Amount received" }),
+  ],
+  paymentMethod: [required("Select a payment method")],
+}
+
+// Only disbursed loans can have repayments scheduled against them
+const REPAYABLE_STATUSES = ["disbursed", "repaying"]
+const LOAN_PAGE_SIZE = 100
+
+// The loans endpoint is paginated, so walk every page of each repayable status
+const fetchRepayableLoans = async () => {
+  const loans: RepayableLoan[] = []
+  for (const status of REPAYABLE_STATUSES) {
+    for (let page = 1; ; page++) {
+      const response = await api.get("/api/admin/loans", { params: { status, page, limit: LOAN_PAGE_SIZE } })
+      const pageLoans: RepayableLoan[] = response.data.loans || []
+      loans.push(...pageLoans.filter((loan) => loan.status === status))
+      if (pageLoans.length === 0 || page * LOAN_PAGE_SIZE >= (response.data.total ?? 0)) break
+    }
+  }
+  return loans
+}
 
-// Mock loans for the dropdown
-const MOCK_LOANS = [
-  { id: "1", borrowerId: "1", borrowerName: "John Smith", amount: 50000 },
-  { id: "2", borrowerId: "2", borrowerName: "Sarah Johnson", amount: 75000 },
-  { id: "6", borrowerId: "4", borrowerName: "Emily Davis", amount: 200000 },
+// Columns offered when exporting the repayment ledger
+const REPAYMENT_EXPORT_COLUMNS: ExportColumn<Repayment>[] = [
+  { id: "id", header: "ID", type: "text", value: (repayment) => repayment._id },
+  { id: "borrower", header: "Borrower", type: "text", value: (repayment) => repayment.borrower?.name },
+  { id: "email", header: "Email", type: "text", value: (repayment) => repayment.borrower?.email },
+  { id: "loan", header: "Loan ID", type: "text", value: (repayment) => repayment.loan },
+  { id: "amount", header: "Amount", type: "amount", value: (repayment) => repayment.amount },
+  { id: "amountPaid", header: "Amount Paid", type: "amount", value: (repayment) => repayment.amountPaid || 0 },
+  { id: "dueDate", header: "Due Date", type: "date", value: (repayment) => toExportDate(repayment.dueDate) },
+  { id: "paidDate", header: "Paid Date", type: "date", value: (repayment) => toExportDate(repayment.paidDate) },
+  { id: "status", header: "Status", type: "text", value: (repayment) => repayment.status },
+  { id: "paymentMethod", header: "Payment Method", type: "text", value: (repayment) => repayment.paymentMethod },
+  { id: "transactionId", header: "Transaction", type: "text", value: (repayment) => repayment.transactionId },
+  { id: "notes", header: "Notes", type: "text", value: (repayment) => repayment.notes },
 ]
 
 export default function AdminRepayments() {
-  const [repayments, setRepayments] = useState<Repayment[]>(MOCK_REPAYMENTS)
+  const [repayments, setRepayments] = useState<Repayment[]>([])
+  const [loans, setLoans] = useState<RepayableLoan[]>([])
   const [searchTerm, setSearchTerm] = useState("")
+  const [activeTab, setActiveTab] = useState("all")
   const [isAddRepaymentOpen, setIsAddRepaymentOpen] = useState(false)
-  const [newRepayment, setNewRepayment] = useState({
+  const [paymentRecord, setPaymentRecord] = useState<PaymentRecord | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [newRepayment, setNewRepayment] = useState<NewRepayment>({
     loanId: "",
     amount: "",
     dueDate: "",
     notes: "",
   })
+  const { errors, validateAll, validateOne, clearError, resetErrors, applyServerError, fieldProps } =
+    useFormValidation(NEW_REPAYMENT_SCHEMA)
+  const paymentValidation = useFormValidation(PAYMENT_RECORD_SCHEMA)
   const { toast } = useToast()
 
+  // Fetch repayments and repayable loans on component mount
+  useEffect(() => {
+    const fetchRepayments = async () => {
+      setIsLoading(true)
+      setError(null)
+      try {
+        const response = await api.get("/api/admin/repayments")
+        setRepayments(response.data.repayments || [])
+
+        setLoans(await fetchRepayableLoans())
+      } catch (error: any) {
+        console.error("Error fetching repayments:", error)
+
+        let errorMessage = "Failed to load repayments data"
+        if (error.response) {
+          errorMessage += `: ${error.response.status} - ${error.response.data?.message || "Unknown error"}`
+        } else if (error.request) {
+          errorMessage += ": No response received from server"
+        } else {
+          errorMessage += `: ${error.message}`
+        }
+
+        setError(errorMessage)
+
+        toast({
+          variant: "destructive",
+          title: "Failed to fetch data",
+          description: "There was an error loading the repayments data.",
+        })
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchRepayments()
+  }, [toast])
+
   const filteredRepayments = repayments.filter(
     (repayment) =>
-      repayment.borrowerName.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      repayment.borrower?.name?.toLowerCase().includes(searchTerm.toLowerCase()) ||
       repayment.status.toLowerCase().includes(searchTerm.toLowerCase()) ||
       (repayment.paymentMethod && repayment.paymentMethod.toLowerCase().includes(searchTerm.toLowerCase())),
   )
 
-  const handleAddRepayment = () => {
-    if (!newRepayment.loanId || !newRepayment.amount || !newRepayment.dueDate) {
-      toast({
-        variant: "destructive",
-        title: "Error",
-        description: "Please fill in all required fields",
-      })
-      return
-    }
+  // Rows on the open tab, which is what an export contains
+  const visibleRepayments =
+    activeTab === "all" ? filteredRepayments : filteredRepayments.filter((repayment) => repayment.status === activeTab)
+
+  const updateNewRepayment = (field: keyof NewRepayment, value: string) => {
+    setNewRepayment((current) => ({ ...current, [field]: value }))
+    clearError(field)
+  }
+
+  const handleAddRepaymentOpenChange = (open: boolean) => {
+    setIsAddRepaymentOpen(open)
+    if (!open) resetErrors()
+  }
 
-    const newId = (Math.max(...repayments.map((r) => Number.parseInt(r.id))) + 1).toString()
-    const selectedLoan = MOCK_LOANS.find((l) => l.id === newRepayment.loanId)
+  const handleAddRepayment = async () => {
+    if (!validateAll(newRepayment)) return
+
+    const selectedLoan = loans.find((l) => l._id === newRepayment.loanId)
 
     if (!selectedLoan) {
       toast({
@@ -206,87 +221,140 @@ export default function AdminRepayments() {
       return
     }
 
-    setRepayments([
-      ...repayments,
-      {
-        id: newId,
-        loanId: newRepayment.loanId,
-        borrowerId: selectedLoan.borrowerId,
-        borrowerName: selectedLoan.borrowerName,
+    setIsSaving(true)
+
+    try {
+      const response = await api.post("/api/admin/repayments", {
+        loan: newRepayment.loanId,
         amount: Number(newRepayment.amount),
         dueDate: newRepayment.dueDate,
-        paidDate: null,
-        status: "pending",
-        paymentMethod: null,
-        transactionId: null,
-        notes: newRepayment.notes || null,
-      },
-    ])
+        notes: newRepayment.notes || undefined,
+      })
 
-    setNewRepayment({
-      loanId: "",
-      amount: "",
-      dueDate: "",
-      notes: "",
-    })
+      setRepayments([...repayments, response.data.repayment])
 
-    setIsAddRepaymentOpen(false)
+      setNewRepayment({
+        loanId: "",
+        amount: "",
+        dueDate: "",
+        notes: "",
+      })
 
-    toast({
-      title: "Repayment Added",
-      description: `A new repayment schedule for ${selectedLoan.borrowerName} has been added`,
-    })
+      handleAddRepaymentOpenChange(false)
+
+      toast({
+        title: "Repayment Added",
+        description: `A new repayment schedule for ${selectedLoan.user.name} has been added`,
+      })
+    } catch (error: any) {
+      console.error("Error adding repayment:", error)
+      const message = applyServerError(error, "There was an error creating the repayment.")
+      if (message) {
+        toast({
+          variant: "destructive",
+          title: "Failed to add repayment",
+          description: message,
+        })
+      }
+    } finally {
+      setIsSaving(false)
+    }
   }
 
-  const handleUpdateStatus = (repaymentId: string, newStatus: Repayment["status"], paidDate: string | null = null) => {
-    setRepayments(
-      repayments.map((repayment) =>
-        repayment.id === repaymentId
-          ? {
-              ...repayment,
-              status: newStatus,
-              paidDate: paidDate || repayment.paidDate,
-              paymentMethod:
-                newStatus === "paid" || newStatus === "partial" ? "Bank Transfer" : repayment.paymentMethod,
-              transactionId:
-                newStatus === "paid" || newStatus === "partial"
-                  ? `TRX${Math.floor(Math.random() * 1000000)}`
-                  : repayment.transactionId,
-            }
-          : repayment,
-      ),
-    )
+  // `applyServerError` lets the payment dialog show field errors from the server inline
+  const updateRepaymentStatus = async (
+    repaymentId: string,
+    payload: Record<string, unknown>,
+    applyServerError?: (error: unknown, fallback: string) => string | undefined,
+  ) => {
+    setIsSaving(true)
+
+    try {
+      const response = await api.patch(`/api/admin/repayments/${repaymentId}/status`, payload)
+      const updated: Repayment = response.data.repayment
+
+      setRepayments((current) => current.map((repayment) => (repayment._id === repaymentId ? updated : repayment)))
+
+      toast({
+        title: "Status Updated",
+        description: `Repayment status has been updated to ${updated.status.toUpperCase()}`,
+      })
+      return true
+    } catch (error: any) {
+      console.error("Error updating repayment status:", error)
+      const fallback = "There was an error updating the repayment status."
+      const message = applyServerError
+        ? applyServerError(error, fallback)
+        : error.response?.data?.message || fallback
+      if (message) {
+        toast({
+          variant: "destructive",
+          title: "Failed to update status",
+          description: message,
+        })
+      }
+      return false
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleUpdateStatus = (repayment: Repayment, newStatus: Repayment["status"]) => {
+    // Paid and partial need payment details, so collect them first
+    if (newStatus === "paid" || newStatus === "partial") {
+      const outstanding = Math.max(repayment.amount - (repayment.amountPaid || 0), 0)
+      setPaymentRecord({
+        repaymentId: repayment._id,
+        status: newStatus,
+        amountPaid: newStatus === "paid" ? outstanding.toString() : "",
+        paymentMethod: "",
+        transactionId: "",
+        outstanding,
+      })
+      return
+    }
+
+    updateRepaymentStatus(repayment._id, { status: newStatus })
+  }
 
-    toast({
-      title: "Status Updated",
-      description: `Repayment status has been updated to ${newStatus.toUpperCase()}`,
-    })
+  const updatePaymentRecord = (field: "amountPaid" | "paymentMethod" | "transactionId", value: string) => {
+    setPaymentRecord((current) => (current ? { ...current, [field]: value } : current))
+    paymentValidation.clearError(field)
   }
 
-  const getStatusBadgeClass = (status: Repayment["status"]) => {
-    switch (status) {
-      case "pending":
-        return "bg-yellow-100 text-yellow-800"
-      case "paid":
-        return "bg-green-100 text-green-800"
-      case "overdue":
-        return "bg-red-100 text-red-800"
-      case "partial":
-        return "bg-blue-100 text-blue-800"
-      default:
-        return "bg-gray-100 text-gray-800"
+  const handlePaymentDialogOpenChange = (open: boolean) => {
+    if (!open) {
+      setPaymentRecord(null)
+      paymentValidation.resetErrors()
+    }
+  }
+
+  const handleRecordPayment = async () => {
+    if (!paymentRecord || !paymentValidation.validateAll(paymentRecord)) return
+
+    const saved = await updateRepaymentStatus(
+      paymentRecord.repaymentId,
+      {
+        status: paymentRecord.status,
+        amountPaid: Number(paymentRecord.amountPaid),
+        paymentMethod: paymentRecord.paymentMethod,
+        // Leave blank to let the server issue a transaction reference
+        transactionId: paymentRecord.transactionId || undefined,
+        paidDate: new Date().toISOString().split("T")[0],
+      },
+      paymentValidation.applyServerError,
+    )
+
+    if (saved) {
+      handlePaymentDialogOpenChange(false)
     }
   }
 
   // Calculate statistics
   const totalRepayments = repayments.length
   const totalAmount = repayments.reduce((sum, repayment) => sum + repayment.amount, 0)
-  const totalPaid = repayments
-    .filter((repayment) => repayment.status === "paid")
-    .reduce((sum, repayment) => sum + repayment.amount, 0)
-  const totalPending = repayments
-    .filter((repayment) => repayment.status === "pending")
-    .reduce((sum, repayment) => sum + repayment.amount, 0)
+  // Partial payments count towards the collected total
+  const totalPaid = repayments.reduce((sum, repayment) => sum + (repayment.amountPaid || 0), 0)
   const totalOverdue = repayments
     .filter((repayment) => repayment.status === "overdue")
     .reduce((sum, repayment) => sum + repayment.amount, 0)
@@ -321,7 +389,7 @@ export default function AdminRepayments() {
               <CardContent>
                 <div className="text-2xl font-bold">{totalPaid.toLocaleString()}</div>
                 <p className="text-xs text-muted-foreground">
-                  {((totalPaid / totalAmount) * 100).toFixed(1)}% of total amount
+                  {totalAmount > 0 ? ((totalPaid / totalAmount) * 100).toFixed(1) : 0}% of total amount
                 </p>
               </CardContent>
             </Card>
@@ -332,7 +400,7 @@ export default function AdminRepayments() {
               <CardContent>
                 <div className="text-2xl font-bold">{totalOverdue.toLocaleString()}</div>
                 <p className="text-xs text-muted-foreground">
-                  {((totalOverdue / totalAmount) * 100).toFixed(1)}% of total amount
+                  {totalAmount > 0 ? ((totalOverdue / totalAmount) * 100).toFixed(1) : 0}% of total amount
                 </p>
               </CardContent>
             </Card>
@@ -350,13 +418,23 @@ export default function AdminRepayments() {
                   className="w-64"
                 />
 
-                <Dialog open={isAddRepaymentOpen} onOpenChange={setIsAddRepaymentOpen}>
-                  <DialogTrigger asChild>
-                    <Button className="bg-green-600 hover:bg-green-700">
-                      <DollarSign className="mr-2 h-4 w-4" />
-                      Add Repayment
-                    </Button>
-                  </DialogTrigger>
+                <ExportDialog
+                  title="Export repayments"
+                  filename="repayments"
+                  columns={REPAYMENT_EXPORT_COLUMNS}
+                  getRows={() => visibleRepayments}
+                  storageKey="admin-repayments"
+                />
+
+                <Dialog open={isAddRepaymentOpen} onOpenChange={handleAddRepaymentOpenChange}>
+                  <Can permission="repayments.create">
+                    <DialogTrigger asChild>
+                      <Button className="bg-green-600 hover:bg-green-700">
+                        <DollarSign className="mr-2 h-4 w-4" />
+                        Add Repayment
+                      </Button>
+                    </DialogTrigger>
+                  </Can>
                   <DialogContent>
                     <DialogHeader>
                       <DialogTitle>Add New Repayment</DialogTitle>
@@ -368,19 +446,20 @@ export default function AdminRepayments() {
                         <Label htmlFor="loan">Loan</Label>
                         <Select
                           value={newRepayment.loanId}
-                          onValueChange={(value) => setNewRepayment({ ...newRepayment, loanId: value })}
+                          onValueChange={(value) => updateNewRepayment("loanId", value)}
                         >
-                          <SelectTrigger id="loan">
+                          <SelectTrigger id="loan" {...fieldProps("loanId", "loan")}>
                             <SelectValue placeholder="Select loan" />
                           </SelectTrigger>
                           <SelectContent>
-                            {MOCK_LOANS.map((loan) => (
-                              <SelectItem key={loan.id} value={loan.id}>
-                                {loan.borrowerName} - {loan.amount.toLocaleString()}
+                            {loans.map((loan) => (
+                              <SelectItem key={loan._id} value={loan._id}>
+                                {loan.user.name} - {loan.amount.toLocaleString()}
                               </SelectItem>
                             ))}
                           </SelectContent>
                         </Select>
+                        <FieldError id="loan-error" message={errors.loanId} />
                       </div>
 
                       <div className="grid gap-2">
@@ -389,8 +468,11 @@ export default function AdminRepayments() {
                           id="amount"
                           type="number"
                           value={newRepayment.amount}
-                          onChange={(e) => setNewRepayment({ ...newRepayment, amount: e.target.value })}
+                          onChange={(e) => updateNewRepayment("amount", e.target.value)}
+                          onBlur={() => validateOne("amount", newRepayment)}
+                          {...fieldProps("amount")}
                         />
+                        <FieldError id="amount-error" message={errors.amount} />
                       </div>
 
                       <div className="grid gap-2">
@@ -399,8 +481,11 @@ export default function AdminRepayments() {
                           id="dueDate"
                           type="date"
                           value={newRepayment.dueDate}
-                          onChange={(e) => setNewRepayment({ ...newRepayment, dueDate: e.target.value })}
+                          onChange={(e) => updateNewRepayment("dueDate", e.target.value)}
+                          onBlur={() => validateOne("dueDate", newRepayment)}
+                          {...fieldProps("dueDate")}
                         />
+                        <FieldError id="dueDate-error" message={errors.dueDate} />
                       </div>
 
                       <div className="grid gap-2">
@@ -408,17 +493,17 @@ export default function AdminRepayments() {
                         <Input
                           id="notes"
                           value={newRepayment.notes}
-                          onChange={(e) => setNewRepayment({ ...newRepayment, notes: e.target.value })}
+                          onChange={(e) => updateNewRepayment("notes", e.target.value)}
                         />
                       </div>
                     </div>
 
                     <DialogFooter>
-                      <Button variant="outline" onClick={() => setIsAddRepaymentOpen(false)}>
+                      <Button variant="outline" onClick={() => handleAddRepaymentOpenChange(false)}>
                         Cancel
                       </Button>
-                      <Button className="bg-green-600 hover:bg-green-700" onClick={handleAddRepayment}>
-                        Add Repayment
+                      <Button className="bg-green-600 hover:bg-green-700" onClick={handleAddRepayment} disabled={isSaving}>
+                        {isSaving ? "Saving..." : "Add Repayment"}
                       </Button>
                     </DialogFooter>
                   </DialogContent>
@@ -426,57 +511,131 @@ export default function AdminRepayments() {
               </div>
             </div>
 
-            <Tabs defaultValue="all">
-              <TabsList className="mb-4">
-                <TabsTrigger value="all">All Repayments</TabsTrigger>
-                <TabsTrigger value="pending">Pending</TabsTrigger>
-                <TabsTrigger value="paid">Paid</TabsTrigger>
-                <TabsTrigger value="overdue">Overdue</TabsTrigger>
-                <TabsTrigger value="partial">Partial</TabsTrigger>
-              </TabsList>
-
-              <TabsContent value="all">
-                <RepaymentTable
-                  repayments={filteredRepayments}
-                  onUpdateStatus={handleUpdateStatus}
-                  getStatusBadgeClass={getStatusBadgeClass}
-                />
-              </TabsContent>
-
-              <TabsContent value="pending">
-                <RepaymentTable
-                  repayments={filteredRepayments.filter((r) => r.status === "pending")}
-                  onUpdateStatus={handleUpdateStatus}
-                  getStatusBadgeClass={getStatusBadgeClass}
-                />
-              </TabsContent>
-
-              <TabsContent value="paid">
-                <RepaymentTable
-                  repayments={filteredRepayments.filter((r) => r.status === "paid")}
-                  onUpdateStatus={handleUpdateStatus}
-                  getStatusBadgeClass={getStatusBadgeClass}
-                />
-              </TabsContent>
-
-              <TabsContent value="overdue">
-                <RepaymentTable
-                  repayments={filteredRepayments.filter((r) => r.status === "overdue")}
-                  onUpdateStatus={handleUpdateStatus}
-                  getStatusBadgeClass={getStatusBadgeClass}
-                />
-              </TabsContent>
-
-              <TabsContent value="partial">
-                <RepaymentTable
-                  repayments={filteredRepayments.filter((r) => r.status === "partial")}
-                  onUpdateStatus={handleUpdateStatus}
-                  getStatusBadgeClass={getStatusBadgeClass}
-                />
-              </TabsContent>
-            </Tabs>
+            {isLoading ? (
+              <div className="flex justify-center items-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900"></div>
+              </div>
+            ) : error ? (
+              <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded relative" role="alert">
+                <strong className="font-bold">Error: </strong>
+                <span className="block sm:inline">{error}</span>
+              </div>
+            ) : (
+              <Tabs value={activeTab} onValueChange={setActiveTab}>
+                <TabsList className="mb-4">
+                  <TabsTrigger value="all">All Repayments</TabsTrigger>
+                  <TabsTrigger value="pending">Pending</TabsTrigger>
+                  <TabsTrigger value="paid">Paid</TabsTrigger>
+                  <TabsTrigger value="overdue">Overdue</TabsTrigger>
+                  <TabsTrigger value="partial">Partial</TabsTrigger>
+                </TabsList>
+
+                <TabsContent value="all">
+                  <RepaymentTable repayments={filteredRepayments} onUpdateStatus={handleUpdateStatus} />
+                </TabsContent>
+
+                <TabsContent value="pending">
+                  <RepaymentTable
+                    repayments={filteredRepayments.filter((r) => r.status === "pending")}
+                    onUpdateStatus={handleUpdateStatus}
+                  />
+                </TabsContent>
+
+                <TabsContent value="paid">
+                  <RepaymentTable
+                    repayments={filteredRepayments.filter((r) => r.status === "paid")}
+                    onUpdateStatus={handleUpdateStatus}
+                  />
+                </TabsContent>
+
+                <TabsContent value="overdue">
+                  <RepaymentTable
+                    repayments={filteredRepayments.filter((r) => r.status === "overdue")}
+                    onUpdateStatus={handleUpdateStatus}
+                  />
+                </TabsContent>
+
+                <TabsContent value="partial">
+                  <RepaymentTable
+                    repayments={filteredRepayments.filter((r) => r.status === "partial")}
+                    onUpdateStatus={handleUpdateStatus}
+                  />
+                </TabsContent>
+              </Tabs>
+            )}
           </div>
         </div>
+
+        <Dialog open={!!paymentRecord} onOpenChange={handlePaymentDialogOpenChange}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Record Payment</DialogTitle>
+              <DialogDescription>
+                {paymentRecord?.status === "partial"
+                  ? "Record a partial payment against this repayment"
+                  : "Record the payment that settles this repayment"}
+              </DialogDescription>
+            </DialogHeader>
+
+            {paymentRecord && (
+              <div className="grid gap-4 py-4">
+                <div className="grid gap-2">
+                  <Label htmlFor="amountPaid">Amount Received</Label>
+                  <Input
+                    id="amountPaid"
+                    type="number"
+                    value={paymentRecord.amountPaid}
+                    onChange={(e) => updatePaymentRecord("amountPaid", e.target.value)}
+                    onBlur={() => paymentValidation.validateOne("amountPaid", paymentRecord)}
+                    {...paymentValidation.fieldProps("amountPaid")}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    {paymentRecord.outstanding.toLocaleString()} outstanding
+                  </p>
+                  <FieldError id="amountPaid-error" message={paymentValidation.errors.amountPaid} />
+                </div>
+
+                <div className="grid gap-2">
+                  <Label htmlFor="paymentMethod">Payment Method</Label>
+                  <Select
+                    value={paymentRecord.paymentMethod}
+                    onValueChange={(value) => updatePaymentRecord("paymentMethod", value)}
+                  >
+                    <SelectTrigger id="paymentMethod" {...paymentValidation.fieldProps("paymentMethod")}>
+                      <SelectValue placeholder="Select payment method" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="Bank Transfer">Bank Transfer</SelectItem>
+                      <SelectItem value="Mobile Money">Mobile Money</SelectItem>
+                      <SelectItem value="Card Payment">Card Payment</SelectItem>
+                      <SelectItem value="Cash Deposit">Cash Deposit</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FieldError id="paymentMethod-error" message={paymentValidation.errors.paymentMethod} />
+                </div>
+
+                <div className="grid gap-2">
+                  <Label htmlFor="transactionId">Transaction Reference (Optional)</Label>
+                  <Input
+                    id="transactionId"
+                    placeholder="Generated by the server if left blank"
+                    value={paymentRecord.transactionId}
+                    onChange={(e) => updatePaymentRecord("transactionId", e.target.value)}
+                  />
+                </div>
+              </div>
+            )}
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => handlePaymentDialogOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button className="bg-green-600 hover:bg-green-700" onClick={handleRecordPayment} disabled={isSaving}>
+                {isSaving ? "Saving..." : "Record Payment"}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
       </MainLayout>
     </ProtectedRoute>
   )
@@ -484,158 +643,144 @@ export default function AdminRepayments() {
 
 interface RepaymentTableProps {
   repayments: Repayment[]
-  onUpdateStatus: (repaymentId: string, newStatus: Repayment["status"], paidDate?: string | null) => void
-  getStatusBadgeClass: (status: Repayment["status"]) => string
+  onUpdateStatus: (repayment: Repayment, newStatus: Repayment["status"]) => void
 }
 
-function RepaymentTable({ repayments, onUpdateStatus, getStatusBadgeClass }: RepaymentTableProps) {
-  const [currentPage, setCurrentPage] = useState(1)
-  const [itemsPerPage] = useState(5)
+function RepaymentTable({ repayments, onUpdateStatus }: RepaymentTableProps) {
+  const canRecord = usePermission("repayments.record")
+
+  const columns: DataTableColumn<Repayment>[] = [
+    { id: "id", header: "ID", cell: (repayment) => `${repayment._id.substring(0, 8)}...` },
+    {
+      id: "borrower",
+      header: "Borrower",
+      className: "font-medium",
+      sortValue: (repayment) => repayment.borrower?.name.toLowerCase() || "",
+      cell: (repayment) => repayment.borrower?.name,
+    },
+    { id: "loan", header: "Loan ID", cell: (repayment) => `${repayment.loan.substring(0, 8)}...` },
+    {
+      id: "amount",
+      header: "Amount",
+      sortValue: (repayment) => repayment.amount,
+      cell: (repayment) => (
+        <>
+          {repayment.amount.toLocaleString()}
+          {repayment.status === "partial" && (
+            <span className="block text-xs text-muted-foreground">
+              {(repayment.amountPaid || 0).toLocaleString()} paid
+            </span>
+          )}
+        </>
+      ),
+    },
+    {
+      id: "dueDate",
+      header: "Due Date",
+      sortValue: (repayment) => new Date(repayment.dueDate).getTime(),
+      cell: (repayment) => new Date(repayment.dueDate).toLocaleDateString(),
+    },
+    {
+      id: "paidDate",
+      header: "Paid Date",
+      sortValue: (repayment) => (repayment.paidDate ? new Date(repayment.paidDate).getTime() : 0),
+      cell: (repayment) => (repayment.paidDate ? new Date(repayment.paidDate).toLocaleDateString() : "-"),
+    },
+    {
+      id: "status",
+      header: "Status",
+      sortValue: (repayment) => repayment.status,
+      cell: (repayment) => (
+        <Badge variant="outline" className={getRepaymentStatusBadgeClass(repayment.status)}>
+          {repayment.status.toUpperCase()}
+        </Badge>
+      ),
+    },
+    { id: "paymentMethod", header: "Payment Method", cell: (repayment) => repayment.paymentMethod || "-" },
+    {
+      id: "actions",
+      header: "Actions",
+      hideable: false,
+      cell: (repayment) => (
+        <div className="flex space-x-2">
+          <Button variant="outline" size="sm" asChild>
+            <a href={`/admin/loans/${repayment.loan}`}>
+              <Eye className="h-4 w-4" />
+            </a>
+          </Button>
+
+          {canRecord && repayment.status === "pending" && (
+            <>
+              <Button
+                variant="outline"
+                size="sm"
+                className="bg-green-100 text-green-800 hover:bg-green-200"
+                onClick={() => onUpdateStatus(repayment, "paid")}
+              >
+                Mark Paid
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="bg-blue-100 text-blue-800 hover:bg-blue-200"
+                onClick={() => onUpdateStatus(repayment, "partial")}
+              >
+                Partial
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="bg-red-100 text-red-800 hover:bg-red-200"
+                onClick={() => onUpdateStatus(repayment, "overdue")}
+              >
+                Mark Overdue
+              </Button>
+            </>
+          )}
 
-  const indexOfLastItem = currentPage * itemsPerPage
-  const indexOfFirstItem = indexOfLastItem - itemsPerPage
-  const currentRepayments = repayments.slice(indexOfFirstItem, indexOfLastItem)
-  const totalPages = Math.ceil(repayments.length / itemsPerPage)
+          {canRecord && repayment.status === "overdue" && (
+            <>
+              <Button
+                variant="outline"
+                size="sm"
+                className="bg-green-100 text-green-800 hover:bg-green-200"
+                onClick={() => onUpdateStatus(repayment, "paid")}
+              >
+                Mark Paid
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="bg-blue-100 text-blue-800 hover:bg-blue-200"
+                onClick={() => onUpdateStatus(repayment, "partial")}
+              >
+                Partial
+              </Button>
+            </>
+          )}
 
-  return (
-    <div>
-      <Table>
-        <TableHeader>
-          <TableRow>
-            <TableHead>ID</TableHead>
-            <TableHead>Borrower</TableHead>
-            <TableHead>Loan ID</TableHead>
-            <TableHead>Amount</TableHead>
-            <TableHead>Due Date</TableHead>
-            <TableHead>Paid Date</TableHead>
-            <TableHead>Status</TableHead>
-            <TableHead>Payment Method</TableHead>
-            <TableHead>Actions</TableHead>
-          </TableRow>
-        </TableHeader>
-        <TableBody>
-          {currentRepayments.length === 0 ? (
-            <TableRow>
-              <TableCell colSpan={9} className="text-center py-4">
-                No repayments found
-              </TableCell>
-            </TableRow>
-          ) : (
-            currentRepayments.map((repayment) => (
-              <TableRow key={repayment.id}>
-                <TableCell>{repayment.id}</TableCell>
-                <TableCell className="font-medium">{repayment.borrowerName}</TableCell>
-                <TableCell>{repayment.loanId}</TableCell>
-                <TableCell>{repayment.amount.toLocaleString()}</TableCell>
-                <TableCell>{repayment.dueDate}</TableCell>
-                <TableCell>{repayment.paidDate || "-"}</TableCell>
-                <TableCell>
-                  <Badge variant="outline" className={getStatusBadgeClass(repayment.status)}>
-                    {repayment.status.toUpperCase()}
-                  </Badge>
-                </TableCell>
-                <TableCell>{repayment.paymentMethod || "-"}</TableCell>
-                <TableCell>
-                  <div className="flex space-x-2">
-                    <Button variant="outline" size="sm">
-                      <Eye className="h-4 w-4" />
-                    </Button>
-
-                    {repayment.status === "pending" && (
-                      <>
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          className="bg-green-100 text-green-800 hover:bg-green-200"
-                          onClick={() => onUpdateStatus(repayment.id, "paid", new Date().toISOString().split("T")[0])}
-                        >
-                          Mark Paid
-                        </Button>
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          className="bg-blue-100 text-blue-800 hover:bg-blue-200"
-                          onClick={() =>
-                            onUpdateStatus(repayment.id, "partial", new Date().toISOString().split("T")[0])
-                          }
-                        >
-                          Partial
-                        </Button>
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          className="bg-red-100 text-red-800 hover:bg-red-200"
-                          onClick={() => onUpdateStatus(repayment.id, "overdue")}
-                        >
-                          Mark Overdue
-                        </Button>
-                      </>
-                    )}
-
-                    {repayment.status === "overdue" && (
-                      <>
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          className="bg-green-100 text-green-800 hover:bg-green-200"
-                          onClick={() => onUpdateStatus(repayment.id, "paid", new Date().toISOString().split("T")[0])}
-                        >
-                          Mark Paid
-                        </Button>
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          className="bg-blue-100 text-blue-800 hover:bg-blue-200"
-                          onClick={() =>
-                            onUpdateStatus(repayment.id, "partial", new Date().toISOString().split("T")[0])
-                          }
-                        >
-                          Partial
-                        </Button>
-                      </>
-                    )}
-
-                    {repayment.status === "partial" && (
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        className="bg-green-100 text-green-800 hover:bg-green-200"
-                        onClick={() => onUpdateStatus(repayment.id, "paid", new Date().toISOString().split("T")[0])}
-                      >
-                        Complete
-                      </Button>
-                    )}
-                  </div>
-                </TableCell>
-              </TableRow>
-            ))
+          {canRecord && repayment.status === "partial" && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="bg-green-100 text-green-800 hover:bg-green-200"
+              onClick={() => onUpdateStatus(repayment, "paid")}
+            >
+              Complete
+            </Button>
           )}
-        </TableBody>
-      </Table>
-
-      <div className="flex justify-between items-center mt-4">
-        <div>Items per page: {itemsPerPage}</div>
-        <div className="flex items-center">
-          <span>
-            {indexOfFirstItem + 1}-{Math.min(indexOfLastItem, repayments.length)} of {repayments.length}
-          </span>
-          <button
-            className="ml-2 p-1 rounded border disabled:opacity-50"
-            disabled={currentPage === 1}
-            onClick={() => setCurrentPage(currentPage - 1)}
-          >
-            <span className="material-icons">chevron_left</span>
-          </button>
-          <button
-            className="p-1 rounded border disabled:opacity-50"
-            disabled={currentPage === totalPages}
-            onClick={() => setCurrentPage(currentPage + 1)}
-          >
-            <span className="material-icons">chevron_right</span>
-          </button>
         </div>
-      </div>
-    </div>
+      ),
+    },
+  ]
+
+  return (
+    <DataTable
+      data={repayments}
+      columns={columns}
+      getRowId={(repayment) => repayment._id}
+      emptyMessage="No repayments found"
+      visibilityKey="admin-repayments"
+    />
   )
 }
-
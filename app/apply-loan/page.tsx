@@ -1,39 +1,167 @@
 "use client"
 
-import { useState } from "react"
+import { useEffect, useMemo, useState } from "react"
 import { useRouter } from "next/navigation"
 import ProtectedRoute from "@/components/protected-route"
 import MainLayout from "@/components/main-layout"
 import { Button } from "@/components/ui/button"
-import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
-import { Textarea } from "@/components/ui/textarea"
 import { Checkbox } from "@/components/ui/checkbox"
 import { useToast } from "@/hooks/use-toast"
+import { useAuth } from "@/context/auth-context"
+import AffordabilityCheck from "@/components/loans/affordability-check"
+import ApplicationStepper from "@/components/loans/application-stepper"
+import {
+  EmploymentStep,
+  FinancesStep,
+  PersonalStep,
+  ReviewStep,
+  TermsStep,
+} from "@/components/loans/application-steps"
+import KycDocumentUpload from "@/components/documents/kyc-document-upload"
+import { useApplicationDraft, type DraftSaveStatus } from "@/hooks/use-application-draft"
+import { useDocumentUploads } from "@/hooks/use-document-uploads"
+import { useFormValidation } from "@/hooks/use-form-validation"
+import { useLoanProducts } from "@/hooks/use-loan-products"
+import {
+  assessAffordability,
+  getMaxAffordableAmount,
+  getSchedulePayments,
+  summarizeBudget,
+} from "@/lib/affordability"
+import { loadSnapshot } from "@/lib/budget-store"
+import { formatFileSize, KYC_MAX_FILE_SIZE } from "@/lib/kyc"
+import {
+  APPLICATION_STEPS,
+  combineStepSchemas,
+  getApplicationStepSchemas,
+  getDeclaredFinances,
+  getDraftSchedule,
+  getFieldStep,
+  hasEmployer,
+  type LoanApplicationDraft,
+} from "@/lib/loan-application"
+import { findProduct } from "@/lib/loan-products"
+import { hasErrors, mapServerErrors, validate } from "@/lib/validation"
 import api from "@/utils/api"
 
+const SAVE_STATUS_LABELS: Record<DraftSaveStatus, string> = {
+  idle: "",
+  saving: "Saving draft...",
+  saved: "Draft saved",
+  local: "Draft saved on this device only",
+}
+
 export default function ApplyLoan() {
-  const [fullName, setFullName] = useState("")
-  const [amount, setAmount] = useState("")
-  const [tenure, setTenure] = useState("")
-  const [reason, setReason] = useState("")
-  const [employmentStatus, setEmploymentStatus] = useState("")
-  const [employerName, setEmployerName] = useState("")
-  const [employerAddress, setEmployerAddress] = useState("")
+  const { user } = useAuth()
+  const { draft, updateDraft, clearDraft, isLoaded, resumedAt, saveStatus } = useApplicationDraft(user?.id)
+  const documents = useDocumentUploads()
+  const [hasRestoredDocuments, setHasRestoredDocuments] = useState(false)
+  const { products } = useLoanProducts()
+  // Read the budget this device already holds; syncing it is the budget page's job
+  const budget = useMemo(() => (user ? summarizeBudget(loadSnapshot(user.id).items) : null), [user])
+  const stepSchemas = useMemo(() => getApplicationStepSchemas(products, budget), [products, budget])
+  const applicationSchema = useMemo(() => combineStepSchemas(stepSchemas), [stepSchemas])
+  const validation = useFormValidation(applicationSchema)
+  const [documentErrors, setDocumentErrors] = useState<string[]>([])
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [agreed, setAgreed] = useState(false)
   const router = useRouter()
   const { toast } = useToast()
 
+  const { restore, uploadedDocuments } = documents
+  const currentStep = APPLICATION_STEPS[draft.step] ?? APPLICATION_STEPS[0]
+  const isLastStep = draft.step === APPLICATION_STEPS.length - 1
+  const product = findProduct(products, draft.productId)
+  const schedule = getDraftSchedule(draft, product)
+  const payments = schedule ? getSchedulePayments(schedule) : { installment: 0, balloon: 0 }
+  const affordability = assessAffordability(getDeclaredFinances(draft), payments.installment, budget, payments.balloon)
+  const maxAffordableAmount =
+    product && draft.tenure
+      ? getMaxAffordableAmount(product, Number(draft.tenure), affordability.maxInstallment)
+      : undefined
+
+  // Show the documents a resumed draft already uploaded
+  useEffect(() => {
+    if (!isLoaded || hasRestoredDocuments) return
+    restore(draft.documents)
+    setHasRestoredDocuments(true)
+  }, [isLoaded, hasRestoredDocuments, restore, draft.documents])
+
+  // Keep the draft's document list in step with the uploads
+  const uploadedIds = documents.documentIds.join(",")
+  useEffect(() => {
+    if (!hasRestoredDocuments) return
+    if (uploadedIds !== draft.documents.map((document) => document._id).join(",")) {
+      updateDraft({ documents: uploadedDocuments })
+    }
+  }, [hasRestoredDocuments, uploadedIds, uploadedDocuments, draft.documents, updateDraft])
+
+  const { clearError, resetErrors, setErrors } = validation
+
+  const handleChange = (changes: Partial<LoanApplicationDraft>) => {
+    updateDraft(changes)
+    Object.keys(changes).forEach((field) => clearError(field as keyof LoanApplicationDraft))
+  }
+
+  const getDocumentErrors = () => {
+    if (documents.isUploading) return ["Please wait for your documents to finish uploading"]
+    return documents.missingTypes.map((requirement) => `Please upload: ${requirement.label}`)
+  }
+
+  const isStepValid = (index: number) => {
+    const step = APPLICATION_STEPS[index]
+    if (step.id === "documents") return getDocumentErrors().length === 0
+    return !hasErrors(validate(stepSchemas[step.id] ?? {}, draft))
+  }
+
+  // Shows why a step cannot be left; returns true when it can
+  const checkStep = (index: number) => {
+    const step = APPLICATION_STEPS[index]
+    if (step.id === "documents") {
+      const errors = getDocumentErrors()
+      setDocumentErrors(errors)
+      return errors.length === 0
+    }
+    const errors = validate(stepSchemas[step.id] ?? {}, draft)
+    setErrors(errors)
+    return !hasErrors(errors)
+  }
+
+  const goToStep = (index: number) => {
+    resetErrors()
+    setDocumentErrors([])
+    updateDraft({ step: index })
+    window.scrollTo({ top: 0 })
+  }
+
+  const handleNext = () => {
+    if (checkStep(draft.step)) goToStep(draft.step + 1)
+  }
+
+  // Uploads are cleared with the draft so they are not synced back into a new one
+  const resetApplication = async () => {
+    restore([])
+    setAgreed(false)
+    resetErrors()
+    setDocumentErrors([])
+    await clearDraft()
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
 
-    if (!fullName || !amount || !tenure || !reason || !employmentStatus) {
-      toast({
-        variant: "destructive",
-        title: "Error",
-        description: "Please fill in all required fields",
-      })
+    // Enter in a field on an earlier step moves on rather than submitting
+    if (!isLastStep) {
+      handleNext()
+      return
+    }
+
+    // Earlier steps can be edited from the review, so every step is checked again before sending
+    const invalidStep = APPLICATION_STEPS.findIndex((_, index) => !isStepValid(index))
+    if (invalidStep !== -1) {
+      goToStep(invalidStep)
+      checkStep(invalidStep)
       return
     }
 
@@ -49,15 +177,30 @@ export default function ApplyLoan() {
     setIsSubmitting(true)
 
     try {
-      const response = await api.post('/api/loans', {
-        amount: Number(amount),
-        tenure: Number(tenure),
-        reason,
-        employmentStatus,
-        employerName: employerName || undefined,
-        employerAddress: employerAddress || undefined,
+      await api.post('/api/loans', {
+        product: draft.productId,
+        amount: Number(draft.amount),
+        tenure: Number(draft.tenure),
+        interestMethod: product?.interestMethod,
+        totalAmountPayable: schedule?.totalPayable,
+        reason: draft.reason,
+        fullName: draft.fullName,
+        dateOfBirth: draft.dateOfBirth,
+        phone: draft.phone,
+        address: draft.address,
+        employmentStatus: draft.employmentStatus,
+        employerName: hasEmployer(draft.employmentStatus) ? draft.employerName : undefined,
+        employerAddress: hasEmployer(draft.employmentStatus) ? draft.employerAddress || undefined : undefined,
+        jobTitle: hasEmployer(draft.employmentStatus) ? draft.jobTitle || undefined : undefined,
+        monthlyIncome: Number(draft.monthlyIncome),
+        otherIncome: Number(draft.otherIncome || 0),
+        monthlyExpenses: Number(draft.monthlyExpenses),
+        existingDebtPayments: Number(draft.existingDebtPayments || 0),
+        documentIds: documents.documentIds,
       })
 
+      await resetApplication()
+
       toast({
         title: "Application Submitted",
         description: "Your loan application has been submitted successfully",
@@ -65,11 +208,29 @@ export default function ApplyLoan() {
 
       router.push("/dashboard")
     } catch (error: any) {
-      toast({
-        variant: "destructive",
-        title: "Error",
-        description: error.response?.data?.message || "Failed to submit application",
-      })
+      const { fieldErrors, message } = mapServerErrors<LoanApplicationDraft>(
+        error,
+        Object.keys(applicationSchema) as (keyof LoanApplicationDraft & string)[],
+      )
+
+      // Take the borrower back to the first step the server found a problem on
+      const errorStep = Math.min(
+        ...Object.keys(fieldErrors)
+          .map((field) => getFieldStep(stepSchemas, field))
+          .filter((index) => index !== -1),
+      )
+      if (Number.isFinite(errorStep)) {
+        goToStep(errorStep)
+        setErrors(fieldErrors)
+      }
+
+      if (message || !hasErrors(fieldErrors)) {
+        toast({
+          variant: "destructive",
+          title: "Error",
+          description: message || "Failed to submit application",
+        })
+      }
     } finally {
       setIsSubmitting(false)
     }
@@ -81,92 +242,125 @@ export default function ApplyLoan() {
         <div className="max-w-3xl mx-auto bg-white p-6 rounded shadow">
           <h2 className="text-2xl font-bold mb-6 text-center">APPLY FOR A LOAN</h2>
 
-          <form onSubmit={handleSubmit}>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
-              <div>
-                <Label htmlFor="fullName">Full name as it appears on bank account</Label>
-                <Input id="fullName" value={fullName} onChange={(e) => setFullName(e.target.value)} required />
-              </div>
-
-              <div>
-                <Label htmlFor="amount">How much do you need?</Label>
-                <Input
-                  id="amount"
-                  type="number"
-                  value={amount}
-                  onChange={(e) => setAmount(e.target.value)}
-                  min="1000"
-                  required
-                />
-              </div>
+          {!isLoaded ? (
+            <div className="flex justify-center items-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900"></div>
             </div>
+          ) : (
+            <form onSubmit={handleSubmit} noValidate>
+              {resumedAt && (
+                <div className="flex items-center justify-between gap-4 mb-6 px-4 py-3 rounded bg-blue-50">
+                  <span className="text-sm text-blue-800">
+                    We restored the application you started on {new Date(resumedAt).toLocaleString()}.
+                  </span>
+                  <Button type="button" variant="outline" size="sm" onClick={resetApplication}>
+                    Start over
+                  </Button>
+                </div>
+              )}
 
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
-              <div>
-                <Label htmlFor="tenure">Loan tenure (in months)</Label>
-                <Input
-                  id="tenure"
-                  type="number"
-                  value={tenure}
-                  onChange={(e) => setTenure(e.target.value)}
-                  min="1"
-                  required
-                />
-              </div>
+              <ApplicationStepper steps={APPLICATION_STEPS} current={draft.step} onSelect={goToStep} />
 
-              <div>
-                <Label htmlFor="employmentStatus">Employment status</Label>
-                <Input
-                  id="employmentStatus"
-                  value={employmentStatus}
-                  onChange={(e) => setEmploymentStatus(e.target.value)}
-                  required
-                />
+              <div className="flex justify-between items-baseline mb-4">
+                <h3 className="text-lg font-semibold">{currentStep.label}</h3>
+                <span className="text-xs text-muted-foreground">{SAVE_STATUS_LABELS[saveStatus]}</span>
               </div>
-            </div>
 
-            <div className="mb-4">
-              <Label htmlFor="reason">Reason for loan</Label>
-              <Textarea id="reason" rows={4} value={reason} onChange={(e) => setReason(e.target.value)} required />
-            </div>
+              {documentErrors.length > 0 && (
+                <div
+                  className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded relative mb-4"
+                  role="alert"
+                >
+                  <ul className="list-disc pl-4 text-sm">
+                    {documentErrors.map((error) => (
+                      <li key={error}>{error}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
 
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
-              <div>
-                <Label htmlFor="employerName">Employer name</Label>
-                <Input id="employerName" value={employerName} onChange={(e) => setEmployerName(e.target.value)} />
-              </div>
+              <div className="mb-6">
+                {currentStep.id === "personal" && (
+                  <PersonalStep draft={draft} onChange={handleChange} validation={validation} />
+                )}
+                {currentStep.id === "employment" && (
+                  <EmploymentStep draft={draft} onChange={handleChange} validation={validation} />
+                )}
+                {currentStep.id === "finances" && (
+                  <FinancesStep draft={draft} onChange={handleChange} validation={validation} />
+                )}
+                {currentStep.id === "terms" && (
+                  <TermsStep
+                    draft={draft}
+                    onChange={handleChange}
+                    validation={validation}
+                    products={products}
+                    schedule={schedule}
+                    affordability={affordability}
+                    maxAffordableAmount={maxAffordableAmount}
+                  />
+                )}
+                {currentStep.id === "documents" && (
+                  <>
+                    <p className="text-xs text-muted-foreground mb-2">
+                      PDF, JPG or PNG files up to {formatFileSize(KYC_MAX_FILE_SIZE)} each.
+                    </p>
+                    <KycDocumentUpload uploads={documents} />
+                  </>
+                )}
+                {currentStep.id === "review" && (
+                  <>
+                    <ReviewStep draft={draft} product={product} schedule={schedule} onEdit={goToStep} />
 
-              <div>
-                <Label htmlFor="employerAddress">Employer address</Label>
-                <Input
-                  id="employerAddress"
-                  value={employerAddress}
-                  onChange={(e) => setEmployerAddress(e.target.value)}
-                />
-              </div>
-            </div>
+                    <div className="mt-4">
+                      <AffordabilityCheck assessment={affordability} />
+                    </div>
 
-            <div className="mb-6 space-y-4">
-              <div className="flex items-center space-x-2">
-                <Checkbox 
-                  id="terms1" 
-                  checked={agreed}
-                  onCheckedChange={(checked) => setAgreed(checked as boolean)}
-                />
-                <Label htmlFor="terms1" className="text-sm">
-                  I have read the legal and other information and agree that by considering the application, CreditSea may 
-                  disclose information to other lenders, credit bureaus, and credit reporting agencies.
-                </Label>
+                    <div className="flex items-center space-x-2 mt-6">
+                      <Checkbox
+                        id="terms1"
+                        checked={agreed}
+                        onCheckedChange={(checked) => setAgreed(checked as boolean)}
+                      />
+                      <Label htmlFor="terms1" className="text-sm">
+                        I have read the legal and other information and agree that by considering the application,
+                        CreditSea may disclose information to other lenders, credit bureaus, and credit reporting
+                        agencies.
+                      </Label>
+                    </div>
+                  </>
+                )}
               </div>
-            </div>
 
-            <Button type="submit" className="w-full md:w-auto bg-green-600 hover:bg-green-700" disabled={isSubmitting}>
-              {isSubmitting ? "Submitting..." : "Submit"}
-            </Button>
-          </form>
+              <div className="flex justify-between">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => goToStep(draft.step - 1)}
+                  disabled={draft.step === 0 || isSubmitting}
+                >
+                  Back
+                </Button>
+
+                {isLastStep ? (
+                  <Button type="submit" className="bg-green-600 hover:bg-green-700" disabled={isSubmitting}>
+                    {isSubmitting ? "Submitting..." : "Submit"}
+                  </Button>
+                ) : (
+                  <Button
+                    type="button"
+                    className="bg-green-600 hover:bg-green-700"
+                    onClick={handleNext}
+                    disabled={currentStep.id === "documents" && documents.isUploading}
+                  >
+                    Next
+                  </Button>
+                )}
+              </div>
+            </form>
+          )}
         </div>
       </MainLayout>
     </ProtectedRoute>
   )
 }
-
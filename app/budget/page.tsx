@@ -1,11 +1,10 @@
 "use client"
 
-import { useState } from "react"
+import { useEffect, useState } from "react"
 import ProtectedRoute from "@/components/protected-route"
 import MainLayout from "@/components/main-layout"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import {
@@ -21,68 +20,14 @@ import { Label } from "@/components/ui/label"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { useToast } from "@/hooks/use-toast"
 import { PieChart, Pie, Cell, ResponsiveContainer, Legend, Tooltip } from "recharts"
-import { Plus, Trash2 } from "lucide-react"
-
-interface BudgetItem {
-  id: string
-  category: string
-  amount: number
-  type: "income" | "expense"
-  date: string
-  description: string
-}
-
-// Mock budget data
-const MOCK_BUDGET_ITEMS: BudgetItem[] = [
-  {
-    id: "1",
-    category: "Salary",
-    amount: 50000,
-    type: "income",
-    date: "2023-07-01",
-    description: "Monthly salary",
-  },
-  {
-    id: "2",
-    category: "Rent",
-    amount: 15000,
-    type: "expense",
-    date: "2023-07-05",
-    description: "Monthly rent",
-  },
-  {
-    id: "3",
-    category: "Groceries",
-    amount: 5000,
-    type: "expense",
-    date: "2023-07-10",
-    description: "Weekly groceries",
-  },
-  {
-    id: "4",
-    category: "Utilities",
-    amount: 3000,
-    type: "expense",
-    date: "2023-07-15",
-    description: "Electricity and water",
-  },
-  {
-    id: "5",
-    category: "Transportation",
-    amount: 2000,
-    type: "expense",
-    date: "2023-07-20",
-    description: "Fuel and public transport",
-  },
-  {
-    id: "6",
-    category: "Freelance",
-    amount: 10000,
-    type: "income",
-    date: "2023-07-25",
-    description: "Side project payment",
-  },
-]
+import { Pencil, Plus, RefreshCw, Trash2 } from "lucide-react"
+import { useAuth } from "@/context/auth-context"
+import { useBudgetItems } from "@/hooks/use-budget-items"
+import DataTable, { type DataTableColumn } from "@/components/data-table"
+import { type BudgetItem, isLocalId } from "@/lib/budget-store"
+import FieldError from "@/components/field-error"
+import { useFormValidation } from "@/hooks/use-form-validation"
+import { number, required, type Schema } from "@/lib/validation"
 
 // Category options
 const INCOME_CATEGORIES = ["Salary", "Freelance", "Investments", "Gifts", "Other Income"]
@@ -98,19 +43,55 @@ const EXPENSE_CATEGORIES = [
   "Other Expenses",
 ]
 
+const emptyItem = () => ({
+  category: "",
+  amount: "",
+  type: "expense" as BudgetItem["type"],
+  date: new Date().toISOString().split("T")[0],
+  description: "",
+})
+
+type BudgetItemForm = ReturnType<typeof emptyItem>
+
+const BUDGET_ITEM_SCHEMA: Schema<BudgetItemForm> = {
+  category: [required("Category is required")],
+  amount: [required("Amount is required"), number({ min: 0.01, label: "Amount" })],
+  date: [required("Date is required")],
+}
+
 export default function UserBudget() {
-  const [budgetItems, setBudgetItems] = useState<BudgetItem[]>(MOCK_BUDGET_ITEMS)
+  const { user } = useAuth()
+  const {
+    items: budgetItems,
+    pendingCount,
+    isLoading,
+    isSyncing,
+    syncResult,
+    rejectedChanges,
+    clearRejectedChanges,
+    addItem,
+    updateItem,
+    deleteItem,
+    sync,
+  } = useBudgetItems(user?.id)
   const [searchTerm, setSearchTerm] = useState("")
   const [isAddItemOpen, setIsAddItemOpen] = useState(false)
-  const [newItem, setNewItem] = useState({
-    category: "",
-    amount: "",
-    type: "expense" as BudgetItem["type"],
-    date: new Date().toISOString().split("T")[0],
-    description: "",
-  })
+  const [editingItemId, setEditingItemId] = useState<string | null>(null)
+  const [newItem, setNewItem] = useState(emptyItem())
+  const { errors, validateAll, validateOne, clearError, resetErrors, fieldProps } =
+    useFormValidation(BUDGET_ITEM_SCHEMA)
   const { toast } = useToast()
 
+  useEffect(() => {
+    if (rejectedChanges.length === 0) return
+    toast({
+      variant: "destructive",
+      title: rejectedChanges.length === 1 ? "A change could not be synced" : "Some changes could not be synced",
+      description: rejectedChanges.map((change) => change.message).join(" "),
+    })
+    clearRejectedChanges()
+  }, [rejectedChanges, clearRejectedChanges, toast])
+
   const filteredItems = budgetItems.filter(
     (item) =>
       item.category.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -118,48 +99,62 @@ export default function UserBudget() {
       item.type.toLowerCase().includes(searchTerm.toLowerCase()),
   )
 
-  const handleAddItem = () => {
-    if (!newItem.category || !newItem.amount || !newItem.date) {
-      toast({
-        variant: "destructive",
-        title: "Error",
-        description: "Please fill in all required fields",
-      })
-      return
+  const handleDialogOpenChange = (open: boolean) => {
+    setIsAddItemOpen(open)
+    if (!open) {
+      setEditingItemId(null)
+      setNewItem(emptyItem())
+      resetErrors()
     }
+  }
 
-    const newId = (Math.max(...budgetItems.map((item) => Number.parseInt(item.id))) + 1).toString()
-
-    setBudgetItems([
-      ...budgetItems,
-      {
-        id: newId,
-        category: newItem.category,
-        amount: Number(newItem.amount),
-        type: newItem.type,
-        date: newItem.date,
-        description: newItem.description,
-      },
-    ])
+  const updateNewItem = (changes: Partial<BudgetItemForm>) => {
+    setNewItem((current) => ({ ...current, ...changes }))
+    Object.keys(changes).forEach((field) => clearError(field as keyof BudgetItemForm))
+  }
 
+  const handleEditItem = (item: BudgetItem) => {
+    setEditingItemId(item.id)
     setNewItem({
-      category: "",
-      amount: "",
-      type: "expense",
-      date: new Date().toISOString().split("T")[0],
-      description: "",
+      category: item.category,
+      amount: item.amount.toString(),
+      type: item.type,
+      date: item.date,
+      description: item.description,
     })
+    setIsAddItemOpen(true)
+  }
 
-    setIsAddItemOpen(false)
+  const handleSaveItem = () => {
+    if (!validateAll(newItem)) return
 
-    toast({
-      title: "Item Added",
-      description: `A new ${newItem.type} item has been added to your budget`,
-    })
+    const values = {
+      category: newItem.category,
+      amount: Number(newItem.amount),
+      type: newItem.type,
+      date: newItem.date,
+      description: newItem.description,
+    }
+
+    if (editingItemId) {
+      updateItem({ ...values, id: editingItemId })
+      toast({
+        title: "Item Updated",
+        description: `The ${newItem.type} item has been updated`,
+      })
+    } else {
+      addItem(values)
+      toast({
+        title: "Item Added",
+        description: `A new ${newItem.type} item has been added to your budget`,
+      })
+    }
+
+    handleDialogOpenChange(false)
   }
 
   const handleDeleteItem = (itemId: string) => {
-    setBudgetItems(budgetItems.filter((item) => item.id !== itemId))
+    deleteItem(itemId)
 
     toast({
       title: "Item Deleted",
@@ -293,7 +288,18 @@ export default function UserBudget() {
 
           <div className="bg-white p-6 rounded shadow">
             <div className="flex justify-between items-center mb-6">
-              <h2 className="text-xl font-semibold">Budget Items</h2>
+              <div>
+                <h2 className="text-xl font-semibold">Budget Items</h2>
+                <p className="text-xs text-muted-foreground">
+                  {isSyncing
+                    ? "Syncing..."
+                    : pendingCount > 0
+                      ? `${pendingCount} change${pendingCount === 1 ? "" : "s"} saved on this device, waiting to sync`
+                      : syncResult === "synced"
+                        ? "All changes synced"
+                        : "Saved on this device"}
+                </p>
+              </div>
 
               <div className="flex space-x-2">
                 <Input
@@ -303,7 +309,11 @@ export default function UserBudget() {
                   className="w-64"
                 />
 
-                <Dialog open={isAddItemOpen} onOpenChange={setIsAddItemOpen}>
+                <Button variant="outline" onClick={sync} disabled={isSyncing} title="Sync now">
+                  <RefreshCw className={`h-4 w-4 ${isSyncing ? "animate-spin" : ""}`} />
+                </Button>
+
+                <Dialog open={isAddItemOpen} onOpenChange={handleDialogOpenChange}>
                   <DialogTrigger asChild>
                     <Button className="bg-green-600 hover:bg-green-700">
                       <Plus className="mr-2 h-4 w-4" />
@@ -312,8 +322,10 @@ export default function UserBudget() {
                   </DialogTrigger>
                   <DialogContent>
                     <DialogHeader>
-                      <DialogTitle>Add Budget Item</DialogTitle>
-                      <DialogDescription>Add a new income or expense to your budget</DialogDescription>
+                      <DialogTitle>{editingItemId ? "Edit Budget Item" : "Add Budget Item"}</DialogTitle>
+                      <DialogDescription>
+                        {editingItemId ? "Update this budget entry" : "Add a new income or expense to your budget"}
+                      </DialogDescription>
                     </DialogHeader>
 
                     <div className="grid gap-4 py-4">
@@ -321,7 +333,7 @@ export default function UserBudget() {
                         <Label htmlFor="type">Type</Label>
                         <Select
                           value={newItem.type}
-                          onValueChange={(value: BudgetItem["type"]) => setNewItem({ ...newItem, type: value })}
+                          onValueChange={(value: BudgetItem["type"]) => updateNewItem({ type: value, category: "" })}
                         >
                           <SelectTrigger id="type">
                             <SelectValue placeholder="Select type" />
@@ -337,9 +349,9 @@ export default function UserBudget() {
                         <Label htmlFor="category">Category</Label>
                         <Select
                           value={newItem.category}
-                          onValueChange={(value) => setNewItem({ ...newItem, category: value })}
+                          onValueChange={(value) => updateNewItem({ category: value })}
                         >
-                          <SelectTrigger id="category">
+                          <SelectTrigger id="category" {...fieldProps("category")}>
                             <SelectValue placeholder="Select category" />
                           </SelectTrigger>
                           <SelectContent>
@@ -356,6 +368,7 @@ export default function UserBudget() {
                                 ))}
                           </SelectContent>
                         </Select>
+                        <FieldError id="category-error" message={errors.category} />
                       </div>
 
                       <div className="grid gap-2">
@@ -364,8 +377,11 @@ export default function UserBudget() {
                           id="amount"
                           type="number"
                           value={newItem.amount}
-                          onChange={(e) => setNewItem({ ...newItem, amount: e.target.value })}
+                          onChange={(e) => updateNewItem({ amount: e.target.value })}
+                          onBlur={() => validateOne("amount", newItem)}
+                          {...fieldProps("amount")}
                         />
+                        <FieldError id="amount-error" message={errors.amount} />
                       </div>
 
                       <div className="grid gap-2">
@@ -374,8 +390,11 @@ export default function UserBudget() {
                           id="date"
                           type="date"
                           value={newItem.date}
-                          onChange={(e) => setNewItem({ ...newItem, date: e.target.value })}
+                          onChange={(e) => updateNewItem({ date: e.target.value })}
+                          onBlur={() => validateOne("date", newItem)}
+                          {...fieldProps("date")}
                         />
+                        <FieldError id="date-error" message={errors.date} />
                       </div>
 
                       <div className="grid gap-2">
@@ -383,17 +402,17 @@ export default function UserBudget() {
                         <Input
                           id="description"
                           value={newItem.description}
-                          onChange={(e) => setNewItem({ ...newItem, description: e.target.value })}
+                          onChange={(e) => updateNewItem({ description: e.target.value })}
                         />
                       </div>
                     </div>
 
                     <DialogFooter>
-                      <Button variant="outline" onClick={() => setIsAddItemOpen(false)}>
+                      <Button variant="outline" onClick={() => handleDialogOpenChange(false)}>
                         Cancel
                       </Button>
-                      <Button className="bg-green-600 hover:bg-green-700" onClick={handleAddItem}>
-                        Add Item
+                      <Button className="bg-green-600 hover:bg-green-700" onClick={handleSaveItem}>
+                        {editingItemId ? "Save Changes" : "Add Item"}
                       </Button>
                     </DialogFooter>
                   </DialogContent>
@@ -401,31 +420,43 @@ export default function UserBudget() {
               </div>
             </div>
 
-            <Tabs defaultValue="all">
-              <TabsList className="mb-4">
-                <TabsTrigger value="all">All Items</TabsTrigger>
-                <TabsTrigger value="income">Income</TabsTrigger>
-                <TabsTrigger value="expense">Expenses</TabsTrigger>
-              </TabsList>
-
-              <TabsContent value="all">
-                <BudgetTable items={filteredItems} onDeleteItem={handleDeleteItem} />
-              </TabsContent>
-
-              <TabsContent value="income">
-                <BudgetTable
-                  items={filteredItems.filter((item) => item.type === "income")}
-                  onDeleteItem={handleDeleteItem}
-                />
-              </TabsContent>
-
-              <TabsContent value="expense">
-                <BudgetTable
-                  items={filteredItems.filter((item) => item.type === "expense")}
-                  onDeleteItem={handleDeleteItem}
-                />
-              </TabsContent>
-            </Tabs>
+            {isLoading ? (
+              <div className="flex justify-center items-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900"></div>
+              </div>
+            ) : (
+              <Tabs defaultValue="all">
+                <TabsList className="mb-4">
+                  <TabsTrigger value="all">All Items</TabsTrigger>
+                  <TabsTrigger value="income">Income</TabsTrigger>
+                  <TabsTrigger value="expense">Expenses</TabsTrigger>
+                </TabsList>
+
+                <TabsContent value="all">
+                  <BudgetTable
+                    items={filteredItems}
+                    onEditItem={handleEditItem}
+                    onDeleteItem={handleDeleteItem}
+                  />
+                </TabsContent>
+
+                <TabsContent value="income">
+                  <BudgetTable
+                    items={filteredItems.filter((item) => item.type === "income")}
+                    onEditItem={handleEditItem}
+                    onDeleteItem={handleDeleteItem}
+                  />
+                </TabsContent>
+
+                <TabsContent value="expense">
+                  <BudgetTable
+                    items={filteredItems.filter((item) => item.type === "expense")}
+                    onEditItem={handleEditItem}
+                    onDeleteItem={handleDeleteItem}
+                  />
+                </TabsContent>
+              </Tabs>
+            )}
           </div>
         </div>
       </MainLayout>
@@ -435,95 +466,77 @@ export default function UserBudget() {
 
 interface BudgetTableProps {
   items: BudgetItem[]
+  onEditItem: (item: BudgetItem) => void
   onDeleteItem: (itemId: string) => void
 }
 
-function BudgetTable({ items, onDeleteItem }: BudgetTableProps) {
-  const [currentPage, setCurrentPage] = useState(1)
-  const [itemsPerPage] = useState(5)
-
-  const indexOfLastItem = currentPage * itemsPerPage
-  const indexOfFirstItem = indexOfLastItem - itemsPerPage
-  const currentItems = items.slice(indexOfFirstItem, indexOfLastItem)
-  const totalPages = Math.ceil(items.length / itemsPerPage)
-
-  return (
-    <div>
-      <Table>
-        <TableHeader>
-          <TableRow>
-            <TableHead>Date</TableHead>
-            <TableHead>Category</TableHead>
-            <TableHead>Description</TableHead>
-            <TableHead>Type</TableHead>
-            <TableHead>Amount</TableHead>
-            <TableHead>Actions</TableHead>
-          </TableRow>
-        </TableHeader>
-        <TableBody>
-          {currentItems.length === 0 ? (
-            <TableRow>
-              <TableCell colSpan={6} className="text-center py-4">
-                No budget items found
-              </TableCell>
-            </TableRow>
-          ) : (
-            currentItems.map((item) => (
-              <TableRow key={item.id}>
-                <TableCell>{item.date}</TableCell>
-                <TableCell>{item.category}</TableCell>
-                <TableCell>{item.description}</TableCell>
-                <TableCell>
-                  <span
-                    className={`px-2 py-1 rounded text-xs ${
-                      item.type === "income" ? "bg-green-100 text-green-800" : "bg-red-100 text-red-800"
-                    }`}
-                  >
-                    {item.type.toUpperCase()}
-                  </span>
-                </TableCell>
-                <TableCell className={item.type === "income" ? "text-green-600" : "text-red-600"}>
-                  {item.amount.toLocaleString()}
-                </TableCell>
-                <TableCell>
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    className="bg-red-100 text-red-800 hover:bg-red-200"
-                    onClick={() => onDeleteItem(item.id)}
-                  >
-                    <Trash2 className="h-4 w-4" />
-                  </Button>
-                </TableCell>
-              </TableRow>
-            ))
-          )}
-        </TableBody>
-      </Table>
-
-      <div className="flex justify-between items-center mt-4">
-        <div>Items per page: {itemsPerPage}</div>
-        <div className="flex items-center">
-          <span>
-            {indexOfFirstItem + 1}-{Math.min(indexOfLastItem, items.length)} of {items.length}
-          </span>
-          <button
-            className="ml-2 p-1 rounded border disabled:opacity-50"
-            disabled={currentPage === 1}
-            onClick={() => setCurrentPage(currentPage - 1)}
+function BudgetTable({ items, onEditItem, onDeleteItem }: BudgetTableProps) {
+  const columns: DataTableColumn<BudgetItem>[] = [
+    { id: "date", header: "Date", sortValue: (item) => item.date, cell: (item) => item.date },
+    { id: "category", header: "Category", sortValue: (item) => item.category, cell: (item) => item.category },
+    {
+      id: "description",
+      header: "Description",
+      cell: (item) => (
+        <>
+          {item.description}
+          {isLocalId(item.id) && <span className="ml-2 text-xs text-muted-foreground">(not synced)</span>}
+        </>
+      ),
+    },
+    {
+      id: "type",
+      header: "Type",
+      sortValue: (item) => item.type,
+      cell: (item) => (
+        <span
+          className={`px-2 py-1 rounded text-xs ${
+            item.type === "income" ? "bg-green-100 text-green-800" : "bg-red-100 text-red-800"
+          }`}
+        >
+          {item.type.toUpperCase()}
+        </span>
+      ),
+    },
+    {
+      id: "amount",
+      header: "Amount",
+      sortValue: (item) => item.amount,
+      cell: (item) => (
+        <span className={item.type === "income" ? "text-green-600" : "text-red-600"}>
+          {item.amount.toLocaleString()}
+        </span>
+      ),
+    },
+    {
+      id: "actions",
+      header: "Actions",
+      hideable: false,
+      cell: (item) => (
+        <div className="flex space-x-2">
+          <Button variant="outline" size="sm" onClick={() => onEditItem(item)}>
+            <Pencil className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="bg-red-100 text-red-800 hover:bg-red-200"
+            onClick={() => onDeleteItem(item.id)}
           >
-            <span className="material-icons">chevron_left</span>
-          </button>
-          <button
-            className="p-1 rounded border disabled:opacity-50"
-            disabled={currentPage === totalPages}
-            onClick={() => setCurrentPage(currentPage + 1)}
-          >
-            <span className="material-icons">chevron_right</span>
-          </button>
+            <Trash2 className="h-4 w-4" />
+          </Button>
         </div>
-      </div>
-    </div>
+      ),
+    },
+  ]
+
+  return (
+    <DataTable
+      data={items}
+      columns={columns}
+      getRowId={(item) => item.id}
+      emptyMessage="No budget items found"
+      visibilityKey="budget"
+    />
   )
 }
-
@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { Fragment, useState, useEffect } from "react"
 import Link from "next/link"
 import { CreditCard } from "lucide-react"
 import ProtectedRoute from "@/components/protected-route"
@@ -9,6 +9,11 @@ import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Badge } from "@/components/ui/badge"
 import api from "@/utils/api"
+import { useTableView } from "@/hooks/use-table-view"
+import TableViewControls from "@/components/dashboard/table-view-controls"
+import { applyTableView } from "@/lib/table-view"
+import { getDecisionReasonLabel, type LoanDecision, type LoanStatus } from "@/lib/loan-status"
+import LoanStatusTimeline, { type LoanStatusEvent } from "@/components/loans/loan-status-timeline"
 
 interface LoanUser {
   id: string
@@ -20,7 +25,10 @@ interface Loan {
   user: LoanUser | string
   amount: number
   applicationDate: string
-  status: "pending" | "verified" | "rejected" | "approved" | "disbursed"
+  status: LoanStatus
+  // Reason recorded with the latest status change, e.g. why it was rejected
+  statusReason?: LoanDecision
+  statusHistory?: LoanStatusEvent[]
 }
 
 export default function UserDashboard() {
@@ -29,6 +37,8 @@ export default function UserDashboard() {
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState("")
   const [searchTerm, setSearchTerm] = useState("")
+  const [expandedLoanId, setExpandedLoanId] = useState<string | null>(null)
+  const tableView = useTableView("borrower-loans")
 
   // Fetch user loans
   useEffect(() => {
@@ -59,6 +69,12 @@ export default function UserDashboard() {
     loan.amount.toString().includes(searchTerm)
   )
 
+  const visibleLoans = applyTableView(filteredLoans, tableView.view, {
+    amount: (loan) => loan.amount,
+    date: (loan) => loan.applicationDate,
+    status: (loan) => loan.status,
+  })
+
   const getStatusBadgeClass = (status: Loan["status"]) => {
     switch (status) {
       case "pending":
@@ -115,14 +131,7 @@ export default function UserDashboard() {
         <div className="bg-white p-4 rounded shadow">
           <div className="flex justify-between items-center mb-4">
             <h2 className="text-lg font-medium">Applied Loans</h2>
-            <div className="flex space-x-2">
-              <button className="p-1 rounded border">
-                <span className="material-icons text-sm">sort</span>
-              </button>
-              <button className="p-1 rounded border">
-                <span className="material-icons text-sm">filter_list</span>
-              </button>
-            </div>
+            <TableViewControls tableView={tableView} />
           </div>
 
           {loading ? (
@@ -131,6 +140,8 @@ export default function UserDashboard() {
             <div className="text-center text-red-500 py-4">{error}</div>
           ) : filteredLoans.length === 0 ? (
             <div className="text-center py-4">No loans found. Apply for a loan to get started.</div>
+          ) : visibleLoans.length === 0 ? (
+            <div className="text-center py-4">No loans match the current filters.</div>
           ) : (
             <div className="overflow-x-auto">
               <table className="min-w-full">
@@ -144,30 +155,58 @@ export default function UserDashboard() {
                   </tr>
                 </thead>
                 <tbody>
-                  {filteredLoans.map((loan) => (
-                    <tr key={loan._id} className="border-b">
-                      <td className="py-3 flex items-center">
-                        <div className="w-8 h-8 rounded-full bg-gray-300 flex items-center justify-center mr-2">
-                          <span className="text-sm">JO</span>
-                        </div>
-                        <div>
-                          <p>John Okeh</p>
-                          <p className="text-xs text-gray-500">Loan Officer</p>
-                        </div>
-                      </td>
-                      <td className="py-3">{loan.amount.toLocaleString()}</td>
-                      <td className="py-3">{new Date(loan.applicationDate).toLocaleDateString()}</td>
-                      <td className="py-3">
-                        <Badge variant="outline" className={getStatusBadgeClass(loan.status)}>
-                          {loan.status.toUpperCase()}
-                        </Badge>
-                      </td>
-                      <td className="py-3 text-right">
-                        <button className="text-gray-400">
-                          <span className="material-icons">more_vert</span>
-                        </button>
-                      </td>
-                    </tr>
+                  {visibleLoans.map((loan) => (
+                    <Fragment key={loan._id}>
+                      <tr className="border-b">
+                        <td className="py-3 flex items-center">
+                          <div className="w-8 h-8 rounded-full bg-gray-300 flex items-center justify-center mr-2">
+                            <span className="text-sm">JO</span>
+                          </div>
+                          <div>
+                            <p>John Okeh</p>
+                            <p className="text-xs text-gray-500">Loan Officer</p>
+                          </div>
+                        </td>
+                        <td className="py-3">{loan.amount.toLocaleString()}</td>
+                        <td className="py-3">{new Date(loan.applicationDate).toLocaleDateString()}</td>
+                        <td className="py-3">
+                          <Badge variant="outline" className={getStatusBadgeClass(loan.status)}>
+                            {loan.status.toUpperCase()}
+                          </Badge>
+                          {(loan.status === "rejected" || loan.status === "defaulted") && loan.statusReason && (
+                            <div className="mt-1 text-xs text-gray-600 max-w-xs">
+                              {loan.statusReason.reasonCode && (
+                                <p className="font-medium">
+                                  {getDecisionReasonLabel(loan.status, loan.statusReason.reasonCode)}
+                                </p>
+                              )}
+                              {loan.statusReason.note && <p>{loan.statusReason.note}</p>}
+                            </div>
+                          )}
+                        </td>
+                        <td className="py-3 text-right">
+                          <button
+                            className="text-gray-400"
+                            title="Show loan history"
+                            onClick={() => setExpandedLoanId(expandedLoanId === loan._id ? null : loan._id)}
+                          >
+                            <span className="material-icons">more_vert</span>
+                          </button>
+                        </td>
+                      </tr>
+                      {expandedLoanId === loan._id && (
+                        <tr className="border-b bg-gray-50">
+                          <td colSpan={5} className="p-4">
+                            <h3 className="text-sm font-semibold mb-3">Loan history</h3>
+                            <LoanStatusTimeline
+                              events={loan.statusHistory || []}
+                              getStatusBadgeClass={getStatusBadgeClass}
+                              variant="borrower"
+                            />
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
                   ))}
                 </tbody>
               </table>
@@ -175,7 +214,7 @@ export default function UserDashboard() {
               <div className="flex justify-between items-center mt-4">
                 <div>Items per page: 5</div>
                 <div className="flex items-center">
-                  <span>1-{Math.min(5, filteredLoans.length)} of {filteredLoans.length}</span>
+                  <span>1-{Math.min(5, visibleLoans.length)} of {visibleLoans.length}</span>
                   <button className="ml-2 p-1 rounded border">
                     <span className="material-icons">chevron_left</span>
                   </button>
@@ -11,6 +11,7 @@ import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
 import { Alert, AlertDescription } from "@/components/ui/alert"
+import { LOGOUT_REASON_MESSAGES, isLogoutReason } from "@/lib/session-timeout"
 
 export default function LoginPage() {
   const [email, setEmail] = useState("")
@@ -20,6 +21,7 @@ export default function LoginPage() {
   const { login } = useAuth()
   const searchParams = useSearchParams()
   const redirect = searchParams.get("redirect") || ""
+  const reason = searchParams.get("reason")
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -32,7 +34,7 @@ export default function LoginPage() {
     try {
       setError("")
       setIsLoading(true)
-      await login(email, password)
+      await login(email, password, redirect)
     } catch (err: any) {
       setError(err.message || "Failed to login")
     } finally {
@@ -49,6 +51,12 @@ export default function LoginPage() {
         </CardHeader>
 
         <CardContent>
+          {!error && isLogoutReason(reason) && (
+            <Alert className="mb-4">
+              <AlertDescription>{LOGOUT_REASON_MESSAGES[reason]}</AlertDescription>
+            </Alert>
+          )}
+
           {error && (
             <Alert variant="destructive" className="mb-4">
               <AlertDescription>{error}</AlertDescription>
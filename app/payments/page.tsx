@@ -1,11 +1,10 @@
 "use client"
 
-import { useState } from "react"
+import { useState, useEffect } from "react"
 import ProtectedRoute from "@/components/protected-route"
 import MainLayout from "@/components/main-layout"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Badge } from "@/components/ui/badge"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
@@ -20,168 +19,208 @@ import {
 import { Label } from "@/components/ui/label"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { useToast } from "@/hooks/use-toast"
+import FieldError from "@/components/field-error"
+import { useFormValidation } from "@/hooks/use-form-validation"
+import { number, required, type Schema } from "@/lib/validation"
+import { Printer } from "lucide-react"
+import DataTable, { type DataTableColumn } from "@/components/data-table"
+import { getRepaymentStatusBadgeClass, type RepaymentStatus } from "@/lib/status-badges"
+import api from "@/utils/api"
 
 interface Payment {
-  id: string
-  loanId: string
+  _id: string // Changed from id to _id to match MongoDB's ID
+  loan: string
   amount: number
+  amountPaid: number
   dueDate: string
   paidDate: string | null
-  status: "pending" | "paid" | "overdue" | "partial"
+  status: RepaymentStatus
   paymentMethod: string | null
   transactionId: string | null
 }
 
-// Mock payments data
-const MOCK_PAYMENTS: Payment[] = [
-  {
-    id: "1",
-    loanId: "1",
-    amount: 5000,
-    dueDate: "2023-02-15",
-    paidDate: "2023-02-14",
-    status: "paid",
-    paymentMethod: "Bank Transfer",
-    transactionId: "TRX123456",
-  },
-  {
-    id: "2",
-    loanId: "1",
-    amount: 5000,
-    dueDate: "2023-03-15",
-    paidDate: "2023-03-16",
-    status: "paid",
-    paymentMethod: "Mobile Money",
-    transactionId: "TRX234567",
-  },
-  {
-    id: "3",
-    loanId: "1",
-    amount: 5000,
-    dueDate: "2023-04-15",
-    paidDate: null,
-    status: "pending",
-    paymentMethod: null,
-    transactionId: null,
-  },
-  {
-    id: "4",
-    loanId: "2",
-    amount: 3750,
-    dueDate: "2023-03-20",
-    paidDate: "2023-03-19",
-    status: "paid",
-    paymentMethod: "Mobile Money",
-    transactionId: "TRX456789",
-  },
-  {
-    id: "5",
-    loanId: "2",
-    amount: 3750,
-    dueDate: "2023-04-20",
-    paidDate: "2023-04-20",
-    status: "partial",
-    paymentMethod: "Bank Transfer",
-    transactionId: "TRX567890",
-  },
-  {
-    id: "6",
-    loanId: "2",
-    amount: 3750,
-    dueDate: "2023-05-20",
-    paidDate: null,
-    status: "overdue",
-    paymentMethod: null,
-    transactionId: null,
-  },
-]
-
-// Mock loans for the dropdown
-const MOCK_LOANS = [
-  { id: "1", amount: 50000, term: 12, remainingAmount: 35000 },
-  { id: "2", amount: 75000, term: 24, remainingAmount: 67500 },
-]
+interface ActiveLoan {
+  _id: string
+  amount: number
+  tenure: number
+  status: string
+  amountPaid: number
+  totalAmountPayable: number
+}
+
+// Receipt issued by the server once a payment has been processed
+interface PaymentReceipt {
+  receiptNumber: string
+  transactionId: string
+  amount: number
+  paymentMethod: string
+  paidAt: string
+  installmentBalance: number
+  loanBalance: number
+}
+
+interface PaymentForm {
+  amount: string
+  paymentMethod: string
+  // Most that can be paid: what is left on the installment, and never more than the loan balance
+  balance: number
+}
+
+const PAYMENT_SCHEMA: Schema<PaymentForm> = {
+  amount: [
+    required("Payment amount is required"),
+    number({ min: 0.01, max: (values) => values.balance, label: "Payment amount" }),
+  ],
+  paymentMethod: [required("Select a payment method")],
+}
 
 export default function UserPayments() {
-  const [payments, setPayments] = useState<Payment[]>(MOCK_PAYMENTS)
+  const [payments, setPayments] = useState<Payment[]>([])
+  const [loans, setLoans] = useState<ActiveLoan[]>([])
+  const [selectedLoanId, setSelectedLoanId] = useState("all")
   const [searchTerm, setSearchTerm] = useState("")
   const [isPaymentDialogOpen, setIsPaymentDialogOpen] = useState(false)
   const [selectedPayment, setSelectedPayment] = useState<Payment | null>(null)
-  const [paymentAmount, setPaymentAmount] = useState("")
-  const [paymentMethod, setPaymentMethod] = useState("Bank Transfer")
+  const [paymentForm, setPaymentForm] = useState<PaymentForm>({
+    amount: "",
+    paymentMethod: "Bank Transfer",
+    balance: 0,
+  })
+  const [receipt, setReceipt] = useState<PaymentReceipt | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const { errors, validateAll, validateOne, clearError, resetErrors, applyServerError, fieldProps } =
+    useFormValidation(PAYMENT_SCHEMA)
   const { toast } = useToast()
 
-  const filteredPayments = payments.filter(
+  // Fetch the borrower's loans and installment schedule
+  useEffect(() => {
+    const fetchPayments = async () => {
+      setIsLoading(true)
+      setError(null)
+      try {
+        const loansResponse = await api.get("/api/loans")
+        const activeLoans = (loansResponse.data.loans || []).filter((loan: ActiveLoan) =>
+          ["disbursed", "repaying"].includes(loan.status),
+        )
+        setLoans(activeLoans)
+
+        const response = await api.get("/api/payments")
+        setPayments(response.data.payments || [])
+      } catch (error: any) {
+        console.error("Error fetching payments:", error)
+
+        let errorMessage = "Failed to load payments"
+        if (error.response) {
+          errorMessage += `: ${error.response.status} - ${error.response.data?.message || "Unknown error"}`
+        } else if (error.request) {
+          errorMessage += ": No response received from server"
+        } else {
+          errorMessage += `: ${error.message}`
+        }
+
+        setError(errorMessage)
+
+        toast({
+          variant: "destructive",
+          title: "Failed to fetch data",
+          description: "There was an error loading your payments.",
+        })
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchPayments()
+  }, [toast])
+
+  const getLoanBalance = (loan: ActiveLoan) => Math.max(loan.totalAmountPayable - loan.amountPaid, 0)
+  const getInstallmentBalance = (payment: Payment) => Math.max(payment.amount - (payment.amountPaid || 0), 0)
+
+  const loanPayments = selectedLoanId === "all" ? payments : payments.filter((p) => p.loan === selectedLoanId)
+
+  const filteredPayments = loanPayments.filter(
     (payment) =>
-      payment.loanId.includes(searchTerm) ||
-      payment.status.includes(searchTerm) ||
+      payment.status.includes(searchTerm.toLowerCase()) ||
+      (payment.transactionId && payment.transactionId.toLowerCase().includes(searchTerm.toLowerCase())) ||
       (payment.paymentMethod && payment.paymentMethod.toLowerCase().includes(searchTerm.toLowerCase())),
   )
 
   const handleMakePayment = (payment: Payment) => {
+    const loan = loans.find((l) => l._id === payment.loan)
+    const installmentBalance = getInstallmentBalance(payment)
+    const balance = loan ? Math.min(installmentBalance, getLoanBalance(loan)) : installmentBalance
+
     setSelectedPayment(payment)
-    setPaymentAmount(payment.amount.toString())
+    setPaymentForm((current) => ({ ...current, amount: balance.toString(), balance }))
     setIsPaymentDialogOpen(true)
   }
 
-  const handleSubmitPayment = () => {
-    if (!selectedPayment || !paymentAmount || Number(paymentAmount) <= 0) {
-      toast({
-        variant: "destructive",
-        title: "Error",
-        description: "Please enter a valid payment amount",
+  const updatePaymentForm = (field: "amount" | "paymentMethod", value: string) => {
+    setPaymentForm((current) => ({ ...current, [field]: value }))
+    clearError(field)
+  }
+
+  const handlePaymentDialogOpenChange = (open: boolean) => {
+    setIsPaymentDialogOpen(open)
+    if (!open) resetErrors()
+  }
+
+  const handleSubmitPayment = async () => {
+    if (!selectedPayment || !validateAll(paymentForm)) return
+
+    const amount = Number(paymentForm.amount)
+    const { paymentMethod } = paymentForm
+    setIsSubmitting(true)
+
+    try {
+      const response = await api.post("/api/payments", {
+        repayment: selectedPayment._id,
+        amount,
+        paymentMethod,
       })
-      return
-    }
 
-    const amount = Number(paymentAmount)
-    const status: Payment["status"] = amount >= selectedPayment.amount ? "paid" : "partial"
-
-    setPayments(
-      payments.map((p) =>
-        p.id === selectedPayment.id
-          ? {
-              ...p,
-              status,
-              paidDate: new Date().toISOString().split("T")[0],
-              paymentMethod,
-              transactionId: `TRX${Math.floor(Math.random() * 1000000)}`,
-            }
-          : p,
-      ),
-    )
+      const updatedPayment: Payment = response.data.payment
+      setPayments(payments.map((p) => (p._id === updatedPayment._id ? updatedPayment : p)))
 
-    setIsPaymentDialogOpen(false)
-    setSelectedPayment(null)
-    setPaymentAmount("")
+      // Partial payments reduce the loan balance by the amount actually received
+      if (response.data.loan) {
+        setLoans(loans.map((l) => (l._id === response.data.loan._id ? response.data.loan : l)))
+      } else {
+        setLoans(loans.map((l) => (l._id === selectedPayment.loan ? { ...l, amountPaid: l.amountPaid + amount } : l)))
+      }
 
-    toast({
-      title: "Payment Successful",
-      description: `Your payment of ${amount.toLocaleString()} has been processed`,
-    })
-  }
+      setReceipt(response.data.receipt)
+      handlePaymentDialogOpenChange(false)
+      setSelectedPayment(null)
+      setPaymentForm((current) => ({ ...current, amount: "" }))
 
-  const getStatusBadgeClass = (status: Payment["status"]) => {
-    switch (status) {
-      case "pending":
-        return "bg-yellow-100 text-yellow-800"
-      case "paid":
-        return "bg-green-100 text-green-800"
-      case "overdue":
-        return "bg-red-100 text-red-800"
-      case "partial":
-        return "bg-blue-100 text-blue-800"
-      default:
-        return "bg-gray-100 text-gray-800"
+      toast({
+        title: "Payment Successful",
+        description: `Your payment of ${amount.toLocaleString()} has been processed`,
+      })
+    } catch (error: any) {
+      console.error("Error submitting payment:", error)
+      const message = applyServerError(error, "There was an error processing your payment.")
+      if (message) {
+        toast({
+          variant: "destructive",
+          title: "Payment Failed",
+          description: message,
+        })
+      }
+    } finally {
+      setIsSubmitting(false)
     }
   }
 
   // Calculate statistics
-  const totalDue = payments
-    .filter((p) => p.status === "pending" || p.status === "overdue")
-    .reduce((sum, p) => sum + p.amount, 0)
-  const totalPaid = payments.filter((p) => p.status === "paid").reduce((sum, p) => sum + p.amount, 0)
-  const overdueCount = payments.filter((p) => p.status === "overdue").length
+  const totalDue = loanPayments
+    .filter((p) => p.status !== "paid")
+    .reduce((sum, p) => sum + getInstallmentBalance(p), 0)
+  const totalPaid = loanPayments.reduce((sum, p) => sum + (p.amountPaid || 0), 0)
+  const overdueCount = loanPayments.filter((p) => p.status === "overdue").length
 
   return (
     <ProtectedRoute allowedRoles={["user"]}>
@@ -194,7 +233,7 @@ export default function UserPayments() {
               </CardHeader>
               <CardContent>
                 <div className="text-2xl font-bold">{totalDue.toLocaleString()}</div>
-                <p className="text-xs text-muted-foreground">Pending and overdue payments</p>
+                <p className="text-xs text-muted-foreground">Outstanding on unpaid installments</p>
               </CardContent>
             </Card>
             <Card>
@@ -203,7 +242,7 @@ export default function UserPayments() {
               </CardHeader>
               <CardContent>
                 <div className="text-2xl font-bold">{totalPaid.toLocaleString()}</div>
-                <p className="text-xs text-muted-foreground">All completed payments</p>
+                <p className="text-xs text-muted-foreground">Including partial payments</p>
               </CardContent>
             </Card>
             <Card>
@@ -222,6 +261,19 @@ export default function UserPayments() {
               <h2 className="text-xl font-semibold">Payment Schedule</h2>
 
               <div className="flex space-x-2">
+                <Select value={selectedLoanId} onValueChange={setSelectedLoanId}>
+                  <SelectTrigger className="w-48">
+                    <SelectValue placeholder="Select loan" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Loans</SelectItem>
+                    {loans.map((loan) => (
+                      <SelectItem key={loan._id} value={loan._id}>
+                        Loan #{loan._id.substring(0, 8)} - {loan.amount.toLocaleString()}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
                 <Input
                   placeholder="Search payments..."
                   value={searchTerm}
@@ -231,84 +283,99 @@ export default function UserPayments() {
               </div>
             </div>
 
-            <Tabs defaultValue="all">
-              <TabsList className="mb-4">
-                <TabsTrigger value="all">All Payments</TabsTrigger>
-                <TabsTrigger value="pending">Pending</TabsTrigger>
-                <TabsTrigger value="paid">Paid</TabsTrigger>
-                <TabsTrigger value="overdue">Overdue</TabsTrigger>
-              </TabsList>
-
-              <TabsContent value="all">
-                <PaymentTable
-                  payments={filteredPayments}
-                  onMakePayment={handleMakePayment}
-                  getStatusBadgeClass={getStatusBadgeClass}
-                />
-              </TabsContent>
-
-              <TabsContent value="pending">
-                <PaymentTable
-                  payments={filteredPayments.filter((p) => p.status === "pending")}
-                  onMakePayment={handleMakePayment}
-                  getStatusBadgeClass={getStatusBadgeClass}
-                />
-              </TabsContent>
-
-              <TabsContent value="paid">
-                <PaymentTable
-                  payments={filteredPayments.filter((p) => p.status === "paid" || p.status === "partial")}
-                  onMakePayment={handleMakePayment}
-                  getStatusBadgeClass={getStatusBadgeClass}
-                />
-              </TabsContent>
-
-              <TabsContent value="overdue">
-                <PaymentTable
-                  payments={filteredPayments.filter((p) => p.status === "overdue")}
-                  onMakePayment={handleMakePayment}
-                  getStatusBadgeClass={getStatusBadgeClass}
-                />
-              </TabsContent>
-            </Tabs>
+            {isLoading ? (
+              <div className="flex justify-center items-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900"></div>
+              </div>
+            ) : error ? (
+              <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded relative" role="alert">
+                <strong className="font-bold">Error: </strong>
+                <span className="block sm:inline">{error}</span>
+              </div>
+            ) : (
+              <Tabs defaultValue="all">
+                <TabsList className="mb-4">
+                  <TabsTrigger value="all">All Payments</TabsTrigger>
+                  <TabsTrigger value="pending">Pending</TabsTrigger>
+                  <TabsTrigger value="paid">Paid</TabsTrigger>
+                  <TabsTrigger value="overdue">Overdue</TabsTrigger>
+                </TabsList>
+
+                <TabsContent value="all">
+                  <PaymentTable payments={filteredPayments} onMakePayment={handleMakePayment} />
+                </TabsContent>
+
+                <TabsContent value="pending">
+                  <PaymentTable
+                    payments={filteredPayments.filter((p) => p.status === "pending")}
+                    onMakePayment={handleMakePayment}
+                  />
+                </TabsContent>
+
+                <TabsContent value="paid">
+                  <PaymentTable
+                    payments={filteredPayments.filter((p) => p.status === "paid" || p.status === "partial")}
+                    onMakePayment={handleMakePayment}
+                  />
+                </TabsContent>
+
+                <TabsContent value="overdue">
+                  <PaymentTable
+                    payments={filteredPayments.filter((p) => p.status === "overdue")}
+                    onMakePayment={handleMakePayment}
+                  />
+                </TabsContent>
+              </Tabs>
+            )}
           </div>
 
           <div className="bg-white p-6 rounded shadow">
             <h2 className="text-xl font-semibold mb-4">Active Loans</h2>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              {MOCK_LOANS.map((loan) => (
-                <Card key={loan.id}>
-                  <CardContent className="p-6">
-                    <div className="flex justify-between items-center">
-                      <div>
-                        <p className="text-sm text-muted-foreground">Loan #{loan.id}</p>
-                        <p className="text-xl font-bold">{loan.amount.toLocaleString()}</p>
-                        <p className="text-sm text-muted-foreground">Term: {loan.term} months</p>
-                      </div>
-                      <div className="text-right">
-                        <p className="text-sm text-muted-foreground">Remaining</p>
-                        <p className="text-xl font-bold">{loan.remainingAmount.toLocaleString()}</p>
-                        <p className="text-sm text-muted-foreground">
-                          {((loan.remainingAmount / loan.amount) * 100).toFixed(1)}% of total
-                        </p>
-                      </div>
-                    </div>
-                    <div className="mt-4">
-                      <div className="w-full bg-gray-200 rounded-full h-2.5">
-                        <div
-                          className="bg-green-600 h-2.5 rounded-full"
-                          style={{ width: `${100 - (loan.remainingAmount / loan.amount) * 100}%` }}
-                        ></div>
-                      </div>
-                    </div>
-                  </CardContent>
-                </Card>
-              ))}
-            </div>
+            {loans.length === 0 ? (
+              <p className="text-sm text-muted-foreground">You have no active loans</p>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {loans.map((loan) => {
+                  const remaining = getLoanBalance(loan)
+                  const paidPercentage =
+                    loan.totalAmountPayable > 0 ? Math.min((loan.amountPaid / loan.totalAmountPayable) * 100, 100) : 0
+
+                  return (
+                    <Card
+                      key={loan._id}
+                      className={`cursor-pointer ${selectedLoanId === loan._id ? "border-green-600" : ""}`}
+                      onClick={() => setSelectedLoanId(loan._id)}
+                    >
+                      <CardContent className="p-6">
+                        <div className="flex justify-between items-center">
+                          <div>
+                            <p className="text-sm text-muted-foreground">Loan #{loan._id.substring(0, 8)}</p>
+                            <p className="text-xl font-bold">{loan.amount.toLocaleString()}</p>
+                            <p className="text-sm text-muted-foreground">Term: {loan.tenure} months</p>
+                          </div>
+                          <div className="text-right">
+                            <p className="text-sm text-muted-foreground">Remaining</p>
+                            <p className="text-xl font-bold">{remaining.toLocaleString()}</p>
+                            <p className="text-sm text-muted-foreground">
+                              of {loan.totalAmountPayable.toLocaleString()} payable
+                            </p>
+                          </div>
+                        </div>
+                        <div className="mt-4">
+                          <div className="w-full bg-gray-200 rounded-full h-2.5">
+                            <div className="bg-green-600 h-2.5 rounded-full" style={{ width: `${paidPercentage}%` }}></div>
+                          </div>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  )
+                })}
+              </div>
+            )}
           </div>
         </div>
 
-        <Dialog open={isPaymentDialogOpen} onOpenChange={setIsPaymentDialogOpen}>
+        <Dialog open={isPaymentDialogOpen} onOpenChange={handlePaymentDialogOpenChange}>
           <DialogContent>
             <DialogHeader>
               <DialogTitle>Make Payment</DialogTitle>
@@ -316,20 +383,33 @@ export default function UserPayments() {
             </DialogHeader>
 
             <div className="grid gap-4 py-4">
+              {selectedPayment && (
+                <p className="text-sm text-muted-foreground">
+                  Installment due {new Date(selectedPayment.dueDate).toLocaleDateString()} &middot; Outstanding{" "}
+                  {paymentForm.balance.toLocaleString()}. Paying less records a partial payment.
+                </p>
+              )}
+
               <div className="grid gap-2">
                 <Label htmlFor="amount">Payment Amount</Label>
                 <Input
                   id="amount"
                   type="number"
-                  value={paymentAmount}
-                  onChange={(e) => setPaymentAmount(e.target.value)}
+                  value={paymentForm.amount}
+                  onChange={(e) => updatePaymentForm("amount", e.target.value)}
+                  onBlur={() => validateOne("amount", paymentForm)}
+                  {...fieldProps("amount")}
                 />
+                <FieldError id="amount-error" message={errors.amount} />
               </div>
 
               <div className="grid gap-2">
                 <Label htmlFor="method">Payment Method</Label>
-                <Select value={paymentMethod} onValueChange={setPaymentMethod}>
-                  <SelectTrigger id="method">
+                <Select
+                  value={paymentForm.paymentMethod}
+                  onValueChange={(value) => updatePaymentForm("paymentMethod", value)}
+                >
+                  <SelectTrigger id="method" {...fieldProps("paymentMethod", "method")}>
                     <SelectValue placeholder="Select payment method" />
                   </SelectTrigger>
                   <SelectContent>
@@ -339,15 +419,68 @@ export default function UserPayments() {
                     <SelectItem value="Cash Deposit">Cash Deposit</SelectItem>
                   </SelectContent>
                 </Select>
+                <FieldError id="method-error" message={errors.paymentMethod} />
               </div>
             </div>
 
             <DialogFooter>
-              <Button variant="outline" onClick={() => setIsPaymentDialogOpen(false)}>
+              <Button variant="outline" onClick={() => handlePaymentDialogOpenChange(false)}>
                 Cancel
               </Button>
-              <Button className="bg-green-600 hover:bg-green-700" onClick={handleSubmitPayment}>
-                Process Payment
+              <Button className="bg-green-600 hover:bg-green-700" onClick={handleSubmitPayment} disabled={isSubmitting}>
+                {isSubmitting ? "Processing..." : "Process Payment"}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={!!receipt} onOpenChange={(open) => !open && setReceipt(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Payment Receipt</DialogTitle>
+              <DialogDescription>Keep this receipt for your records</DialogDescription>
+            </DialogHeader>
+
+            {receipt && (
+              <div className="grid gap-2 py-4 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Receipt Number</span>
+                  <span className="font-medium">{receipt.receiptNumber}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Transaction Reference</span>
+                  <span className="font-medium">{receipt.transactionId}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Date</span>
+                  <span>{new Date(receipt.paidAt).toLocaleString()}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Payment Method</span>
+                  <span>{receipt.paymentMethod}</span>
+                </div>
+                <div className="flex justify-between border-t pt-2">
+                  <span className="text-muted-foreground">Amount Paid</span>
+                  <span className="font-bold">{receipt.amount.toLocaleString()}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Installment Balance</span>
+                  <span>{receipt.installmentBalance.toLocaleString()}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Loan Balance</span>
+                  <span>{receipt.loanBalance.toLocaleString()}</span>
+                </div>
+              </div>
+            )}
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => window.print()}>
+                <Printer className="mr-2 h-4 w-4" />
+                Print
+              </Button>
+              <Button className="bg-green-600 hover:bg-green-700" onClick={() => setReceipt(null)}>
+                Done
               </Button>
             </DialogFooter>
           </DialogContent>
@@ -360,105 +493,84 @@ export default function UserPayments() {
 interface PaymentTableProps {
   payments: Payment[]
   onMakePayment: (payment: Payment) => void
-  getStatusBadgeClass: (status: Payment["status"]) => string
 }
 
-function PaymentTable({ payments, onMakePayment, getStatusBadgeClass }: PaymentTableProps) {
-  const [currentPage, setCurrentPage] = useState(1)
-  const [itemsPerPage] = useState(5)
-
-  const indexOfLastItem = currentPage * itemsPerPage
-  const indexOfFirstItem = indexOfLastItem - itemsPerPage
-  const currentPayments = payments.slice(indexOfFirstItem, indexOfLastItem)
-  const totalPages = Math.ceil(payments.length / itemsPerPage)
+function PaymentTable({ payments, onMakePayment }: PaymentTableProps) {
+  const columns: DataTableColumn<Payment>[] = [
+    { id: "loan", header: "Loan ID", cell: (payment) => `${payment.loan.substring(0, 8)}...` },
+    {
+      id: "amount",
+      header: "Amount",
+      sortValue: (payment) => payment.amount,
+      cell: (payment) => payment.amount.toLocaleString(),
+    },
+    {
+      id: "amountPaid",
+      header: "Paid",
+      sortValue: (payment) => payment.amountPaid || 0,
+      cell: (payment) => (payment.amountPaid || 0).toLocaleString(),
+    },
+    {
+      id: "dueDate",
+      header: "Due Date",
+      sortValue: (payment) => new Date(payment.dueDate).getTime(),
+      cell: (payment) => new Date(payment.dueDate).toLocaleDateString(),
+    },
+    {
+      id: "paidDate",
+      header: "Paid Date",
+      sortValue: (payment) => (payment.paidDate ? new Date(payment.paidDate).getTime() : 0),
+      cell: (payment) => (payment.paidDate ? new Date(payment.paidDate).toLocaleDateString() : "-"),
+    },
+    {
+      id: "status",
+      header: "Status",
+      sortValue: (payment) => payment.status,
+      cell: (payment) => (
+        <Badge variant="outline" className={getRepaymentStatusBadgeClass(payment.status)}>
+          {payment.status.toUpperCase()}
+        </Badge>
+      ),
+    },
+    { id: "transactionId", header: "Transaction", cell: (payment) => payment.transactionId || "-" },
+    {
+      id: "actions",
+      header: "Actions",
+      hideable: false,
+      cell: (payment) => (
+        <>
+          {(payment.status === "pending" || payment.status === "overdue") && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="bg-green-100 text-green-800 hover:bg-green-200"
+              onClick={() => onMakePayment(payment)}
+            >
+              Pay Now
+            </Button>
+          )}
+          {payment.status === "partial" && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="bg-blue-100 text-blue-800 hover:bg-blue-200"
+              onClick={() => onMakePayment(payment)}
+            >
+              Complete
+            </Button>
+          )}
+        </>
+      ),
+    },
+  ]
 
   return (
-    <div>
-      <Table>
-        <TableHeader>
-          <TableRow>
-            <TableHead>ID</TableHead>
-            <TableHead>Loan ID</TableHead>
-            <TableHead>Amount</TableHead>
-            <TableHead>Due Date</TableHead>
-            <TableHead>Paid Date</TableHead>
-            <TableHead>Status</TableHead>
-            <TableHead>Payment Method</TableHead>
-            <TableHead>Actions</TableHead>
-          </TableRow>
-        </TableHeader>
-        <TableBody>
-          {currentPayments.length === 0 ? (
-            <TableRow>
-              <TableCell colSpan={8} className="text-center py-4">
-                No payments found
-              </TableCell>
-            </TableRow>
-          ) : (
-            currentPayments.map((payment) => (
-              <TableRow key={payment.id}>
-                <TableCell>{payment.id}</TableCell>
-                <TableCell>{payment.loanId}</TableCell>
-                <TableCell>{payment.amount.toLocaleString()}</TableCell>
-                <TableCell>{payment.dueDate}</TableCell>
-                <TableCell>{payment.paidDate || "-"}</TableCell>
-                <TableCell>
-                  <Badge variant="outline" className={getStatusBadgeClass(payment.status)}>
-                    {payment.status.toUpperCase()}
-                  </Badge>
-                </TableCell>
-                <TableCell>{payment.paymentMethod || "-"}</TableCell>
-                <TableCell>
-                  {(payment.status === "pending" || payment.status === "overdue") && (
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      className="bg-green-100 text-green-800 hover:bg-green-200"
-                      onClick={() => onMakePayment(payment)}
-                    >
-                      Pay Now
-                    </Button>
-                  )}
-                  {payment.status === "partial" && (
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      className="bg-blue-100 text-blue-800 hover:bg-blue-200"
-                      onClick={() => onMakePayment(payment)}
-                    >
-                      Complete
-                    </Button>
-                  )}
-                </TableCell>
-              </TableRow>
-            ))
-          )}
-        </TableBody>
-      </Table>
-
-      <div className="flex justify-between items-center mt-4">
-        <div>Items per page: {itemsPerPage}</div>
-        <div className="flex items-center">
-          <span>
-            {indexOfFirstItem + 1}-{Math.min(indexOfLastItem, payments.length)} of {payments.length}
-          </span>
-          <button
-            className="ml-2 p-1 rounded border disabled:opacity-50"
-            disabled={currentPage === 1}
-            onClick={() => setCurrentPage(currentPage - 1)}
-          >
-            <span className="material-icons">chevron_left</span>
-          </button>
-          <button
-            className="p-1 rounded border disabled:opacity-50"
-            disabled={currentPage === totalPages}
-            onClick={() => setCurrentPage(currentPage + 1)}
-          >
-            <span className="material-icons">chevron_right</span>
-          </button>
-        </div>
-      </div>
-    </div>
+    <DataTable
+      data={payments}
+      columns={columns}
+      getRowId={(payment) => payment._id}
+      emptyMessage="No payments found"
+      visibilityKey="payments"
+    />
   )
 }
-
@@ -9,37 +9,36 @@ import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
 import { Alert, AlertDescription } from "@/components/ui/alert"
+import FieldError from "@/components/field-error"
+import { useFormValidation } from "@/hooks/use-form-validation"
+import { registrationSchema, type RegistrationForm } from "@/lib/account-schemas"
+import { PASSWORD_MIN_LENGTH } from "@/lib/validation"
 
 export default function RegisterPage() {
-  const [name, setName] = useState("")
-  const [email, setEmail] = useState("")
-  const [password, setPassword] = useState("")
-  const [confirmPassword, setConfirmPassword] = useState("")
+  const [form, setForm] = useState<RegistrationForm>({ name: "", email: "", password: "", confirmPassword: "" })
   const [error, setError] = useState("")
+  const { errors, validateAll, validateOne, clearError, applyServerError, fieldProps } =
+    useFormValidation(registrationSchema)
   const [isLoading, setIsLoading] = useState(false)
   const { register } = useAuth()
   const router = useRouter()
 
+  const updateField = (field: keyof RegistrationForm, value: string) => {
+    setForm((current) => ({ ...current, [field]: value }))
+    clearError(field)
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
-
-    if (!name || !email || !password) {
-      setError("Please fill in all fields")
-      return
-    }
-
-    if (password !== confirmPassword) {
-      setError("Passwords do not match")
-      return
-    }
+    setError("")
+    if (!validateAll(form)) return
 
     try {
-      setError("")
       setIsLoading(true)
-      await register(name, email, password)
+      await register(form.name, form.email, form.password)
       router.push("/login")
     } catch (err: any) {
-      setError(err.message || "Failed to register")
+      setError(applyServerError(err, "Failed to register") ?? "")
     } finally {
       setIsLoading(false)
     }
@@ -60,17 +59,19 @@ export default function RegisterPage() {
             </Alert>
           )}
 
-          <form onSubmit={handleSubmit} className="space-y-4">
+          <form onSubmit={handleSubmit} className="space-y-4" noValidate>
             <div className="space-y-2">
               <Label htmlFor="name">Full Name</Label>
               <Input
                 id="name"
                 type="text"
                 placeholder="John Doe"
-                value={name}
-                onChange={(e) => setName(e.target.value)}
-                required
+                value={form.name}
+                onChange={(e) => updateField("name", e.target.value)}
+                onBlur={() => validateOne("name", form)}
+                {...fieldProps("name")}
               />
+              <FieldError id="name-error" message={errors.name} />
             </div>
 
             <div className="space-y-2">
@@ -79,10 +80,12 @@ export default function RegisterPage() {
                 id="email"
                 type="email"
                 placeholder="name@example.com"
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                required
+                value={form.email}
+                onChange={(e) => updateField("email", e.target.value)}
+                onBlur={() => validateOne("email", form)}
+                {...fieldProps("email")}
               />
+              <FieldError id="email-error" message={errors.email} />
             </div>
 
             <div className="space-y-2">
@@ -90,10 +93,18 @@ export default function RegisterPage() {
               <Input
                 id="password"
                 type="password"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                required
+                value={form.password}
+                onChange={(e) => updateField("password", e.target.value)}
+                onBlur={() => validateOne("password", form)}
+                {...fieldProps("password")}
               />
+              {errors.password ? (
+                <FieldError id="password-error" message={errors.password} />
+              ) : (
+                <p className="text-xs text-muted-foreground">
+                  At least {PASSWORD_MIN_LENGTH} characters, with upper and lower case letters and a number
+                </p>
+              )}
             </div>
 
             <div className="space-y-2">
@@ -101,10 +112,12 @@ export default function RegisterPage() {
               <Input
                 id="confirmPassword"
                 type="password"
-                value={confirmPassword}
-                onChange={(e) => setConfirmPassword(e.target.value)}
-                required
+                value={form.confirmPassword}
+                onChange={(e) => updateField("confirmPassword", e.target.value)}
+                onBlur={() => validateOne("confirmPassword", form)}
+                {...fieldProps("confirmPassword")}
               />
+              <FieldError id="confirmPassword-error" message={errors.confirmPassword} />
             </div>
 
             <Button type="submit" className="w-full bg-green-600 hover:bg-green-700" disabled={isLoading}>
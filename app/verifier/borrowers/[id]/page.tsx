@@ -0,0 +1,30 @@
+"use client"
+
+import Link from "next/link"
+import { useParams } from "next/navigation"
+import ProtectedRoute from "@/components/protected-route"
+import MainLayout from "@/components/main-layout"
+import { Button } from "@/components/ui/button"
+import { ArrowLeft } from "lucide-react"
+import BorrowerProfileView from "@/components/borrowers/borrower-profile-view"
+
+export default function VerifierBorrowerProfile() {
+  const params = useParams<{ id: string }>()
+
+  return (
+    <ProtectedRoute allowedRoles={["verifier"]}>
+      <MainLayout title="Borrower Profile">
+        <div className="space-y-6">
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/verifier/borrowers">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Borrowers
+            </Link>
+          </Button>
+
+          <BorrowerProfileView borrowerId={params.id} role="verifier" />
+        </div>
+      </MainLayout>
+    </ProtectedRoute>
+  )
+}
@@ -5,12 +5,15 @@ import ProtectedRoute from "@/components/protected-route"
 import MainLayout from "@/components/main-layout"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Badge } from "@/components/ui/badge"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
-import { Eye, FileText } from "lucide-react"
+import { Eye } from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
+import DataTable, { type DataTableColumn } from "@/components/data-table"
+import KycDocumentsDialog from "@/components/documents/kyc-documents-dialog"
+import { getKycDocumentLabel, getKycStatusBadgeClass, type KycDocument } from "@/lib/kyc"
+import { getVerificationStatusBadgeClass, type BorrowerVerificationStatus } from "@/lib/borrower-profile"
 import api from "@/utils/api"
 
 interface Borrower {
@@ -18,9 +21,9 @@ interface Borrower {
   name: string
   email: string
   phone: string
-  status: "pending" | "verified" | "rejected"
+  status: BorrowerVerificationStatus
   dateApplied: string
-  documents: string[]
+  documents: KycDocument[]
 }
 
 export default function VerifierBorrowers() {
@@ -101,17 +104,14 @@ export default function VerifierBorrowers() {
     }
   }
 
-  const getStatusBadgeClass = (status: Borrower["status"]) => {
-    switch (status) {
-      case "pending":
-        return "bg-yellow-100 text-yellow-800"
-      case "verified":
-        return "bg-green-100 text-green-800"
-      case "rejected":
-        return "bg-red-100 text-red-800"
-      default:
-        return "bg-gray-100 text-gray-800"
-    }
+  const handleDocumentChange = (borrowerId: string, document: KycDocument) => {
+    setBorrowers((current) =>
+      current.map((borrower) =>
+        borrower._id === borrowerId
+          ? { ...borrower, documents: borrower.documents.map((item) => (item._id === document._id ? document : item)) }
+          : borrower,
+      ),
+    )
   }
 
   // Calculate statistics
@@ -195,7 +195,7 @@ export default function VerifierBorrowers() {
                   <BorrowerTable
                     borrowers={filteredBorrowers}
                     onUpdateStatus={handleUpdateStatus}
-                    getStatusBadgeClass={getStatusBadgeClass}
+                    onDocumentChange={handleDocumentChange}
                   />
                 </TabsContent>
 
@@ -203,7 +203,7 @@ export default function VerifierBorrowers() {
                   <BorrowerTable
                     borrowers={filteredBorrowers.filter((b) => b.status === "pending")}
                     onUpdateStatus={handleUpdateStatus}
-                    getStatusBadgeClass={getStatusBadgeClass}
+                    onDocumentChange={handleDocumentChange}
                   />
                 </TabsContent>
 
@@ -211,7 +211,7 @@ export default function VerifierBorrowers() {
                   <BorrowerTable
                     borrowers={filteredBorrowers.filter((b) => b.status === "verified")}
                     onUpdateStatus={handleUpdateStatus}
-                    getStatusBadgeClass={getStatusBadgeClass}
+                    onDocumentChange={handleDocumentChange}
                   />
                 </TabsContent>
 
@@ -219,7 +219,7 @@ export default function VerifierBorrowers() {
                   <BorrowerTable
                     borrowers={filteredBorrowers.filter((b) => b.status === "rejected")}
                     onUpdateStatus={handleUpdateStatus}
-                    getStatusBadgeClass={getStatusBadgeClass}
+                    onDocumentChange={handleDocumentChange}
                   />
                 </TabsContent>
               </Tabs>
@@ -234,123 +234,104 @@ export default function VerifierBorrowers() {
 interface BorrowerTableProps {
   borrowers: Borrower[]
   onUpdateStatus: (borrowerId: string, newStatus: Borrower["status"]) => void
-  getStatusBadgeClass: (status: Borrower["status"]) => string
+  onDocumentChange: (borrowerId: string, document: KycDocument) => void
 }
 
-function BorrowerTable({ borrowers, onUpdateStatus, getStatusBadgeClass }: BorrowerTableProps) {
-  const [currentPage, setCurrentPage] = useState(1)
-  const [itemsPerPage] = useState(5)
-
-  const indexOfLastItem = currentPage * itemsPerPage
-  const indexOfFirstItem = indexOfLastItem - itemsPerPage
-  const currentBorrowers = borrowers.slice(indexOfFirstItem, indexOfLastItem)
-  const totalPages = Math.ceil(borrowers.length / itemsPerPage)
-
-  return (
-    <div>
-      <Table>
-        <TableHeader>
-          <TableRow>
-            <TableHead>Name</TableHead>
-            <TableHead>Email</TableHead>
-            <TableHead>Phone</TableHead>
-            <TableHead>Status</TableHead>
-            <TableHead>Date Applied</TableHead>
-            <TableHead>Documents</TableHead>
-            <TableHead>Actions</TableHead>
-          </TableRow>
-        </TableHeader>
-        <TableBody>
-          {currentBorrowers.length === 0 ? (
-            <TableRow>
-              <TableCell colSpan={7} className="text-center py-4">
-                No borrowers found
-              </TableCell>
-            </TableRow>
-          ) : (
-            currentBorrowers.map((borrower) => (
-              <TableRow key={borrower._id}>
-                <TableCell className="font-medium">{borrower.name}</TableCell>
-                <TableCell>{borrower.email}</TableCell>
-                <TableCell>{borrower.phone}</TableCell>
-                <TableCell>
-                  <Badge variant="outline" className={getStatusBadgeClass(borrower.status)}>
-                    {borrower.status.toUpperCase()}
-                  </Badge>
-                </TableCell>
-                <TableCell>{new Date(borrower.dateApplied).toLocaleDateString()}</TableCell>
-                <TableCell>
-                  <div className="flex flex-wrap gap-1">
-                    {borrower.documents && borrower.documents.map((doc, index) => (
-                      <Badge key={index} variant="outline" className="bg-gray-100">
-                        {doc}
-                      </Badge>
-                    ))}
-                  </div>
-                </TableCell>
-                <TableCell>
-                  <div className="flex space-x-2">
-                    <Button variant="outline" size="sm" asChild>
-                      <a href={`/verifier/borrowers/${borrower._id}`}>
-                        <Eye className="h-4 w-4" />
-                      </a>
-                    </Button>
-                    <Button variant="outline" size="sm">
-                      <FileText className="h-4 w-4" />
-                    </Button>
+function BorrowerTable({ borrowers, onUpdateStatus, onDocumentChange }: BorrowerTableProps) {
+  const columns: DataTableColumn<Borrower>[] = [
+    {
+      id: "name",
+      header: "Name",
+      className: "font-medium",
+      sortValue: (borrower) => borrower.name.toLowerCase(),
+      cell: (borrower) => borrower.name,
+    },
+    {
+      id: "email",
+      header: "Email",
+      sortValue: (borrower) => borrower.email.toLowerCase(),
+      cell: (borrower) => borrower.email,
+    },
+    { id: "phone", header: "Phone", cell: (borrower) => borrower.phone },
+    {
+      id: "status",
+      header: "Status",
+      sortValue: (borrower) => borrower.status,
+      cell: (borrower) => (
+        <Badge variant="outline" className={getVerificationStatusBadgeClass(borrower.status)}>
+          {borrower.status.toUpperCase()}
+        </Badge>
+      ),
+    },
+    {
+      id: "dateApplied",
+      header: "Date Applied",
+      sortValue: (borrower) => new Date(borrower.dateApplied).getTime(),
+      cell: (borrower) => new Date(borrower.dateApplied).toLocaleDateString(),
+    },
+    {
+      id: "documents",
+      header: "Documents",
+      cell: (borrower) => (
+        <div className="flex flex-wrap gap-1">
+          {borrower.documents && borrower.documents.map((document) => (
+            <Badge key={document._id} variant="outline" className={getKycStatusBadgeClass(document.status)}>
+              {getKycDocumentLabel(document.type)}
+            </Badge>
+          ))}
+        </div>
+      ),
+    },
+    {
+      id: "actions",
+      header: "Actions",
+      hideable: false,
+      cell: (borrower) => (
+        <div className="flex space-x-2">
+          <Button variant="outline" size="sm" asChild>
+            <a href={`/verifier/borrowers/${borrower._id}`}>
+              <Eye className="h-4 w-4" />
+            </a>
+          </Button>
+          <KycDocumentsDialog
+            title={`Documents for ${borrower.name}`}
+            documents={borrower.documents || []}
+            reviewable
+            onDocumentChange={(document) => onDocumentChange(borrower._id, document)}
+          />
 
-                    {borrower.status === "pending" && (
-                      <>
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          className="bg-green-100 text-green-800 hover:bg-green-200"
-                          onClick={() => onUpdateStatus(borrower._id, "verified")}
-                        >
-                          Verify
-                        </Button>
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          className="bg-red-100 text-red-800 hover:bg-red-200"
-                          onClick={() => onUpdateStatus(borrower._id, "rejected")}
-                        >
-                          Reject
-                        </Button>
-                      </>
-                    )}
-                  </div>
-                </TableCell>
-              </TableRow>
-            ))
+          {borrower.status === "pending" && (
+            <>
+              <Button
+                variant="outline"
+                size="sm"
+                className="bg-green-100 text-green-800 hover:bg-green-200"
+                onClick={() => onUpdateStatus(borrower._id, "verified")}
+              >
+                Verify
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="bg-red-100 text-red-800 hover:bg-red-200"
+                onClick={() => onUpdateStatus(borrower._id, "rejected")}
+              >
+                Reject
+              </Button>
+            </>
           )}
-        </TableBody>
-      </Table>
-
-      {borrowers.length > itemsPerPage && (
-        <div className="flex justify-between items-center mt-4">
-          <div>Items per page: {itemsPerPage}</div>
-          <div className="flex items-center">
-            <span>
-              {indexOfFirstItem + 1}-{Math.min(indexOfLastItem, borrowers.length)} of {borrowers.length}
-            </span>
-            <button
-              className="ml-2 p-1 rounded border disabled:opacity-50"
-              disabled={currentPage === 1}
-              onClick={() => setCurrentPage(currentPage - 1)}
-            >
-              <span className="material-icons">chevron_left</span>
-            </button>
-            <button
-              className="p-1 rounded border disabled:opacity-50"
-              disabled={currentPage === totalPages}
-              onClick={() => setCurrentPage(currentPage + 1)}
-            >
-              <span className="material-icons">chevron_right</span>
-            </button>
-          </div>
         </div>
-      )}
-    </div>
+      ),
+    },
+  ]
+
+  return (
+    <DataTable
+      data={borrowers}
+      columns={columns}
+      getRowId={(borrower) => borrower._id}
+      emptyMessage="No borrowers found"
+      visibilityKey="verifier-borrowers"
+    />
   )
-}
\ No newline at end of file
+}
@@ -6,6 +6,7 @@ import ProtectedRoute from "@/components/protected-route"
 import MainLayout from "@/components/main-layout"
 import StatsCard from "@/components/dashboard/stats-card"
 import LoanTable, { type Loan } from "@/components/dashboard/loan-table"
+import type { LoanDecision } from "@/lib/loan-status"
 import ChartCard from "@/components/dashboard/chart-card"
 import api from "@/utils/api"
 import { useToast } from "@/hooks/use-toast"
@@ -130,9 +131,9 @@ export default function VerifierDashboard() {
     fetchDashboardData()
   }, [toast])
 
-  const handleStatusChange = async (loanId: string, newStatus: Loan["status"]) => {
+  const handleStatusChange = async (loanId: string, newStatus: Loan["status"], decision?: LoanDecision) => {
     try {
-      await api.patch(`/api/verifier/loans/${loanId}/verify`, { status: newStatus })
+      await api.patch(`/api/verifier/loans/${loanId}/verify`, { status: newStatus, ...decision })
       
       // Update the state
       setLoans(loans.map((loan) => (loan.id === loanId ? { ...loan, status: newStatus } : loan)))
@@ -219,7 +220,12 @@ export default function VerifierDashboard() {
             />
           </div>
 
-          <LoanTable loans={loans} title="Recent Loan Activity" onStatusChange={handleStatusChange} />
+          <LoanTable
+            loans={loans}
+            title="Recent Loan Activity"
+            viewKey="verifier-dashboard"
+            onStatusChange={handleStatusChange}
+          />
 
           <div className="grid grid-cols-1 gap-6 mt-6">
             <ChartCard 
@@ -1,17 +1,25 @@
 "use client"
 
-import { useState, useEffect } from "react"
 import ProtectedRoute from "@/components/protected-route"
 import MainLayout from "@/components/main-layout"
 import { Button } from "@/components/ui/button"
-import { Input } from "@/components/ui/input"
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Badge } from "@/components/ui/badge"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
-import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
-import { Eye, FileText } from "lucide-react"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Eye } from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
 import api from "@/utils/api"
+import LoanStatusActions from "@/components/loans/loan-status-actions"
+import BulkLoanActions, { type BulkLoan, type BulkLoanResult } from "@/components/loans/bulk-loan-actions"
+import { useRowSelection } from "@/hooks/use-row-selection"
+import { usePaginatedQuery, type PaginatedQuery } from "@/hooks/use-paginated-query"
+import LoanListFilters, { LOAN_FILTER_KEYS } from "@/components/loans/loan-list-filters"
+import DataTable, { type DataTableColumn } from "@/components/data-table"
+import KycDocumentsDialog from "@/components/documents/kyc-documents-dialog"
+import { downloadCsv } from "@/lib/csv"
+import type { KycDocument } from "@/lib/kyc"
+import type { LoanDecision, LoanStatus } from "@/lib/loan-status"
+import { getLoanStatusBadgeClass } from "@/lib/status-badges"
 
 interface Loan {
   _id: string
@@ -25,73 +33,40 @@ interface Loan {
   tenure: number
   reason: string
   applicationDate: string
-  status: "pending" | "verified" | "rejected"
-  documents?: string[]
+  status: LoanStatus
+  documents?: KycDocument[]
   employmentStatus?: string
   employerName?: string
   employerAddress?: string
 }
 
+// Counts across every loan in the verification queue, returned alongside each page
+interface VerificationSummary {
+  totalLoans: number
+  pendingCount: number
+  verifiedCount: number
+  rejectedCount: number
+  totalAmount: number
+}
+
 export default function VerifierLoans() {
-  const [loans, setLoans] = useState<Loan[]>([])
-  const [searchTerm, setSearchTerm] = useState("")
-  const [isLoading, setIsLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
+  const query = usePaginatedQuery<Loan>("/api/verifier/loans/pending", {
+    dataKey: "loans",
+    filterKeys: LOAN_FILTER_KEYS,
+    defaultSortBy: "applicationDate",
+  })
   const { toast } = useToast()
 
-  // Fetch loans on component mount
-  useEffect(() => {
-    const fetchLoans = async () => {
-      setIsLoading(true)
-      setError(null)
-      try {
-        console.log("Fetching verifier loans data...")
-        const response = await api.get("/api/verifier/loans/pending")
-        console.log("Verifier loans data received:", response.data)
-        setLoans(response.data.loans || [])
-      } catch (error: any) {
-        console.error("Error fetching loans:", error)
-        
-        let errorMessage = "Failed to load loans data"
-        if (error.response) {
-          errorMessage += `: ${error.response.status} - ${error.response.data?.message || "Unknown error"}`
-        } else if (error.request) {
-          errorMessage += ": No response received from server"
-        } else {
-          errorMessage += `: ${error.message}`
-        }
-        
-        setError(errorMessage)
-        
-        toast({
-          variant: "destructive",
-          title: "Failed to fetch data",
-          description: "There was an error loading the loans data."
-        })
-      } finally {
-        setIsLoading(false)
-      }
-    }
-
-    fetchLoans()
-  }, [toast])
-
-  const filteredLoans = loans.filter(
-    (loan) =>
-      loan.user?.name?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      loan.reason?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      loan.status?.toLowerCase().includes(searchTerm.toLowerCase()),
-  )
-
-  const handleUpdateStatus = async (loanId: string, newStatus: Loan["status"]) => {
+  const handleUpdateStatus = async (loanId: string, newStatus: Loan["status"], decision?: LoanDecision) => {
     try {
       // Update loan status via API
       await api.patch(`/api/verifier/loans/${loanId}/verify`, { 
-        status: newStatus 
+        status: newStatus,
+        ...decision
       })
 
       // Update the state
-      setLoans(loans.map((loan) => (loan._id === loanId ? { ...loan, status: newStatus } : loan)))
+      query.setItems((current) => current.map((loan) => (loan._id === loanId ? { ...loan, status: newStatus } : loan)))
 
       toast({
         title: "Status Updated",
@@ -107,24 +82,42 @@ export default function VerifierLoans() {
     }
   }
 
-  const getStatusBadgeClass = (status: Loan["status"]) => {
-    switch (status) {
-      case "pending":
-        return "bg-yellow-100 text-yellow-800"
-      case "verified":
-        return "bg-green-100 text-green-800"
-      case "rejected":
-        return "bg-red-100 text-red-800"
-      default:
-        return "bg-gray-100 text-gray-800"
-    }
+  // Send one PATCH per loan so a single failure does not block the rest
+  const handleBulkUpdate = async (
+    selected: BulkLoan[],
+    newStatus: Loan["status"],
+    decision?: LoanDecision,
+  ): Promise<BulkLoanResult[]> => {
+    const settled = await Promise.allSettled(
+      selected.map((loan) => api.patch(`/api/verifier/loans/${loan._id}/verify`, { status: newStatus, ...decision })),
+    )
+
+    const results = selected.map((loan, index) => {
+      const outcome = settled[index]
+      return {
+        loanId: loan._id,
+        borrower: loan.user.name,
+        success: outcome.status === "fulfilled",
+        message:
+          outcome.status === "rejected"
+            ? outcome.reason?.response?.data?.message || "There was an error updating the loan status."
+            : undefined,
+      }
+    })
+
+    // Updated loans may have left the current filter, so reload the page
+    query.refetch()
+
+    return results
   }
 
-  // Calculate statistics
-  const pendingCount = loans.filter((l) => l.status === "pending").length
-  const verifiedCount = loans.filter((l) => l.status === "verified").length
-  const rejectedCount = loans.filter((l) => l.status === "rejected").length
-  const totalAmount = loans.reduce((sum, loan) => sum + loan.amount, 0)
+  // Statistics cover the whole queue, not just the current page
+  const summary: VerificationSummary | undefined = query.meta.summary
+  const totalLoans = summary?.totalLoans ?? query.total
+  const pendingCount = summary?.pendingCount ?? 0
+  const verifiedCount = summary?.verifiedCount ?? 0
+  const rejectedCount = summary?.rejectedCount ?? 0
+  const totalAmount = summary?.totalAmount ?? 0
 
   return (
     <ProtectedRoute allowedRoles={["verifier"]}>
@@ -138,7 +131,7 @@ export default function VerifierLoans() {
               <CardContent>
                 <div className="text-2xl font-bold">{pendingCount}</div>
                 <p className="text-xs text-muted-foreground">
-                  {loans.length > 0 ? ((pendingCount / loans.length) * 100).toFixed(1) : 0}% of total loans
+                  {totalLoans > 0 ? ((pendingCount / totalLoans) * 100).toFixed(1) : 0}% of total loans
                 </p>
               </CardContent>
             </Card>
@@ -149,7 +142,7 @@ export default function VerifierLoans() {
               <CardContent>
                 <div className="text-2xl font-bold">{verifiedCount}</div>
                 <p className="text-xs text-muted-foreground">
-                  {loans.length > 0 ? ((verifiedCount / loans.length) * 100).toFixed(1) : 0}% of total loans
+                  {totalLoans > 0 ? ((verifiedCount / totalLoans) * 100).toFixed(1) : 0}% of total loans
                 </p>
               </CardContent>
             </Card>
@@ -160,7 +153,7 @@ export default function VerifierLoans() {
               <CardContent>
                 <div className="text-2xl font-bold">{rejectedCount}</div>
                 <p className="text-xs text-muted-foreground">
-                  {loans.length > 0 ? ((rejectedCount / loans.length) * 100).toFixed(1) : 0}% of total loans
+                  {totalLoans > 0 ? ((rejectedCount / totalLoans) * 100).toFixed(1) : 0}% of total loans
                 </p>
               </CardContent>
             </Card>
@@ -179,27 +172,20 @@ export default function VerifierLoans() {
             <div className="flex justify-between items-center mb-6">
               <h2 className="text-xl font-semibold">Loans Verification</h2>
 
-              <div className="flex space-x-2">
-                <Input
-                  placeholder="Search loans..."
-                  value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
-                  className="w-64"
-                />
-              </div>
             </div>
-            
-            {isLoading ? (
-              <div className="flex justify-center items-center py-8">
-                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900"></div>
-              </div>
-            ) : error ? (
+
+            <LoanListFilters query={query} />
+
+            {query.error ? (
               <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded relative" role="alert">
                 <strong className="font-bold">Error: </strong>
-                <span className="block sm:inline">{error}</span>
+                <span className="block sm:inline">{query.error}</span>
               </div>
             ) : (
-              <Tabs defaultValue="all">
+              <Tabs
+                value={query.filters.status || "all"}
+                onValueChange={(value) => query.setFilter("status", value === "all" ? null : value)}
+              >
                 <TabsList className="mb-4">
                   <TabsTrigger value="all">All Loans</TabsTrigger>
                   <TabsTrigger value="pending">Pending</TabsTrigger>
@@ -207,37 +193,11 @@ export default function VerifierLoans() {
                   <TabsTrigger value="rejected">Rejected</TabsTrigger>
                 </TabsList>
 
-                <TabsContent value="all">
-                  <LoanTable
-                    loans={filteredLoans}
-                    onUpdateStatus={handleUpdateStatus}
-                    getStatusBadgeClass={getStatusBadgeClass}
-                  />
-                </TabsContent>
-
-                <TabsContent value="pending">
-                  <LoanTable
-                    loans={filteredLoans.filter((l) => l.status === "pending")}
-                    onUpdateStatus={handleUpdateStatus}
-                    getStatusBadgeClass={getStatusBadgeClass}
-                  />
-                </TabsContent>
-
-                <TabsContent value="verified">
-                  <LoanTable
-                    loans={filteredLoans.filter((l) => l.status === "verified")}
-                    onUpdateStatus={handleUpdateStatus}
-                    getStatusBadgeClass={getStatusBadgeClass}
-                  />
-                </TabsContent>
-
-                <TabsContent value="rejected">
-                  <LoanTable
-                    loans={filteredLoans.filter((l) => l.status === "rejected")}
-                    onUpdateStatus={handleUpdateStatus}
-                    getStatusBadgeClass={getStatusBadgeClass}
-                  />
-                </TabsContent>
+                <LoanTable
+                  query={query}
+                  onUpdateStatus={handleUpdateStatus}
+                  onBulkUpdate={handleBulkUpdate}
+                />
               </Tabs>
             )}
           </div>
@@ -248,121 +208,130 @@ export default function VerifierLoans() {
 }
 
 interface LoanTableProps {
-  loans: Loan[]
-  onUpdateStatus: (loanId: string, newStatus: Loan["status"]) => void
-  getStatusBadgeClass: (status: Loan["status"]) => string
+  query: PaginatedQuery<Loan>
+  onUpdateStatus: (loanId: string, newStatus: Loan["status"], decision?: LoanDecision) => void
+  onBulkUpdate: (loans: BulkLoan[], newStatus: Loan["status"], decision?: LoanDecision) => Promise<BulkLoanResult[]>
 }
 
-function LoanTable({ loans, onUpdateStatus, getStatusBadgeClass }: LoanTableProps) {
-  const [currentPage, setCurrentPage] = useState(1)
-  const [itemsPerPage] = useState(5)
+function LoanTable({ query, onUpdateStatus, onBulkUpdate }: LoanTableProps) {
+  const { toast } = useToast()
+  const loans = query.items
+  const selection = useRowSelection(loans, (loan) => loan._id, query.filterKey)
 
-  const indexOfLastItem = currentPage * itemsPerPage
-  const indexOfFirstItem = indexOfLastItem - itemsPerPage
-  const currentLoans = loans.slice(indexOfFirstItem, indexOfLastItem)
-  const totalPages = Math.ceil(loans.length / itemsPerPage)
+  const handleSelectAllMatching = async () => {
+    try {
+      selection.selectRows(await query.fetchAllMatching())
+    } catch (error: any) {
+      console.error("Error selecting all loans:", error)
+      toast({
+        variant: "destructive",
+        title: "Failed to select loans",
+        description: error.response?.data?.message || "There was an error loading the matching loans.",
+      })
+    }
+  }
 
-  return (
-    <div>
-      <Table>
-        <TableHeader>
-          <TableRow>
-            <TableHead>ID</TableHead>
-            <TableHead>Borrower</TableHead>
-            <TableHead>Amount</TableHead>
-            <TableHead>Term</TableHead>
-            <TableHead>Interest</TableHead>
-            <TableHead>Purpose</TableHead>
-            <TableHead>Date Applied</TableHead>
-            <TableHead>Status</TableHead>
-            <TableHead>Actions</TableHead>
-          </TableRow>
-        </TableHeader>
-        <TableBody>
-          {currentLoans.length === 0 ? (
-            <TableRow>
-              <TableCell colSpan={9} className="text-center py-4">
-                No loans found
-              </TableCell>
-            </TableRow>
-          ) : (
-            currentLoans.map((loan) => (
-              <TableRow key={loan._id}>
-                <TableCell>{loan._id.substring(0, 8)}...</TableCell>
-                <TableCell className="font-medium">{loan.user.name}</TableCell>
-                <TableCell>{loan.amount.toLocaleString()}</TableCell>
-                <TableCell>{loan.tenure} months</TableCell>
-                <TableCell>{loan.interestRate}%</TableCell>
-                <TableCell>{loan.reason}</TableCell>
-                <TableCell>{new Date(loan.applicationDate).toLocaleDateString()}</TableCell>
-                <TableCell>
-                  <Badge variant="outline" className={getStatusBadgeClass(loan.status)}>
-                    {loan.status.toUpperCase()}
-                  </Badge>
-                </TableCell>
-                <TableCell>
-                  <div className="flex space-x-2">
-                    <Button variant="outline" size="sm" asChild>
-                      <a href={`/verifier/loans/${loan._id}`}>
-                        <Eye className="h-4 w-4" />
-                      </a>
-                    </Button>
-                    <Button variant="outline" size="sm">
-                      <FileText className="h-4 w-4" />
-                    </Button>
+  const handleDocumentChange = (loanId: string, document: KycDocument) => {
+    query.setItems((current) =>
+      current.map((loan) =>
+        loan._id === loanId
+          ? { ...loan, documents: loan.documents?.map((item) => (item._id === document._id ? document : item)) }
+          : loan,
+      ),
+    )
+  }
 
-                    {loan.status === "pending" && (
-                      <>
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          className="bg-green-100 text-green-800 hover:bg-green-200"
-                          onClick={() => onUpdateStatus(loan._id, "verified")}
-                        >
-                          Verify
-                        </Button>
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          className="bg-red-100 text-red-800 hover:bg-red-200"
-                          onClick={() => onUpdateStatus(loan._id, "rejected")}
-                        >
-                          Reject
-                        </Button>
-                      </>
-                    )}
-                  </div>
-                </TableCell>
-              </TableRow>
-            ))
-          )}
-        </TableBody>
-      </Table>
+  const handleExport = () => {
+    downloadCsv(`loans-${new Date().toISOString().split("T")[0]}.csv`, selection.selectedRows, [
+      { header: "ID", value: (loan) => loan._id },
+      { header: "Borrower", value: (loan) => loan.user.name },
+      { header: "Email", value: (loan) => loan.user.email },
+      { header: "Amount", value: (loan) => loan.amount },
+      { header: "Tenure", value: (loan) => loan.tenure },
+      { header: "Interest Rate", value: (loan) => loan.interestRate },
+      { header: "Purpose", value: (loan) => loan.reason },
+      { header: "Applied", value: (loan) => new Date(loan.applicationDate).toLocaleDateString() },
+      { header: "Status", value: (loan) => loan.status },
+    ])
+  }
 
-      {loans.length > itemsPerPage && (
-        <div className="flex justify-between items-center mt-4">
-          <div>Items per page: {itemsPerPage}</div>
-          <div className="flex items-center">
-            <span>
-              {indexOfFirstItem + 1}-{Math.min(indexOfLastItem, loans.length)} of {loans.length}
-            </span>
-            <button
-              className="ml-2 p-1 rounded border disabled:opacity-50"
-              disabled={currentPage === 1}
-              onClick={() => setCurrentPage(currentPage - 1)}
-            >
-              <span className="material-icons">chevron_left</span>
-            </button>
-            <button
-              className="p-1 rounded border disabled:opacity-50"
-              disabled={currentPage === totalPages}
-              onClick={() => setCurrentPage(currentPage + 1)}
-            >
-              <span className="material-icons">chevron_right</span>
-            </button>
-          </div>
+  const columns: DataTableColumn<Loan>[] = [
+    { id: "id", header: "ID", cell: (loan) => `${loan._id.substring(0, 8)}...` },
+    { id: "borrower", header: "Borrower", sortable: true, className: "font-medium", cell: (loan) => loan.user.name },
+    { id: "amount", header: "Amount", sortable: true, cell: (loan) => loan.amount.toLocaleString() },
+    { id: "tenure", header: "Term", sortable: true, cell: (loan) => `${loan.tenure} months` },
+    { id: "interestRate", header: "Interest", sortable: true, cell: (loan) => `${loan.interestRate}%` },
+    { id: "reason", header: "Purpose", cell: (loan) => loan.reason },
+    {
+      id: "applicationDate",
+      header: "Date Applied",
+      sortable: true,
+      cell: (loan) => new Date(loan.applicationDate).toLocaleDateString(),
+    },
+    {
+      id: "status",
+      header: "Status",
+      sortable: true,
+      cell: (loan) => (
+        <Badge variant="outline" className={getLoanStatusBadgeClass(loan.status)}>
+          {loan.status.toUpperCase()}
+        </Badge>
+      ),
+    },
+    {
+      id: "actions",
+      header: "Actions",
+      hideable: false,
+      cell: (loan) => (
+        <div className="flex space-x-2">
+          <Button variant="outline" size="sm" asChild>
+            <a href={`/verifier/loans/${loan._id}`}>
+              <Eye className="h-4 w-4" />
+            </a>
+          </Button>
+          <KycDocumentsDialog
+            title={`Documents for ${loan.user.name}`}
+            documents={loan.documents || []}
+            reviewable
+            onDocumentChange={(document) => handleDocumentChange(loan._id, document)}
+          />
+
+          <LoanStatusActions loanId={loan._id} status={loan.status} onUpdateStatus={onUpdateStatus} />
         </div>
-      )}
+      ),
+    },
+  ]
+
+  return (
+    <div>
+      <BulkLoanActions
+        selectedLoans={selection.selectedRows}
+        matchingCount={query.total}
+        allMatchingSelected={selection.selectedRows.length >= query.total}
+        onSelectAllMatching={handleSelectAllMatching}
+        onClearSelection={selection.clear}
+        onBulkUpdate={onBulkUpdate}
+        onExport={handleExport}
+      />
+
+      <DataTable
+        data={loans}
+        columns={columns}
+        getRowId={(loan) => loan._id}
+        isLoading={query.isLoading}
+        emptyMessage="No loans found"
+        sort={{ sortBy: query.sortBy, sortOrder: query.sortOrder, onSort: query.setSort }}
+        pagination={{
+          page: query.page,
+          pageSize: query.pageSize,
+          total: query.total,
+          onPageChange: query.setPage,
+          onPageSizeChange: query.setPageSize,
+        }}
+        selection={selection}
+        getRowLabel={(loan) => `loan for ${loan.user.name}`}
+        visibilityKey="verifier-loans"
+      />
     </div>
   )
-}
\ No newline at end of file
+}
@@ -0,0 +1,319 @@
+"use client"
+
+import { useState, type ChangeEvent } from "react"
+import { Download, Upload } from "lucide-react"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import DataTable, { type DataTableColumn } from "@/components/data-table"
+import { useToast } from "@/hooks/use-toast"
+import { runInBatches } from "@/lib/batch"
+import {
+  BORROWER_IMPORT_REPORT_COLUMNS,
+  BORROWER_IMPORT_TEMPLATE,
+  IMPORT_BATCH_DELAY_MS,
+  IMPORT_BATCH_SIZE,
+  MAX_IMPORT_ROWS,
+  parseBorrowerCsv,
+  type BorrowerImportResult,
+  type BorrowerImportRow,
+} from "@/lib/borrower-import"
+import { downloadCsv, downloadFile } from "@/lib/csv"
+import api from "@/utils/api"
+
+export interface ImportedBorrower {
+  _id: string
+  name: string
+  email: string
+  phone?: string
+}
+
+interface BorrowerImportDialogProps {
+  // Emails already registered, which the preview reports as duplicates
+  existingEmails: string[]
+  onImported: (borrowers: ImportedBorrower[]) => void
+}
+
+type ImportStep = "select" | "preview" | "importing" | "done"
+
+const PREVIEW_COLUMNS: DataTableColumn<BorrowerImportRow>[] = [
+  { id: "line", header: "Line", cell: (row) => row.line, hideable: false },
+  { id: "name", header: "Name", cell: (row) => row.name || "—", hideable: false },
+  { id: "email", header: "Email", cell: (row) => row.email || "—", hideable: false },
+  { id: "phone", header: "Phone", cell: (row) => row.phone || "—", hideable: false },
+  {
+    id: "check",
+    header: "Check",
+    hideable: false,
+    cell: (row) =>
+      row.errors.length === 0 ? (
+        <Badge className="bg-green-100 text-green-800 hover:bg-green-200">Ready</Badge>
+      ) : (
+        <ul className="text-sm text-red-600">
+          {row.errors.map((error) => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      ),
+  },
+]
+
+export default function BorrowerImportDialog({ existingEmails, onImported }: BorrowerImportDialogProps) {
+  const { toast } = useToast()
+  const [isOpen, setIsOpen] = useState(false)
+  const [step, setStep] = useState<ImportStep>("select")
+  const [fileName, setFileName] = useState("")
+  const [fileError, setFileError] = useState<string | null>(null)
+  const [rows, setRows] = useState<BorrowerImportRow[]>([])
+  const [progress, setProgress] = useState({ done: 0, total: 0 })
+  const [results, setResults] = useState<BorrowerImportResult[]>([])
+
+  const validRows = rows.filter((row) => row.errors.length === 0)
+  const invalidCount = rows.length - validRows.length
+  const createdCount = results.filter((result) => result.outcome === "created").length
+  const failedCount = results.filter((result) => result.outcome === "failed").length
+  const hasTemporaryPasswords = results.some((result) => result.outcome === "created" && result.row.generatedPassword)
+
+  const reset = () => {
+    setStep("select")
+    setFileName("")
+    setFileError(null)
+    setRows([])
+    setProgress({ done: 0, total: 0 })
+    setResults([])
+  }
+
+  const handleOpenChange = (open: boolean) => {
+    // Closing mid-import would lose track of which accounts were created
+    if (step === "importing") return
+    setIsOpen(open)
+    if (!open) reset()
+  }
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (!file) return
+
+    setFileName(file.name)
+    try {
+      setRows(parseBorrowerCsv(await file.text(), existingEmails))
+      setFileError(null)
+      setStep("preview")
+    } catch (error: any) {
+      setRows([])
+      setFileError(error.message || "The file could not be read.")
+    }
+  }
+
+  const handleImport = async () => {
+    setStep("importing")
+    setProgress({ done: 0, total: validRows.length })
+
+    const outcomes = await runInBatches(
+      validRows,
+      async (row) => {
+        const response = await api.post("/api/auth/register", {
+          name: row.name,
+          email: row.email,
+          password: row.password,
+          phone: row.phone,
+          role: "user",
+        })
+        return response.data.user as ImportedBorrower
+      },
+      {
+        batchSize: IMPORT_BATCH_SIZE,
+        delayMs: IMPORT_BATCH_DELAY_MS,
+        onProgress: (done, total) => setProgress({ done, total }),
+      },
+    )
+
+    const created: ImportedBorrower[] = []
+    const outcomeByLine = new Map<number, BorrowerImportResult>()
+    outcomes.forEach((outcome, index) => {
+      const row = validRows[index]
+      if (outcome.status === "fulfilled") {
+        created.push(outcome.value)
+        outcomeByLine.set(row.line, { row, outcome: "created", message: "Account created" })
+      } else {
+        const error: any = outcome.reason
+        console.error(`Error importing borrower on line ${row.line}:`, error)
+        outcomeByLine.set(row.line, {
+          row,
+          outcome: "failed",
+          message: error.response?.data?.message || "There was an error creating the borrower.",
+        })
+      }
+    })
+
+    // The report lists every line of the file, including the ones validation held back
+    setResults(
+      rows.map(
+        (row) => outcomeByLine.get(row.line) ?? { row, outcome: "skipped", message: row.errors.join("; ") },
+      ),
+    )
+    setStep("done")
+
+    if (created.length > 0) onImported(created)
+    toast({
+      variant: created.length < validRows.length ? "destructive" : "default",
+      title: "Import finished",
+      description: `${created.length} of ${validRows.length} borrowers created`,
+    })
+  }
+
+  const downloadReport = () => {
+    const stem = fileName.replace(/\.csv$/i, "") || "borrowers"
+    downloadCsv(`${stem}-import-report.csv`, results, BORROWER_IMPORT_REPORT_COLUMNS)
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Upload className="mr-2 h-4 w-4" />
+          Import CSV
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import borrowers</DialogTitle>
+          <DialogDescription>
+            Create borrower accounts from a CSV file with name, email, and optional phone and password columns
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "select" && (
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-2">
+              <Label htmlFor="borrower-import-file">CSV file</Label>
+              <Input id="borrower-import-file" type="file" accept=".csv,text/csv" onChange={handleFileChange} />
+              <p className="text-xs text-muted-foreground">
+                Up to {MAX_IMPORT_ROWS} rows. Rows without a password get a generated one, listed in the result report.
+              </p>
+            </div>
+            {fileError && (
+              <Alert variant="destructive">
+                <AlertDescription>{fileError}</AlertDescription>
+              </Alert>
+            )}
+            <div>
+              <Button
+                variant="link"
+                className="px-0"
+                onClick={() =>
+                  downloadFile("borrower-import-template.csv", BORROWER_IMPORT_TEMPLATE, "text/csv;charset=utf-8")
+                }
+              >
+                <Download className="mr-2 h-4 w-4" />
+                Download template
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === "preview" && (
+          <div className="grid gap-4 py-4">
+            <p className="text-sm">
+              <span className="font-medium">{fileName}</span>: {validRows.length} ready to import
+              {invalidCount > 0 && <span className="text-red-600">, {invalidCount} with errors will be skipped</span>}
+            </p>
+            <DataTable
+              data={rows}
+              columns={PREVIEW_COLUMNS}
+              getRowId={(row) => String(row.line)}
+              defaultPageSize={10}
+              maxHeightClassName="max-h-[400px]"
+            />
+          </div>
+        )}
+
+        {step === "importing" && (
+          <div className="grid gap-4 py-8">
+            <div className="flex justify-center items-center">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900"></div>
+            </div>
+            <p className="text-center text-sm">
+              Creating accounts: {progress.done} of {progress.total}
+            </p>
+            <div className="h-2 w-full rounded bg-gray-200">
+              <div
+                className="h-2 rounded bg-green-600 transition-all"
+                style={{ width: `${progress.total > 0 ? (progress.done / progress.total) * 100 : 0}%` }}
+              />
+            </div>
+          </div>
+        )}
+
+        {step === "done" && (
+          <div className="grid gap-4 py-4">
+            <div className="grid grid-cols-3 gap-4 text-center">
+              <div>
+                <div className="text-2xl font-bold text-green-600">{createdCount}</div>
+                <p className="text-xs text-muted-foreground">Created</p>
+              </div>
+              <div>
+                <div className="text-2xl font-bold text-red-600">{failedCount}</div>
+                <p className="text-xs text-muted-foreground">Failed</p>
+              </div>
+              <div>
+                <div className="text-2xl font-bold text-gray-600">{invalidCount}</div>
+                <p className="text-xs text-muted-foreground">Skipped</p>
+              </div>
+            </div>
+            {hasTemporaryPasswords && (
+              <Alert>
+                <AlertDescription>
+                  The report contains the temporary passwords generated for new accounts. Share them securely and
+                  delete the file afterwards.
+                </AlertDescription>
+              </Alert>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === "preview" && (
+            <>
+              <Button variant="outline" onClick={reset}>
+                Choose another file
+              </Button>
+              <Button
+                className="bg-green-600 hover:bg-green-700"
+                onClick={handleImport}
+                disabled={validRows.length === 0}
+              >
+                Import {validRows.length} borrowers
+              </Button>
+            </>
+          )}
+          {step === "done" && (
+            <>
+              <Button variant="outline" onClick={downloadReport}>
+                <Download className="mr-2 h-4 w-4" />
+                Download report
+              </Button>
+              <Button onClick={() => handleOpenChange(false)}>Close</Button>
+            </>
+          )}
+          {step === "select" && (
+            <Button variant="outline" onClick={() => handleOpenChange(false)}>
+              Cancel
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,63 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import type { BorrowerNote } from "@/lib/borrower-profile"
+
+interface BorrowerNotesProps {
+  notes: BorrowerNote[]
+  // Resolves once the note is saved; the form keeps the text if it rejects
+  onAddNote: (text: string) => Promise<void>
+}
+
+export default function BorrowerNotes({ notes, onAddNote }: BorrowerNotesProps) {
+  const [text, setText] = useState("")
+  const [isSaving, setIsSaving] = useState(false)
+
+  const sortedNotes = [...notes].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+
+  const handleSubmit = async () => {
+    if (!text.trim()) return
+    setIsSaving(true)
+    try {
+      await onAddNote(text.trim())
+      setText("")
+    } catch {
+      // The caller reports the error
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-2">
+        <Label htmlFor="borrower-note">Add a note</Label>
+        <Textarea id="borrower-note" rows={3} value={text} onChange={(e) => setText(e.target.value)} />
+        <div className="flex justify-end">
+          <Button size="sm" onClick={handleSubmit} disabled={!text.trim() || isSaving}>
+            {isSaving ? "Saving..." : "Add Note"}
+          </Button>
+        </div>
+      </div>
+
+      {sortedNotes.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No notes yet</p>
+      ) : (
+        <ul className="space-y-3">
+          {sortedNotes.map((note) => (
+            <li key={note._id} className="border-b pb-3 last:border-b-0">
+              <p className="text-sm whitespace-pre-wrap">{note.text}</p>
+              <p className="text-xs text-muted-foreground mt-1">
+                {note.author.name}
+                {note.author.role && ` (${note.author.role})`} · {new Date(note.createdAt).toLocaleString()}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,413 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { Eye } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import Can from "@/components/can"
+import DataTable, { type DataTableColumn } from "@/components/data-table"
+import BorrowerNotes from "@/components/borrowers/borrower-notes"
+import BorrowerStatusHistory from "@/components/borrowers/borrower-status-history"
+import KycDocumentList from "@/components/documents/kyc-document-list"
+import { useToast } from "@/hooks/use-toast"
+import {
+  getAccountStatusBadgeClass,
+  getRiskLevelBadgeClass,
+  getVerificationStatusBadgeClass,
+  summarizeBorrowerRisk,
+  type BorrowerAccountStatus,
+  type BorrowerLoan,
+  type BorrowerProfile,
+  type BorrowerRepayment,
+  type BorrowerVerificationStatus,
+} from "@/lib/borrower-profile"
+import type { KycDocument } from "@/lib/kyc"
+import { getLoanStatusBadgeClass } from "@/lib/status-badges"
+import api from "@/utils/api"
+
+interface BorrowerProfileViewProps {
+  borrowerId: string
+  // Admins manage the account; verifiers review identity
+  role: "admin" | "verifier"
+}
+
+const ACCOUNT_ACTIONS: { status: BorrowerAccountStatus; label: string; className: string }[] = [
+  { status: "active", label: "Activate", className: "bg-green-100 text-green-800 hover:bg-green-200" },
+  { status: "inactive", label: "Deactivate", className: "bg-yellow-100 text-yellow-800 hover:bg-yellow-200" },
+  { status: "blacklisted", label: "Blacklist", className: "bg-red-100 text-red-800 hover:bg-red-200" },
+]
+
+export default function BorrowerProfileView({ borrowerId, role }: BorrowerProfileViewProps) {
+  const [borrower, setBorrower] = useState<BorrowerProfile | null>(null)
+  const [loans, setLoans] = useState<BorrowerLoan[]>([])
+  const [repayments, setRepayments] = useState<BorrowerRepayment[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  // Account status waiting for the admin to confirm, with the reason recorded in the history
+  const [pendingStatus, setPendingStatus] = useState<BorrowerAccountStatus | null>(null)
+  const [statusReason, setStatusReason] = useState("")
+  const { toast } = useToast()
+
+  const apiBase = `/api/${role}/borrowers/${borrowerId}`
+
+  useEffect(() => {
+    const fetchProfile = async () => {
+      setIsLoading(true)
+      setError(null)
+      try {
+        const response = await api.get(apiBase)
+        setBorrower(response.data.borrower)
+        setLoans(response.data.loans || [])
+        setRepayments(response.data.repayments || [])
+      } catch (error: any) {
+        console.error("Error fetching borrower profile:", error)
+
+        let errorMessage = "Failed to load borrower profile"
+        if (error.response) {
+          errorMessage += `: ${error.response.status} - ${error.response.data?.message || "Unknown error"}`
+        } else if (error.request) {
+          errorMessage += ": No response received from server"
+        } else {
+          errorMessage += `: ${error.message}`
+        }
+
+        setError(errorMessage)
+
+        toast({
+          variant: "destructive",
+          title: "Failed to fetch data",
+          description: "There was an error loading the borrower profile.",
+        })
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchProfile()
+  }, [apiBase, toast])
+
+  const closeStatusDialog = () => {
+    setPendingStatus(null)
+    setStatusReason("")
+  }
+
+  const handleUpdateAccountStatus = async () => {
+    if (!pendingStatus) return
+    try {
+      const response = await api.patch(`${apiBase}/status`, {
+        status: pendingStatus,
+        reason: statusReason.trim() || undefined,
+      })
+
+      // Prefer the server copy so the status history stays accurate
+      setBorrower((current) => response.data.borrower ?? (current ? { ...current, status: pendingStatus } : current))
+      closeStatusDialog()
+
+      toast({
+        title: "Status Updated",
+        description: `Borrower status has been updated to ${pendingStatus}`,
+      })
+    } catch (error: any) {
+      console.error("Error updating borrower status:", error)
+      toast({
+        variant: "destructive",
+        title: "Failed to update status",
+        description: error.response?.data?.message || "There was an error updating the borrower status.",
+      })
+    }
+  }
+
+  const handleUpdateVerification = async (newStatus: BorrowerVerificationStatus) => {
+    try {
+      await api.patch(`${apiBase}/status`, { status: newStatus })
+
+      setBorrower((current) => (current ? { ...current, verificationStatus: newStatus } : current))
+
+      toast({
+        title: "Status Updated",
+        description: `Borrower status has been updated to ${newStatus}`,
+      })
+    } catch (error: any) {
+      console.error("Error updating borrower status:", error)
+      toast({
+        variant: "destructive",
+        title: "Failed to update status",
+        description: error.response?.data?.message || "There was an error updating the borrower status.",
+      })
+    }
+  }
+
+  const handleAddNote = async (text: string) => {
+    try {
+      const response = await api.post(`${apiBase}/notes`, { text })
+      setBorrower((current) => (current ? { ...current, notes: [...current.notes, response.data.note] } : current))
+    } catch (error: any) {
+      console.error("Error adding borrower note:", error)
+      toast({
+        variant: "destructive",
+        title: "Failed to add note",
+        description: error.response?.data?.message || "There was an error saving the note.",
+      })
+      throw error
+    }
+  }
+
+  const handleDocumentChange = (document: KycDocument) => {
+    setBorrower((current) =>
+      current
+        ? { ...current, documents: current.documents.map((item) => (item._id === document._id ? document : item)) }
+        : current,
+    )
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900"></div>
+      </div>
+    )
+  }
+
+  if (error || !borrower) {
+    return (
+      <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded relative" role="alert">
+        <strong className="font-bold">Error: </strong>
+        <span className="block sm:inline">{error || "Borrower not found"}</span>
+      </div>
+    )
+  }
+
+  const risk = summarizeBorrowerRisk(loans, repayments)
+
+  const loanColumns: DataTableColumn<BorrowerLoan>[] = [
+    {
+      id: "applicationDate",
+      header: "Applied",
+      sortValue: (loan) => new Date(loan.applicationDate).getTime(),
+      cell: (loan) => new Date(loan.applicationDate).toLocaleDateString(),
+    },
+    { id: "reason", header: "Purpose", cell: (loan) => loan.reason },
+    {
+      id: "amount",
+      header: "Amount",
+      sortValue: (loan) => loan.amount,
+      cell: (loan) => loan.amount.toLocaleString(),
+    },
+    {
+      id: "status",
+      header: "Status",
+      sortValue: (loan) => loan.status,
+      cell: (loan) => (
+        <Badge variant="outline" className={getLoanStatusBadgeClass(loan.status)}>
+          {loan.status.toUpperCase()}
+        </Badge>
+      ),
+    },
+    {
+      id: "paid",
+      header: "Paid",
+      cell: (loan) => `${loan.amountPaid.toLocaleString()} of ${loan.totalAmountPayable.toLocaleString()}`,
+    },
+    ...(role === "admin"
+      ? [
+          {
+            id: "actions",
+            header: "Actions",
+            hideable: false,
+            cell: (loan: BorrowerLoan) => (
+              <Button variant="outline" size="sm" asChild>
+                <Link href={`/admin/loans/${loan._id}`} aria-label="View loan">
+                  <Eye className="h-4 w-4" />
+                </Link>
+              </Button>
+            ),
+          },
+        ]
+      : []),
+  ]
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-6 rounded shadow">
+        <div className="flex flex-col md:flex-row md:justify-between md:items-center gap-4">
+          <div>
+            <h2 className="text-2xl font-bold">{borrower.name}</h2>
+            <p className="text-sm text-muted-foreground">
+              Borrower since {new Date(borrower.createdAt).toLocaleDateString()}
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <Badge variant="outline" className={getAccountStatusBadgeClass(borrower.status)}>
+              {borrower.status.toUpperCase()}
+            </Badge>
+            <Badge variant="outline" className={getVerificationStatusBadgeClass(borrower.verificationStatus)}>
+              {borrower.verificationStatus.toUpperCase()}
+            </Badge>
+
+            {role === "admin" && (
+              <Can permission="users.update">
+                {ACCOUNT_ACTIONS.filter((action) => action.status !== borrower.status).map((action) => (
+                  <Button
+                    key={action.status}
+                    variant="outline"
+                    size="sm"
+                    className={action.className}
+                    onClick={() => setPendingStatus(action.status)}
+                  >
+                    {action.label}
+                  </Button>
+                ))}
+              </Can>
+            )}
+
+            {role === "verifier" && borrower.verificationStatus === "pending" && (
+              <>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="bg-green-100 text-green-800 hover:bg-green-200"
+                  onClick={() => handleUpdateVerification("verified")}
+                >
+                  Verify
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="bg-red-100 text-red-800 hover:bg-red-200"
+                  onClick={() => handleUpdateVerification("rejected")}
+                >
+                  Reject
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Contact</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-1 text-sm">
+            <p>{borrower.email}</p>
+            <p>{borrower.phone || "Phone not provided"}</p>
+            <p>{borrower.address || "Address not provided"}</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Balance</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-1 text-sm">
+            <p className="text-2xl font-bold">{risk.outstandingBalance.toLocaleString()}</p>
+            <p className="text-muted-foreground">Outstanding across {risk.activeLoans} active loans</p>
+            <p>
+              <span className="text-muted-foreground">Total borrowed:</span> {risk.totalBorrowed.toLocaleString()}
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2 flex flex-row items-center justify-between space-y-0">
+            <CardTitle className="text-sm font-medium">Repayment Punctuality</CardTitle>
+            <Badge variant="outline" className={getRiskLevelBadgeClass(risk.riskLevel)}>
+              {risk.riskLevel.toUpperCase()} RISK
+            </Badge>
+          </CardHeader>
+          <CardContent className="space-y-1 text-sm">
+            <p className="text-2xl font-bold">{risk.onTimeRate === null ? "-" : `${risk.onTimeRate.toFixed(0)}%`}</p>
+            <p className="text-muted-foreground">
+              {risk.onTimeRepayments} of {risk.dueRepayments} repayments paid on time
+            </p>
+            <p>
+              <span className="text-muted-foreground">Late:</span> {risk.lateRepayments}
+              <span className="text-muted-foreground ml-3">Overdue:</span> {risk.overdueRepayments}
+              <span className="text-muted-foreground ml-3">Defaulted loans:</span> {risk.defaultedLoans}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="bg-white p-6 rounded shadow">
+        <h3 className="text-lg font-semibold mb-4">Loans</h3>
+        <DataTable
+          data={loans}
+          columns={loanColumns}
+          getRowId={(loan) => loan._id}
+          emptyMessage="No loans yet"
+          defaultSort={{ sortBy: "applicationDate", sortOrder: "desc" }}
+          visibilityKey={`${role}-borrower-loans`}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-white p-6 rounded shadow">
+          <h3 className="text-lg font-semibold mb-4">KYC Documents</h3>
+          <KycDocumentList
+            documents={borrower.documents}
+            reviewable={role === "verifier"}
+            onDocumentChange={handleDocumentChange}
+          />
+        </div>
+
+        <div className="bg-white p-6 rounded shadow">
+          <h3 className="text-lg font-semibold mb-4">Status History</h3>
+          <BorrowerStatusHistory events={borrower.statusHistory} />
+        </div>
+      </div>
+
+      <div className="bg-white p-6 rounded shadow">
+        <h3 className="text-lg font-semibold mb-4">Notes</h3>
+        <BorrowerNotes notes={borrower.notes} onAddNote={handleAddNote} />
+      </div>
+
+      <Dialog open={!!pendingStatus} onOpenChange={(open) => !open && closeStatusDialog()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {ACCOUNT_ACTIONS.find((action) => action.status === pendingStatus)?.label} borrower
+            </DialogTitle>
+            <DialogDescription>The reason is recorded in the borrower's status history.</DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-2 py-4">
+            <Label htmlFor="status-reason">{pendingStatus === "blacklisted" ? "Reason" : "Reason (optional)"}</Label>
+            <Textarea
+              id="status-reason"
+              rows={4}
+              value={statusReason}
+              onChange={(e) => setStatusReason(e.target.value)}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={closeStatusDialog}>
+              Cancel
+            </Button>
+            <Button
+              className="bg-green-600 hover:bg-green-700"
+              onClick={handleUpdateAccountStatus}
+              disabled={pendingStatus === "blacklisted" && !statusReason.trim()}
+            >
+              Confirm
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,42 @@
+"use client"
+
+import { Badge } from "@/components/ui/badge"
+import { getAccountStatusBadgeClass, type BorrowerStatusEvent } from "@/lib/borrower-profile"
+
+interface BorrowerStatusHistoryProps {
+  events: BorrowerStatusEvent[]
+}
+
+// Account status changes, including when and why a borrower was blacklisted or reinstated
+export default function BorrowerStatusHistory({ events }: BorrowerStatusHistoryProps) {
+  const sortedEvents = [...events].sort((a, b) => new Date(b.changedAt).getTime() - new Date(a.changedAt).getTime())
+
+  if (sortedEvents.length === 0) {
+    return <p className="text-sm text-muted-foreground">No status changes recorded yet</p>
+  }
+
+  return (
+    <ol className="relative border-l-2 border-gray-200 ml-2 space-y-4">
+      {sortedEvents.map((event, index) => (
+        <li key={`${event.status}-${event.changedAt}-${index}`} className="ml-4">
+          <span className="absolute -left-[7px] mt-1.5 h-3 w-3 rounded-full border-2 border-white bg-gray-400" />
+          <div className="flex flex-wrap items-center gap-2">
+            <Badge variant="outline" className={getAccountStatusBadgeClass(event.status)}>
+              {event.status.toUpperCase()}
+            </Badge>
+            <time className="text-xs text-muted-foreground" dateTime={event.changedAt}>
+              {new Date(event.changedAt).toLocaleString()}
+            </time>
+          </div>
+          {event.changedBy && (
+            <p className="text-sm mt-1">
+              By {event.changedBy.name}
+              {event.changedBy.role && <span className="text-muted-foreground"> ({event.changedBy.role})</span>}
+            </p>
+          )}
+          {event.reason && <p className="text-sm text-muted-foreground">{event.reason}</p>}
+        </li>
+      ))}
+    </ol>
+  )
+}
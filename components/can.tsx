@@ -0,0 +1,17 @@
+"use client"
+
+import type { ReactNode } from "react"
+import { usePermission } from "@/hooks/use-permission"
+import type { Permission } from "@/lib/permissions"
+
+interface CanProps {
+  permission: Permission
+  children: ReactNode
+  fallback?: ReactNode
+}
+
+// Render children only when the logged in user holds the permission
+export default function Can({ permission, children, fallback = null }: CanProps) {
+  const allowed = usePermission(permission)
+  return <>{allowed ? children : fallback}</>
+}
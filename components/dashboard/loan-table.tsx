@@ -1,9 +1,12 @@
 "use client"
 
-import { useState } from "react"
-import { Button } from "@/components/ui/button"
-import { useAuth } from "@/context/auth-context"
+import { useEffect, useState } from "react"
 import { useToast } from "@/hooks/use-toast"
+import { useTableView } from "@/hooks/use-table-view"
+import LoanStatusActions from "@/components/loans/loan-status-actions"
+import TableViewControls from "@/components/dashboard/table-view-controls"
+import { applyTableView } from "@/lib/table-view"
+import type { LoanDecision, LoanStatus } from "@/lib/loan-status"
 
 export interface Loan {
   id: string
@@ -14,30 +17,43 @@ export interface Loan {
   }
   amount: number
   date: string
-  status: "pending" | "verified" | "rejected" | "approved" | "disbursed"
+  status: LoanStatus
   reason?: string
 }
 
 interface LoanTableProps {
   loans: Loan[]
   title?: string
-  onStatusChange?: (loanId: string, newStatus: Loan["status"]) => void
+  // Key the saved sort and filter choices are stored under
+  viewKey?: string
+  onStatusChange?: (loanId: string, newStatus: Loan["status"], decision?: LoanDecision) => void
 }
 
-export default function LoanTable({ loans, title = "Applied Loans", onStatusChange }: LoanTableProps) {
+export default function LoanTable({ loans, title = "Applied Loans", viewKey = "loan-table", onStatusChange }: LoanTableProps) {
   const [currentPage, setCurrentPage] = useState(1)
   const [itemsPerPage] = useState(5)
-  const { user } = useAuth()
   const { toast } = useToast()
+  const tableView = useTableView(viewKey)
+
+  const visibleLoans = applyTableView(loans, tableView.view, {
+    amount: (loan) => loan.amount,
+    date: (loan) => loan.date,
+    status: (loan) => loan.status,
+  })
+
+  // Back to the first page whenever the sort or filters change
+  useEffect(() => {
+    setCurrentPage(1)
+  }, [tableView.view])
 
   const indexOfLastItem = currentPage * itemsPerPage
   const indexOfFirstItem = indexOfLastItem - itemsPerPage
-  const currentLoans = loans.slice(indexOfFirstItem, indexOfLastItem)
-  const totalPages = Math.ceil(loans.length / itemsPerPage)
+  const currentLoans = visibleLoans.slice(indexOfFirstItem, indexOfLastItem)
+  const totalPages = Math.max(Math.ceil(visibleLoans.length / itemsPerPage), 1)
 
-  const handleStatusChange = (loanId: string, newStatus: Loan["status"]) => {
+  const handleStatusChange = (loanId: string, newStatus: Loan["status"], decision?: LoanDecision) => {
     if (onStatusChange) {
-      onStatusChange(loanId, newStatus)
+      onStatusChange(loanId, newStatus, decision)
 
       toast({
         title: "Status updated",
@@ -67,14 +83,7 @@ export default function LoanTable({ loans, title = "Applied Loans", onStatusChan
     <div className="bg-white p-4 rounded shadow">
       <div className="flex justify-between items-center mb-4">
         <h2 className="text-lg font-medium">{title}</h2>
-        <div className="flex space-x-2">
-          <button className="p-1 rounded border">
-            <span className="material-icons text-sm">sort</span>
-          </button>
-          <button className="p-1 rounded border">
-            <span className="material-icons text-sm">filter_list</span>
-          </button>
-        </div>
+        <TableViewControls tableView={tableView} />
       </div>
 
       <div className="overflow-x-auto">
@@ -89,6 +98,13 @@ export default function LoanTable({ loans, title = "Applied Loans", onStatusChan
             </tr>
           </thead>
           <tbody>
+            {currentLoans.length === 0 && (
+              <tr>
+                <td colSpan={5} className="py-4 text-center text-gray-500">
+                  {loans.length === 0 ? "No loans found" : "No loans match the current filters"}
+                </td>
+              </tr>
+            )}
             {currentLoans.map((loan) => (
               <tr key={loan.id} className="border-b">
                 <td className="py-3 flex items-center">
@@ -108,47 +124,7 @@ export default function LoanTable({ loans, title = "Applied Loans", onStatusChan
                   </span>
                 </td>
                 <td className="py-3 flex space-x-2">
-                  {user?.role === "verifier" && loan.status === "pending" && (
-                    <>
-                      <Button
-                        size="sm"
-                        variant="outline"
-                        className="bg-green-100 text-green-800 hover:bg-green-200"
-                        onClick={() => handleStatusChange(loan.id, "verified")}
-                      >
-                        Verify
-                      </Button>
-                      <Button
-                        size="sm"
-                        variant="outline"
-                        className="bg-red-100 text-red-800 hover:bg-red-200"
-                        onClick={() => handleStatusChange(loan.id, "rejected")}
-                      >
-                        Reject
-                      </Button>
-                    </>
-                  )}
-
-                  {user?.role === "admin" && loan.status === "verified" && (
-                    <>
-                      <Button
-                        size="sm"
-                        variant="outline"
-                        className="bg-blue-100 text-blue-800 hover:bg-blue-200"
-                        onClick={() => handleStatusChange(loan.id, "approved")}
-                      >
-                        Approve
-                      </Button>
-                      <Button
-                        size="sm"
-                        variant="outline"
-                        className="bg-red-100 text-red-800 hover:bg-red-200"
-                        onClick={() => handleStatusChange(loan.id, "rejected")}
-                      >
-                        Reject
-                      </Button>
-                    </>
-                  )}
+                  <LoanStatusActions loanId={loan.id} status={loan.status} onUpdateStatus={handleStatusChange} />
                 </td>
               </tr>
             ))}
@@ -159,7 +135,8 @@ export default function LoanTable({ loans, title = "Applied Loans", onStatusChan
           <div>Items per page: {itemsPerPage}</div>
           <div className="flex items-center">
             <span>
-              {indexOfFirstItem + 1}-{Math.min(indexOfLastItem, loans.length)} of {loans.length}
+              {visibleLoans.length === 0 ? 0 : indexOfFirstItem + 1}-{Math.min(indexOfLastItem, visibleLoans.length)} of{" "}
+              {visibleLoans.length}
             </span>
             <button
               className="ml-2 p-1 rounded border disabled:opacity-50"
@@ -170,7 +147,7 @@ export default function LoanTable({ loans, title = "Applied Loans", onStatusChan
             </button>
             <button
               className="p-1 rounded border disabled:opacity-50"
-              disabled={currentPage === totalPages}
+              disabled={currentPage >= totalPages}
               onClick={() => setCurrentPage(currentPage + 1)}
             >
               <span className="material-icons">chevron_right</span>
@@ -0,0 +1,165 @@
+"use client"
+
+import { useId, useRef, useState, type ReactNode } from "react"
+import { ArrowDown, ArrowUp, Check } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { useDismiss } from "@/hooks/use-dismiss"
+import type { TableViewState } from "@/hooks/use-table-view"
+import { LOAN_STATUSES, type LoanStatus } from "@/lib/loan-status"
+import { TABLE_SORT_FIELDS } from "@/lib/table-view"
+
+interface TableViewControlsProps {
+  tableView: TableViewState
+  // Matches the existing icon buttons, which differ between dashboards
+  buttonClassName?: string
+}
+
+// Sort menu and filter panel behind the `sort` and `filter_list` icon buttons
+export default function TableViewControls({ tableView, buttonClassName = "p-1 rounded border" }: TableViewControlsProps) {
+  const { view, setView, setSort, resetFilters, activeFilterCount } = tableView
+  const [openPanel, setOpenPanel] = useState<"sort" | "filter" | null>(null)
+  const containerRef = useRef<HTMLDivElement>(null)
+  const idPrefix = useId()
+
+  useDismiss(containerRef, !!openPanel, () => setOpenPanel(null))
+
+  const togglePanel = (panel: "sort" | "filter") => setOpenPanel(openPanel === panel ? null : panel)
+
+  const toggleStatus = (status: LoanStatus) => {
+    setView({
+      statuses: view.statuses.includes(status)
+        ? view.statuses.filter((current) => current !== status)
+        : [...view.statuses, status],
+    })
+  }
+
+  return (
+    <div ref={containerRef} className="relative flex space-x-2">
+      <button
+        className={buttonClassName}
+        title="Sort"
+        aria-haspopup="menu"
+        aria-expanded={openPanel === "sort"}
+        onClick={() => togglePanel("sort")}
+      >
+        <span className="material-icons text-sm">sort</span>
+      </button>
+      <button
+        className={`relative ${buttonClassName}`}
+        title="Filter"
+        aria-haspopup="dialog"
+        aria-expanded={openPanel === "filter"}
+        onClick={() => togglePanel("filter")}
+      >
+        <span className="material-icons text-sm">filter_list</span>
+        {activeFilterCount > 0 && (
+          <span className="absolute -top-2 -right-2 rounded-full bg-green-600 px-1.5 text-[10px] leading-4 text-white">
+            {activeFilterCount}
+          </span>
+        )}
+      </button>
+
+      {openPanel === "sort" && (
+        <Panel>
+          <div role="menu" className="w-44">
+            <p className="px-2 pb-1 text-xs font-medium text-gray-500">Sort by</p>
+            {TABLE_SORT_FIELDS.map((field) => {
+              const isActive = view.sortBy === field.value
+              return (
+                <button
+                  key={field.value}
+                  role="menuitemradio"
+                  aria-checked={isActive}
+                  className="flex w-full items-center justify-between rounded px-2 py-1.5 text-sm hover:bg-gray-100"
+                  onClick={() => setSort(field.value)}
+                >
+                  <span className="flex items-center gap-2">
+                    <Check className={`h-3 w-3 ${isActive ? "" : "invisible"}`} />
+                    {field.label}
+                  </span>
+                  {isActive &&
+                    (view.sortOrder === "asc" ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />)}
+                </button>
+              )
+            })}
+          </div>
+        </Panel>
+      )}
+
+      {openPanel === "filter" && (
+        <Panel>
+          <div role="dialog" aria-label="Filter loans" className="w-72 space-y-4 p-1">
+            <div>
+              <p className="mb-2 text-xs font-medium text-gray-500">Status</p>
+              <div className="grid grid-cols-2 gap-2">
+                {LOAN_STATUSES.map((status) => (
+                  <label key={status} className="flex items-center gap-2 text-sm capitalize">
+                    <Checkbox checked={view.statuses.includes(status)} onCheckedChange={() => toggleStatus(status)} />
+                    {status}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div className="grid gap-1">
+                <Label htmlFor={`${idPrefix}-from`} className="text-xs">
+                  From
+                </Label>
+                <Input
+                  id={`${idPrefix}-from`}
+                  type="date"
+                  value={view.from}
+                  onChange={(e) => setView({ from: e.target.value })}
+                />
+              </div>
+              <div className="grid gap-1">
+                <Label htmlFor={`${idPrefix}-to`} className="text-xs">
+                  To
+                </Label>
+                <Input id={`${idPrefix}-to`} type="date" value={view.to} onChange={(e) => setView({ to: e.target.value })} />
+              </div>
+              <div className="grid gap-1">
+                <Label htmlFor={`${idPrefix}-min-amount`} className="text-xs">
+                  Min amount
+                </Label>
+                <Input
+                  id={`${idPrefix}-min-amount`}
+                  type="number"
+                  min="0"
+                  value={view.minAmount}
+                  onChange={(e) => setView({ minAmount: e.target.value })}
+                />
+              </div>
+              <div className="grid gap-1">
+                <Label htmlFor={`${idPrefix}-max-amount`} className="text-xs">
+                  Max amount
+                </Label>
+                <Input
+                  id={`${idPrefix}-max-amount`}
+                  type="number"
+                  min="0"
+                  value={view.maxAmount}
+                  onChange={(e) => setView({ maxAmount: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="flex justify-end">
+              <Button variant="ghost" size="sm" disabled={activeFilterCount === 0} onClick={resetFilters}>
+                Reset filters
+              </Button>
+            </div>
+          </div>
+        </Panel>
+      )}
+    </div>
+  )
+}
+
+function Panel({ children }: { children: ReactNode }) {
+  return <div className="absolute right-0 top-full z-20 mt-2 rounded border bg-white p-2 shadow-lg">{children}</div>
+}
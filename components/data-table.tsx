@@ -0,0 +1,264 @@
+"use client"
+
+import { useEffect, useRef, useState, type ReactNode } from "react"
+import { Columns3 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import PaginationControls from "@/components/pagination-controls"
+import SortableTableHead from "@/components/sortable-table-head"
+import { useDismiss } from "@/hooks/use-dismiss"
+import type { SortOrder } from "@/hooks/use-paginated-query"
+import type { RowSelection } from "@/hooks/use-row-selection"
+
+export interface DataTableColumn<T> {
+  // Also the sort key sent to `sort.onSort` for server-sorted tables
+  id: string
+  header: string
+  cell: (row: T) => ReactNode
+  // Makes a server-sorted column clickable
+  sortable?: boolean
+  // Value a client-sorted column is ordered by; setting it makes the column sortable
+  sortValue?: (row: T) => string | number
+  className?: string
+  headerClassName?: string
+  // Set to false to keep the column out of the "Columns" menu
+  hideable?: boolean
+  hiddenByDefault?: boolean
+}
+
+export interface DataTableSort {
+  sortBy: string
+  sortOrder: SortOrder
+  onSort: (column: string) => void
+}
+
+export interface DataTablePagination {
+  page: number
+  pageSize: number
+  total: number
+  onPageChange: (page: number) => void
+  onPageSizeChange: (pageSize: number) => void
+}
+
+interface DataTableProps<T> {
+  data: T[]
+  columns: DataTableColumn<T>[]
+  getRowId: (row: T) => string
+  isLoading?: boolean
+  emptyMessage?: ReactNode
+  // Server-side sorting; without it the table sorts `data` itself
+  sort?: DataTableSort
+  defaultSort?: { sortBy: string; sortOrder: SortOrder }
+  // Server-side paging; without it the table pages `data` itself
+  pagination?: DataTablePagination
+  defaultPageSize?: number
+  // Adds a checkbox column; `getRowLabel` names the row for screen readers
+  selection?: RowSelection<T>
+  getRowLabel?: (row: T) => string
+  // Remembers hidden columns in localStorage under this key
+  visibilityKey?: string
+  stickyHeader?: boolean
+  // Height limit for the scroll area, e.g. "max-h-[600px]", so the sticky header has something to stick to
+  maxHeightClassName?: string
+}
+
+const visibilityStorageKey = (key: string) => `data-table-columns:${key}`
+
+export default function DataTable<T>({
+  data,
+  columns,
+  getRowId,
+  isLoading = false,
+  emptyMessage = "No results found",
+  sort,
+  defaultSort,
+  pagination,
+  defaultPageSize = 5,
+  selection,
+  getRowLabel,
+  visibilityKey,
+  stickyHeader = true,
+  maxHeightClassName = "max-h-[600px]",
+}: DataTableProps<T>) {
+  const [clientSort, setClientSort] = useState(defaultSort ?? { sortBy: "", sortOrder: "desc" as SortOrder })
+  const [clientPage, setClientPage] = useState(1)
+  const [clientPageSize, setClientPageSize] = useState(defaultPageSize)
+  const [hiddenColumns, setHiddenColumns] = useState<string[]>(() =>
+    columns.filter((column) => column.hiddenByDefault).map((column) => column.id),
+  )
+  const [isColumnMenuOpen, setIsColumnMenuOpen] = useState(false)
+  const columnMenuRef = useRef<HTMLDivElement>(null)
+
+  useDismiss(columnMenuRef, isColumnMenuOpen, () => setIsColumnMenuOpen(false))
+
+  useEffect(() => {
+    if (!visibilityKey) return
+    try {
+      const saved = localStorage.getItem(visibilityStorageKey(visibilityKey))
+      if (saved) setHiddenColumns(JSON.parse(saved))
+    } catch {
+      // Ignore unreadable saved state and keep the defaults
+    }
+  }, [visibilityKey])
+
+  const toggleColumn = (id: string) => {
+    const next = hiddenColumns.includes(id) ? hiddenColumns.filter((column) => column !== id) : [...hiddenColumns, id]
+    setHiddenColumns(next)
+    if (visibilityKey) localStorage.setItem(visibilityStorageKey(visibilityKey), JSON.stringify(next))
+  }
+
+  const visibleColumns = columns.filter((column) => !hiddenColumns.includes(column.id))
+  const hideableColumns = columns.filter((column) => column.hideable !== false)
+
+  // Client-side sort follows the same rules as server-side sorting: a new column starts descending
+  const activeSort: DataTableSort = sort ?? {
+    ...clientSort,
+    onSort: (column) =>
+      setClientSort({
+        sortBy: column,
+        sortOrder: column === clientSort.sortBy && clientSort.sortOrder === "desc" ? "asc" : "desc",
+      }),
+  }
+
+  let rows = data
+  const sortColumn = !sort ? columns.find((column) => column.id === clientSort.sortBy) : undefined
+  if (sortColumn?.sortValue) {
+    const sortValue = sortColumn.sortValue
+    const direction = clientSort.sortOrder === "asc" ? 1 : -1
+    rows = [...data].sort((a, b) => {
+      const left = sortValue(a)
+      const right = sortValue(b)
+      return (left < right ? -1 : left > right ? 1 : 0) * direction
+    })
+  }
+
+  const clientTotalPages = Math.max(Math.ceil(rows.length / clientPageSize), 1)
+  // Stay in range when the data shrinks, e.g. after switching tabs or searching
+  const currentClientPage = Math.min(clientPage, clientTotalPages)
+  const activePagination: DataTablePagination = pagination ?? {
+    page: currentClientPage,
+    pageSize: clientPageSize,
+    total: rows.length,
+    onPageChange: setClientPage,
+    onPageSizeChange: (pageSize) => {
+      setClientPageSize(pageSize)
+      setClientPage(1)
+    },
+  }
+
+  if (!pagination) {
+    rows = rows.slice((currentClientPage - 1) * clientPageSize, currentClientPage * clientPageSize)
+  }
+
+  const columnCount = visibleColumns.length + (selection ? 1 : 0)
+
+  return (
+    <div>
+      {hideableColumns.length > 0 && (
+        <div className="flex justify-end mb-2">
+          <div ref={columnMenuRef} className="relative">
+            <Button
+              variant="outline"
+              size="sm"
+              aria-haspopup="menu"
+              aria-expanded={isColumnMenuOpen}
+              onClick={() => setIsColumnMenuOpen(!isColumnMenuOpen)}
+            >
+              <Columns3 className="mr-2 h-4 w-4" />
+              Columns
+            </Button>
+            {isColumnMenuOpen && (
+              <div role="menu" className="absolute right-0 top-full z-30 mt-2 w-48 rounded border bg-white p-2 shadow-lg">
+                {hideableColumns.map((column) => (
+                  <label key={column.id} className="flex items-center gap-2 rounded px-2 py-1.5 text-sm hover:bg-gray-100">
+                    <Checkbox
+                      checked={!hiddenColumns.includes(column.id)}
+                      onCheckedChange={() => toggleColumn(column.id)}
+                    />
+                    {column.header}
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      <Table containerClassName={stickyHeader ? maxHeightClassName : undefined}>
+        <TableHeader className={stickyHeader ? "sticky top-0 z-10 bg-white" : undefined}>
+          <TableRow>
+            {selection && (
+              <TableHead className="w-10">
+                <Checkbox
+                  checked={selection.allPageSelected ? true : selection.somePageSelected ? "indeterminate" : false}
+                  onCheckedChange={selection.togglePage}
+                  aria-label="Select all rows on this page"
+                />
+              </TableHead>
+            )}
+            {visibleColumns.map((column) =>
+              column.sortable || column.sortValue ? (
+                <SortableTableHead
+                  key={column.id}
+                  label={column.header}
+                  column={column.id}
+                  sortBy={activeSort.sortBy}
+                  sortOrder={activeSort.sortOrder}
+                  onSort={activeSort.onSort}
+                  className={column.headerClassName}
+                />
+              ) : (
+                <TableHead key={column.id} className={column.headerClassName}>
+                  {column.header}
+                </TableHead>
+              ),
+            )}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {isLoading ? (
+            <TableRow>
+              <TableCell colSpan={columnCount}>
+                <div className="flex justify-center items-center py-8">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900"></div>
+                </div>
+              </TableCell>
+            </TableRow>
+          ) : rows.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={columnCount} className="text-center py-4">
+                {emptyMessage}
+              </TableCell>
+            </TableRow>
+          ) : (
+            rows.map((row) => {
+              const id = getRowId(row)
+              const isSelected = selection?.isSelected(id) ?? false
+              return (
+                <TableRow key={id} data-state={isSelected ? "selected" : undefined}>
+                  {selection && (
+                    <TableCell>
+                      <Checkbox
+                        checked={isSelected}
+                        onCheckedChange={() => selection.toggle(row)}
+                        aria-label={getRowLabel ? `Select ${getRowLabel(row)}` : "Select row"}
+                      />
+                    </TableCell>
+                  )}
+                  {visibleColumns.map((column) => (
+                    <TableCell key={column.id} className={column.className}>
+                      {column.cell(row)}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              )
+            })
+          )}
+        </TableBody>
+      </Table>
+
+      <PaginationControls {...activePagination} />
+    </div>
+  )
+}
@@ -0,0 +1,263 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { RotateCcw, RotateCw, ZoomIn, ZoomOut } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  formatFileSize,
+  getKycDocumentFileUrl,
+  getKycDocumentLabel,
+  getKycRejectionReasonLabel,
+  getKycStatusBadgeClass,
+  KYC_REJECTION_REASONS,
+  type KycDocument,
+  type KycDocumentStatus,
+} from "@/lib/kyc"
+import api from "@/utils/api"
+
+export interface DocumentReview {
+  status: Exclude<KycDocumentStatus, "pending">
+  reasonCode?: string
+  note?: string
+}
+
+interface DocumentViewerProps {
+  document: KycDocument | null
+  onClose: () => void
+  // Shows accept and reject controls when given
+  onReview?: (document: KycDocument, review: DocumentReview) => Promise<void>
+}
+
+const MIN_ZOOM = 0.5
+const MAX_ZOOM = 3
+const ZOOM_STEP = 0.25
+
+export default function DocumentViewer({ document, onClose, onReview }: DocumentViewerProps) {
+  const [fileUrl, setFileUrl] = useState<string | null>(null)
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [zoom, setZoom] = useState(1)
+  const [rotation, setRotation] = useState(0)
+  const [isRejecting, setIsRejecting] = useState(false)
+  const [rejection, setRejection] = useState({ reasonCode: "", note: "" })
+  const [isSaving, setIsSaving] = useState(false)
+
+  const documentId = document?._id
+
+  // The file needs the auth header, so it is loaded as a blob and shown from an object URL
+  useEffect(() => {
+    if (!documentId) return
+
+    let objectUrl: string | null = null
+    let cancelled = false
+
+    setFileUrl(null)
+    setLoadError(null)
+    setZoom(1)
+    setRotation(0)
+    setIsRejecting(false)
+    setRejection({ reasonCode: "", note: "" })
+
+    api
+      .get(getKycDocumentFileUrl(documentId), { responseType: "blob" })
+      .then((response) => {
+        if (cancelled) return
+        objectUrl = URL.createObjectURL(response.data)
+        setFileUrl(objectUrl)
+      })
+      .catch((error) => {
+        console.error("Error loading document:", error)
+        if (!cancelled) setLoadError("The document could not be loaded.")
+      })
+
+    return () => {
+      cancelled = true
+      if (objectUrl) URL.revokeObjectURL(objectUrl)
+    }
+  }, [documentId])
+
+  const handleReview = async (review: DocumentReview) => {
+    if (!document || !onReview) return
+    setIsSaving(true)
+    try {
+      await onReview(document, review)
+      setIsRejecting(false)
+    } catch {
+      // The caller reports the error
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const isPdf = document?.mimeType === "application/pdf"
+
+  return (
+    <Dialog open={!!document} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-4xl max-h-[95vh] overflow-y-auto">
+        {document && (
+          <>
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                {getKycDocumentLabel(document.type)}
+                <Badge variant="outline" className={getKycStatusBadgeClass(document.status)}>
+                  {document.status.toUpperCase()}
+                </Badge>
+              </DialogTitle>
+              <DialogDescription>
+                {document.fileName} · {formatFileSize(document.size)} · Uploaded{" "}
+                {new Date(document.uploadedAt).toLocaleDateString()}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="flex items-center gap-1">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setZoom(Math.max(zoom - ZOOM_STEP, MIN_ZOOM))}
+                disabled={zoom <= MIN_ZOOM}
+                aria-label="Zoom out"
+              >
+                <ZoomOut className="h-4 w-4" />
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setZoom(1)} aria-label="Reset zoom">
+                {Math.round(zoom * 100)}%
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setZoom(Math.min(zoom + ZOOM_STEP, MAX_ZOOM))}
+                disabled={zoom >= MAX_ZOOM}
+                aria-label="Zoom in"
+              >
+                <ZoomIn className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setRotation((rotation + 270) % 360)}
+                aria-label="Rotate left"
+              >
+                <RotateCcw className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setRotation((rotation + 90) % 360)}
+                aria-label="Rotate right"
+              >
+                <RotateCw className="h-4 w-4" />
+              </Button>
+            </div>
+
+            <div className="h-[60vh] overflow-auto rounded border bg-gray-100">
+              {loadError ? (
+                <div className="flex h-full items-center justify-center text-sm text-red-600">{loadError}</div>
+              ) : !fileUrl ? (
+                <div className="flex h-full items-center justify-center">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900"></div>
+                </div>
+              ) : (
+                <div
+                  className="flex h-full w-full items-center justify-center transition-transform"
+                  style={{ transform: `scale(${zoom}) rotate(${rotation}deg)` }}
+                >
+                  {isPdf ? (
+                    <iframe src={fileUrl} title={document.fileName} className="h-full w-full bg-white" />
+                  ) : (
+                    <img src={fileUrl} alt={document.fileName} className="max-h-full max-w-full object-contain" />
+                  )}
+                </div>
+              )}
+            </div>
+
+            {document.status === "rejected" && document.reviewReasonCode && (
+              <p className="text-sm">
+                <span className="font-medium">Rejected:</span> {getKycRejectionReasonLabel(document.reviewReasonCode)}
+                {document.reviewNote && <span className="text-muted-foreground"> — {document.reviewNote}</span>}
+              </p>
+            )}
+
+            {onReview &&
+              (isRejecting ? (
+                <div className="grid gap-4 border-t pt-4">
+                  <div className="grid gap-2">
+                    <Label htmlFor="document-rejection-reason">Reason</Label>
+                    <Select
+                      value={rejection.reasonCode}
+                      onValueChange={(value) => setRejection({ ...rejection, reasonCode: value })}
+                    >
+                      <SelectTrigger id="document-rejection-reason">
+                        <SelectValue placeholder="Select a reason" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {KYC_REJECTION_REASONS.map((reason) => (
+                          <SelectItem key={reason.value} value={reason.value}>
+                            {reason.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="grid gap-2">
+                    <Label htmlFor="document-rejection-note">
+                      {rejection.reasonCode === "other" ? "Details" : "Details (optional)"}
+                    </Label>
+                    <Textarea
+                      id="document-rejection-note"
+                      rows={3}
+                      value={rejection.note}
+                      onChange={(e) => setRejection({ ...rejection, note: e.target.value })}
+                    />
+                  </div>
+                  <div className="flex justify-end gap-2">
+                    <Button variant="outline" onClick={() => setIsRejecting(false)}>
+                      Cancel
+                    </Button>
+                    <Button
+                      className="bg-red-600 hover:bg-red-700"
+                      onClick={() =>
+                        handleReview({
+                          status: "rejected",
+                          reasonCode: rejection.reasonCode,
+                          note: rejection.note.trim() || undefined,
+                        })
+                      }
+                      disabled={
+                        isSaving ||
+                        !rejection.reasonCode ||
+                        (rejection.reasonCode === "other" && !rejection.note.trim())
+                      }
+                    >
+                      Reject Document
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <div className="flex justify-end gap-2 border-t pt-4">
+                  <Button
+                    variant="outline"
+                    className="bg-red-100 text-red-800 hover:bg-red-200"
+                    onClick={() => setIsRejecting(true)}
+                    disabled={isSaving}
+                  >
+                    Reject
+                  </Button>
+                  <Button
+                    className="bg-green-600 hover:bg-green-700"
+                    onClick={() => handleReview({ status: "accepted" })}
+                    disabled={isSaving || document.status === "accepted"}
+                  >
+                    Accept
+                  </Button>
+                </div>
+              ))}
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
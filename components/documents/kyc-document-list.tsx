@@ -0,0 +1,96 @@
+"use client"
+
+import { useState } from "react"
+import { FileText } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import DocumentViewer, { type DocumentReview } from "@/components/documents/document-viewer"
+import { useToast } from "@/hooks/use-toast"
+import {
+  getKycDocumentLabel,
+  getKycRejectionReasonLabel,
+  getKycStatusBadgeClass,
+  type KycDocument,
+} from "@/lib/kyc"
+import api from "@/utils/api"
+
+interface KycDocumentListProps {
+  documents: KycDocument[]
+  // Lets verifiers accept or reject each document from the viewer
+  reviewable?: boolean
+  onDocumentChange?: (document: KycDocument) => void
+}
+
+export default function KycDocumentList({ documents, reviewable = false, onDocumentChange }: KycDocumentListProps) {
+  const [openDocument, setOpenDocument] = useState<KycDocument | null>(null)
+  const { toast } = useToast()
+
+  const handleReview = async (document: KycDocument, review: DocumentReview) => {
+    try {
+      const response = await api.patch(`/api/verifier/documents/${document._id}/review`, review)
+      const updated: KycDocument = response.data.document ?? {
+        ...document,
+        status: review.status,
+        reviewReasonCode: review.reasonCode,
+        reviewNote: review.note,
+      }
+
+      setOpenDocument(updated)
+      onDocumentChange?.(updated)
+
+      toast({
+        title: review.status === "accepted" ? "Document Accepted" : "Document Rejected",
+        description: `${getKycDocumentLabel(document.type)} has been ${review.status}`,
+      })
+    } catch (error: any) {
+      console.error("Error reviewing document:", error)
+      toast({
+        variant: "destructive",
+        title: "Failed to review document",
+        description: error.response?.data?.message || "There was an error saving the review.",
+      })
+      throw error
+    }
+  }
+
+  if (documents.length === 0) {
+    return <p className="text-sm text-muted-foreground">No documents uploaded</p>
+  }
+
+  return (
+    <>
+      <ul className="space-y-2">
+        {documents.map((document) => (
+          <li key={document._id} className="flex items-center justify-between gap-2 text-sm">
+            <div className="flex items-center gap-2 min-w-0">
+              <FileText className="h-4 w-4 shrink-0 text-muted-foreground" />
+              <div className="min-w-0">
+                <p className="font-medium">{getKycDocumentLabel(document.type)}</p>
+                <p className="text-xs text-muted-foreground truncate">
+                  {document.fileName} · {new Date(document.uploadedAt).toLocaleDateString()}
+                </p>
+                {document.status === "rejected" && document.reviewReasonCode && (
+                  <p className="text-xs text-red-600">{getKycRejectionReasonLabel(document.reviewReasonCode)}</p>
+                )}
+              </div>
+            </div>
+            <div className="flex items-center gap-2 shrink-0">
+              <Badge variant="outline" className={getKycStatusBadgeClass(document.status)}>
+                {document.status.toUpperCase()}
+              </Badge>
+              <Button variant="outline" size="sm" onClick={() => setOpenDocument(document)}>
+                {reviewable && document.status === "pending" ? "Review" : "View"}
+              </Button>
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      <DocumentViewer
+        document={openDocument}
+        onClose={() => setOpenDocument(null)}
+        onReview={reviewable ? handleReview : undefined}
+      />
+    </>
+  )
+}
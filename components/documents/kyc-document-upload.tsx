@@ -0,0 +1,112 @@
+"use client"
+
+import type { ChangeEvent } from "react"
+import { CheckCircle2, RotateCw, Upload, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { useToast } from "@/hooks/use-toast"
+import type { DocumentUploads } from "@/hooks/use-document-uploads"
+import { formatFileSize, KYC_ACCEPTED_MIME_TYPES, KYC_DOCUMENT_REQUIREMENTS, type KycDocumentType } from "@/lib/kyc"
+
+interface KycDocumentUploadProps {
+  uploads: DocumentUploads
+}
+
+export default function KycDocumentUpload({ uploads }: KycDocumentUploadProps) {
+  const { toast } = useToast()
+
+  const handleFileChange = (type: KycDocumentType, event: ChangeEvent<HTMLInputElement>) => {
+    const errors = uploads.addFiles(type, Array.from(event.target.files ?? []))
+    // Clear the input so picking the same file again after removing it still fires a change
+    event.target.value = ""
+
+    if (errors.length > 0) {
+      toast({
+        variant: "destructive",
+        title: errors.length === 1 ? "File not added" : `${errors.length} files not added`,
+        description: errors.join("\n"),
+      })
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      {KYC_DOCUMENT_REQUIREMENTS.map((requirement) => {
+        const items = uploads.uploads.filter((upload) => upload.type === requirement.type)
+        const inputId = `kyc-${requirement.type}`
+        const isFull = items.length >= requirement.maxFiles
+
+        return (
+          <div key={requirement.type} className="border rounded p-4">
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <Label htmlFor={inputId}>{requirement.label}</Label>
+                <p className="text-xs text-muted-foreground">{requirement.description}</p>
+              </div>
+              <Button variant="outline" size="sm" asChild>
+                <label htmlFor={inputId} className={isFull ? "pointer-events-none opacity-50" : "cursor-pointer"}>
+                  <Upload className="mr-2 h-4 w-4" />
+                  Add {requirement.maxFiles > 1 ? "files" : "file"}
+                </label>
+              </Button>
+              <input
+                id={inputId}
+                type="file"
+                className="sr-only"
+                accept={KYC_ACCEPTED_MIME_TYPES.join(",")}
+                multiple={requirement.maxFiles > 1}
+                disabled={isFull}
+                onChange={(event) => handleFileChange(requirement.type, event)}
+              />
+            </div>
+
+            {items.length > 0 && (
+              <ul className="mt-3 space-y-2">
+                {items.map((upload) => (
+                  <li key={upload.key} className="text-sm">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="truncate">
+                        {upload.fileName}{" "}
+                        <span className="text-xs text-muted-foreground">({formatFileSize(upload.size)})</span>
+                      </span>
+                      <div className="flex items-center gap-1 shrink-0">
+                        {upload.status === "uploaded" && <CheckCircle2 className="h-4 w-4 text-green-600" />}
+                        {upload.status === "failed" && (
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => uploads.retry(upload.key)}
+                            aria-label={`Retry ${upload.fileName}`}
+                          >
+                            <RotateCw className="h-4 w-4" />
+                          </Button>
+                        )}
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => uploads.remove(upload.key)}
+                          disabled={upload.status === "uploading"}
+                          aria-label={`Remove ${upload.fileName}`}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                    {upload.status === "uploading" && (
+                      <div className="w-full bg-gray-200 rounded-full h-1.5 mt-1">
+                        <div className="bg-green-600 h-1.5 rounded-full" style={{ width: `${upload.progress}%` }}></div>
+                      </div>
+                    )}
+                    {upload.status === "failed" && <p className="text-xs text-red-600">{upload.error}</p>}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
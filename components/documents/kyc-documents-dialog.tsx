@@ -0,0 +1,48 @@
+"use client"
+
+import { FileText } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import KycDocumentList from "@/components/documents/kyc-document-list"
+import type { KycDocument } from "@/lib/kyc"
+
+interface KycDocumentsDialogProps {
+  title: string
+  documents: KycDocument[]
+  reviewable?: boolean
+  onDocumentChange?: (document: KycDocument) => void
+}
+
+// Document button for table rows, opening the row's KYC documents
+export default function KycDocumentsDialog({
+  title,
+  documents,
+  reviewable,
+  onDocumentChange,
+}: KycDocumentsDialogProps) {
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" aria-label="View documents">
+          <FileText className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            {reviewable ? "Open a document to view it and accept or reject it" : "Open a document to view it"}
+          </DialogDescription>
+        </DialogHeader>
+        <KycDocumentList documents={documents} reviewable={reviewable} onDocumentChange={onDocumentChange} />
+      </DialogContent>
+    </Dialog>
+  )
+}
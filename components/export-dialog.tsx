@@ -0,0 +1,205 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Download } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useToast } from "@/hooks/use-toast"
+import { EXPORT_LOCALES, exportRows, type ExportColumn, type ExportFormat } from "@/lib/export"
+
+// Radix Select items cannot use an empty value, so this stands for the browser's locale
+const BROWSER_LOCALE = "browser"
+
+interface ExportDialogProps<T> {
+  title: string
+  // File name without extension; today's date is appended
+  filename: string
+  columns: ExportColumn<T>[]
+  // Rows matching the page's current filters, loaded when the export runs
+  getRows: () => T[] | Promise<T[]>
+  // Remembers the chosen format, locale and columns in localStorage under this key
+  storageKey: string
+}
+
+interface ExportPreferences {
+  format: ExportFormat
+  locale: string
+  columnIds: string[]
+}
+
+const preferencesKey = (key: string) => `export:${key}`
+
+export default function ExportDialog<T>({ title, filename, columns, getRows, storageKey }: ExportDialogProps<T>) {
+  const { toast } = useToast()
+  const [isOpen, setIsOpen] = useState(false)
+  const [isExporting, setIsExporting] = useState(false)
+  const [preferences, setPreferences] = useState<ExportPreferences>({
+    format: "xlsx",
+    locale: BROWSER_LOCALE,
+    columnIds: columns.map((column) => column.id),
+  })
+
+  useEffect(() => {
+    try {
+      const saved = localStorage.getItem(preferencesKey(storageKey))
+      if (saved) setPreferences((current) => ({ ...current, ...JSON.parse(saved) }))
+    } catch {
+      // Ignore unreadable saved preferences and keep the defaults
+    }
+  }, [storageKey])
+
+  const updatePreferences = (changes: Partial<ExportPreferences>) => {
+    const next = { ...preferences, ...changes }
+    setPreferences(next)
+    localStorage.setItem(preferencesKey(storageKey), JSON.stringify(next))
+  }
+
+  const toggleColumn = (id: string) => {
+    updatePreferences({
+      columnIds: preferences.columnIds.includes(id)
+        ? preferences.columnIds.filter((columnId) => columnId !== id)
+        : [...preferences.columnIds, id],
+    })
+  }
+
+  const handleExport = async () => {
+    setIsExporting(true)
+    try {
+      const rows = await getRows()
+      exportRows(`${filename}-${new Date().toISOString().split("T")[0]}`, rows, columns, {
+        format: preferences.format,
+        locale: preferences.locale === BROWSER_LOCALE ? undefined : preferences.locale,
+        columnIds: preferences.columnIds,
+      })
+      setIsOpen(false)
+      toast({
+        title: "Export ready",
+        description: `${rows.length} rows exported to ${preferences.format.toUpperCase()}`,
+      })
+    } catch (error: any) {
+      console.error("Error exporting rows:", error)
+      toast({
+        variant: "destructive",
+        title: "Export failed",
+        description: error.response?.data?.message || "There was an error preparing the export.",
+      })
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  const hasColumns = columns.some((column) => preferences.columnIds.includes(column.id))
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Download className="mr-2 h-4 w-4" />
+          Export
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>Download the rows matching the current search and filters</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="export-format">Format</Label>
+              <Select
+                value={preferences.format}
+                onValueChange={(value) => updatePreferences({ format: value as ExportFormat })}
+              >
+                <SelectTrigger id="export-format">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="xlsx">Excel (.xlsx)</SelectItem>
+                  <SelectItem value="csv">CSV (.csv)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="export-locale">Number and date format</Label>
+              <Select
+                value={preferences.locale}
+                onValueChange={(value) => updatePreferences({ locale: value })}
+                disabled={preferences.format === "xlsx"}
+              >
+                <SelectTrigger id="export-locale">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={BROWSER_LOCALE}>Browser default</SelectItem>
+                  {EXPORT_LOCALES.map((locale) => (
+                    <SelectItem key={locale.value} value={locale.value}>
+                      {locale.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          {preferences.format === "xlsx" && (
+            <p className="text-xs text-muted-foreground">
+              Excel files keep real numbers and dates, which Excel shows in the reader's own format.
+            </p>
+          )}
+
+          <div className="grid gap-2">
+            <div className="flex items-center justify-between">
+              <Label>Columns</Label>
+              <div className="flex gap-1">
+                <Button
+                  variant="link"
+                  size="sm"
+                  className="px-1"
+                  onClick={() => updatePreferences({ columnIds: columns.map((column) => column.id) })}
+                >
+                  All
+                </Button>
+                <Button variant="link" size="sm" className="px-1" onClick={() => updatePreferences({ columnIds: [] })}>
+                  None
+                </Button>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              {columns.map((column) => (
+                <label key={column.id} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={preferences.columnIds.includes(column.id)}
+                    onCheckedChange={() => toggleColumn(column.id)}
+                  />
+                  {column.header}
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setIsOpen(false)}>
+            Cancel
+          </Button>
+          <Button className="bg-green-600 hover:bg-green-700" onClick={handleExport} disabled={!hasColumns || isExporting}>
+            {isExporting ? "Exporting..." : "Export"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,17 @@
+"use client"
+
+interface FieldErrorProps {
+  // Referenced by the input's aria-describedby
+  id: string
+  message?: string
+}
+
+// Inline validation message shown under a form field
+export default function FieldError({ id, message }: FieldErrorProps) {
+  if (!message) return null
+  return (
+    <p id={id} className="text-sm text-red-600" role="alert">
+      {message}
+    </p>
+  )
+}
@@ -0,0 +1,87 @@
+"use client"
+
+import { AlertTriangle, CheckCircle, XCircle } from "lucide-react"
+import { MAX_DEBT_TO_INCOME, type AffordabilityAssessment, type AffordabilityStatus } from "@/lib/affordability"
+
+const STATUS_STYLES: Record<AffordabilityStatus, { label: string; className: string; icon: typeof CheckCircle }> = {
+  ok: {
+    label: "Within our lending limits",
+    className: "border-green-300 bg-green-50 text-green-800",
+    icon: CheckCircle,
+  },
+  warn: {
+    label: "Affordable, but stretched",
+    className: "border-yellow-300 bg-yellow-50 text-yellow-800",
+    icon: AlertTriangle,
+  },
+  block: {
+    label: "More than you can afford",
+    className: "border-red-300 bg-red-50 text-red-800",
+    icon: XCircle,
+  },
+}
+
+interface AffordabilityCheckProps {
+  assessment: AffordabilityAssessment
+  // Largest amount of the chosen product and tenure that stays affordable
+  maxAmount?: number
+}
+
+// How a requested installment compares with the borrower's income and outgoings
+export default function AffordabilityCheck({ assessment, maxAmount }: AffordabilityCheckProps) {
+  const hasLoan = assessment.installment > 0
+  const style = STATUS_STYLES[assessment.status]
+  const Icon = style.icon
+
+  const rows: [string, string][] = [
+    ["Monthly income", assessment.income.toLocaleString()],
+    ["Living expenses", assessment.expenses.toLocaleString()],
+    ["Existing loan payments", assessment.debtPayments.toLocaleString()],
+    ["Most you can repay a month", Math.floor(assessment.maxInstallment).toLocaleString()],
+  ]
+  if (hasLoan) {
+    rows.push(["This loan's installment", assessment.installment.toLocaleString()])
+    if (assessment.balloon > 0) rows.push(["Final payment", assessment.balloon.toLocaleString()])
+    if (assessment.income > 0) {
+      rows.push([
+        "Debt-to-income",
+        `${Math.round(assessment.debtToIncome * 100)}% (limit ${Math.round(MAX_DEBT_TO_INCOME * 100)}%)`,
+      ])
+    }
+  }
+  if (maxAmount !== undefined) rows.push(["Most you can borrow over this tenure", maxAmount.toLocaleString()])
+
+  return (
+    <div className={`border rounded p-4 space-y-3 ${hasLoan ? style.className : "border-gray-200"}`}>
+      <div className="flex items-center gap-2 font-medium">
+        {hasLoan && <Icon className="h-4 w-4" />}
+        <span>Affordability check{hasLoan ? `: ${style.label}` : ""}</span>
+      </div>
+
+      <dl className="grid grid-cols-1 md:grid-cols-2 gap-x-4 gap-y-1 text-sm text-gray-900">
+        {rows.map(([label, value]) => (
+          <div key={label} className="flex gap-2">
+            <dt className="text-muted-foreground">{label}:</dt>
+            <dd>{value}</dd>
+          </div>
+        ))}
+      </dl>
+
+      {hasLoan && assessment.reasons.length > 0 && (
+        <ul className="list-disc pl-4 text-sm">
+          {assessment.reasons.map((reason) => (
+            <li key={reason}>{reason}</li>
+          ))}
+        </ul>
+      )}
+
+      {assessment.notes.length > 0 && (
+        <ul className="text-xs text-muted-foreground space-y-1">
+          {assessment.notes.map((note) => (
+            <li key={note}>{note}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,69 @@
+"use client"
+
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import type { AmortizationResult } from "@/lib/amortization"
+
+interface AmortizationScheduleProps {
+  schedule: AmortizationResult | null
+  className?: string
+}
+
+// Summary and month-by-month breakdown shown before a loan is submitted
+export default function AmortizationSchedule({ schedule, className = "" }: AmortizationScheduleProps) {
+  if (!schedule) {
+    return (
+      <div className={`rounded border border-dashed p-4 text-sm text-muted-foreground ${className}`}>
+        Enter an amount and tenure to preview the repayment schedule
+      </div>
+    )
+  }
+
+  const finalPayment = schedule.rows[schedule.rows.length - 1].payment
+
+  return (
+    <div className={`rounded border p-4 space-y-4 ${className}`}>
+      <div className="grid grid-cols-3 gap-4 text-sm">
+        <div>
+          <p className="text-muted-foreground">Monthly installment</p>
+          <p className="text-lg font-bold">{schedule.monthlyInstallment.toLocaleString()}</p>
+          {finalPayment !== schedule.monthlyInstallment && (
+            <p className="text-xs text-muted-foreground">Final payment {finalPayment.toLocaleString()}</p>
+          )}
+        </div>
+        <div>
+          <p className="text-muted-foreground">Total interest</p>
+          <p className="text-lg font-bold">{schedule.totalInterest.toLocaleString()}</p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Total payable</p>
+          <p className="text-lg font-bold">{schedule.totalPayable.toLocaleString()}</p>
+        </div>
+      </div>
+
+      <div className="max-h-64 overflow-y-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Month</TableHead>
+              <TableHead>Payment</TableHead>
+              <TableHead>Principal</TableHead>
+              <TableHead>Interest</TableHead>
+              <TableHead>Balance</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {schedule.rows.map((row) => (
+              <TableRow key={row.month}>
+                <TableCell>{row.month}</TableCell>
+                <TableCell>{row.payment.toLocaleString()}</TableCell>
+                <TableCell>{row.principal.toLocaleString()}</TableCell>
+                <TableCell>{row.interest.toLocaleString()}</TableCell>
+                <TableCell>{row.balance.toLocaleString()}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  )
+}
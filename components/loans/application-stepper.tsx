@@ -0,0 +1,47 @@
+"use client"
+
+import { Check } from "lucide-react"
+
+interface ApplicationStepperProps {
+  steps: { id: string; label: string }[]
+  current: number
+  // Earlier steps can be revisited; later ones open only through Next
+  onSelect: (step: number) => void
+}
+
+export default function ApplicationStepper({ steps, current, onSelect }: ApplicationStepperProps) {
+  return (
+    <ol className="flex flex-wrap gap-y-2 mb-6">
+      {steps.map((step, index) => {
+        const isDone = index < current
+        const isCurrent = index === current
+
+        return (
+          <li key={step.id} className="flex items-center">
+            <button
+              type="button"
+              className="flex items-center gap-2 text-sm disabled:cursor-default"
+              onClick={() => onSelect(index)}
+              disabled={!isDone}
+              aria-current={isCurrent ? "step" : undefined}
+            >
+              <span
+                className={`flex h-7 w-7 items-center justify-center rounded-full border text-xs font-medium ${
+                  isDone
+                    ? "bg-green-600 border-green-600 text-white"
+                    : isCurrent
+                      ? "border-green-600 text-green-700"
+                      : "border-gray-300 text-gray-500"
+                }`}
+              >
+                {isDone ? <Check className="h-4 w-4" /> : index + 1}
+              </span>
+              <span className={isCurrent ? "font-medium" : "text-muted-foreground"}>{step.label}</span>
+            </button>
+            {index < steps.length - 1 && <span className="mx-3 h-px w-6 bg-gray-300" />}
+          </li>
+        )
+      })}
+    </ol>
+  )
+}
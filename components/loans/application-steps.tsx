@@ -0,0 +1,421 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
+import FieldError from "@/components/field-error"
+import AffordabilityCheck from "@/components/loans/affordability-check"
+import AmortizationSchedule from "@/components/loans/amortization-schedule"
+import LoanProductSummary from "@/components/loans/loan-product-summary"
+import type { FormValidation } from "@/hooks/use-form-validation"
+import type { AffordabilityAssessment } from "@/lib/affordability"
+import type { AmortizationResult } from "@/lib/amortization"
+import { getKycDocumentLabel } from "@/lib/kyc"
+import {
+  APPLICATION_STEPS,
+  EMPLOYMENT_STATUSES,
+  hasEmployer,
+  type ApplicationStepId,
+  type LoanApplicationDraft,
+} from "@/lib/loan-application"
+import { calculateProductFee, findProduct, type LoanProduct } from "@/lib/loan-products"
+
+interface StepProps {
+  draft: LoanApplicationDraft
+  onChange: (changes: Partial<LoanApplicationDraft>) => void
+  validation: FormValidation<LoanApplicationDraft>
+}
+
+type DraftField = keyof LoanApplicationDraft & string
+
+// Inline error wiring shared by every validated input on the steps
+const bindField = ({ draft, validation }: StepProps) => (field: DraftField) => ({
+  ...validation.fieldProps(field),
+  onBlur: () => validation.validateOne(field, draft),
+})
+
+export function PersonalStep(props: StepProps) {
+  const { draft, onChange, validation } = props
+  const field = bindField(props)
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div className="grid gap-2">
+        <Label htmlFor="fullName">Full name as it appears on bank account</Label>
+        <Input
+          id="fullName"
+          value={draft.fullName}
+          onChange={(e) => onChange({ fullName: e.target.value })}
+          {...field("fullName")}
+        />
+        <FieldError id="fullName-error" message={validation.errors.fullName} />
+      </div>
+
+      <div className="grid gap-2">
+        <Label htmlFor="dateOfBirth">Date of birth</Label>
+        <Input
+          id="dateOfBirth"
+          type="date"
+          value={draft.dateOfBirth}
+          onChange={(e) => onChange({ dateOfBirth: e.target.value })}
+          {...field("dateOfBirth")}
+        />
+        <FieldError id="dateOfBirth-error" message={validation.errors.dateOfBirth} />
+      </div>
+
+      <div className="grid gap-2">
+        <Label htmlFor="phone">Phone number</Label>
+        <Input
+          id="phone"
+          type="tel"
+          value={draft.phone}
+          onChange={(e) => onChange({ phone: e.target.value })}
+          {...field("phone")}
+        />
+        <FieldError id="phone-error" message={validation.errors.phone} />
+      </div>
+
+      <div className="grid gap-2 md:col-span-2">
+        <Label htmlFor="address">Home address</Label>
+        <Textarea
+          id="address"
+          rows={2}
+          value={draft.address}
+          onChange={(e) => onChange({ address: e.target.value })}
+          {...field("address")}
+        />
+        <FieldError id="address-error" message={validation.errors.address} />
+      </div>
+    </div>
+  )
+}
+
+export function EmploymentStep(props: StepProps) {
+  const { draft, onChange, validation } = props
+  const field = bindField(props)
+
+  return (
+    <div className="grid gap-4">
+      <div className="grid gap-2">
+        <Label htmlFor="employmentStatus">Employment status</Label>
+        <Select value={draft.employmentStatus} onValueChange={(value) => onChange({ employmentStatus: value })}>
+          <SelectTrigger id="employmentStatus" {...validation.fieldProps("employmentStatus")}>
+            <SelectValue placeholder="Select status" />
+          </SelectTrigger>
+          <SelectContent>
+            {EMPLOYMENT_STATUSES.map((status) => (
+              <SelectItem key={status} value={status}>
+                {status}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <FieldError id="employmentStatus-error" message={validation.errors.employmentStatus} />
+      </div>
+
+      {hasEmployer(draft.employmentStatus) && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="grid gap-2">
+            <Label htmlFor="employerName">
+              {draft.employmentStatus === "Self-employed" ? "Business name" : "Employer name"}
+            </Label>
+            <Input
+              id="employerName"
+              value={draft.employerName}
+              onChange={(e) => onChange({ employerName: e.target.value })}
+              {...field("employerName")}
+            />
+            <FieldError id="employerName-error" message={validation.errors.employerName} />
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="jobTitle">Job title (optional)</Label>
+            <Input id="jobTitle" value={draft.jobTitle} onChange={(e) => onChange({ jobTitle: e.target.value })} />
+          </div>
+
+          <div className="grid gap-2 md:col-span-2">
+            <Label htmlFor="employerAddress">
+              {draft.employmentStatus === "Self-employed" ? "Business address" : "Employer address"} (optional)
+            </Label>
+            <Input
+              id="employerAddress"
+              value={draft.employerAddress}
+              onChange={(e) => onChange({ employerAddress: e.target.value })}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export function FinancesStep(props: StepProps) {
+  const { draft, onChange, validation } = props
+  const field = bindField(props)
+  const income = Number(draft.monthlyIncome || 0) + Number(draft.otherIncome || 0)
+  const outgoings = Number(draft.monthlyExpenses || 0) + Number(draft.existingDebtPayments || 0)
+
+  return (
+    <div className="grid gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="grid gap-2">
+          <Label htmlFor="monthlyIncome">Monthly take-home income</Label>
+          <Input
+            id="monthlyIncome"
+            type="number"
+            min="0"
+            value={draft.monthlyIncome}
+            onChange={(e) => onChange({ monthlyIncome: e.target.value })}
+            {...field("monthlyIncome")}
+          />
+          <FieldError id="monthlyIncome-error" message={validation.errors.monthlyIncome} />
+        </div>
+
+        <div className="grid gap-2">
+          <Label htmlFor="otherIncome">Other monthly income (optional)</Label>
+          <Input
+            id="otherIncome"
+            type="number"
+            min="0"
+            value={draft.otherIncome}
+            onChange={(e) => onChange({ otherIncome: e.target.value })}
+            {...field("otherIncome")}
+          />
+          <FieldError id="otherIncome-error" message={validation.errors.otherIncome} />
+        </div>
+
+        <div className="grid gap-2">
+          <Label htmlFor="monthlyExpenses">Monthly living expenses</Label>
+          <Input
+            id="monthlyExpenses"
+            type="number"
+            min="0"
+            value={draft.monthlyExpenses}
+            onChange={(e) => onChange({ monthlyExpenses: e.target.value })}
+            {...field("monthlyExpenses")}
+          />
+          <FieldError id="monthlyExpenses-error" message={validation.errors.monthlyExpenses} />
+        </div>
+
+        <div className="grid gap-2">
+          <Label htmlFor="existingDebtPayments">Existing loan and card payments (optional)</Label>
+          <Input
+            id="existingDebtPayments"
+            type="number"
+            min="0"
+            value={draft.existingDebtPayments}
+            onChange={(e) => onChange({ existingDebtPayments: e.target.value })}
+            {...field("existingDebtPayments")}
+          />
+          <FieldError id="existingDebtPayments-error" message={validation.errors.existingDebtPayments} />
+        </div>
+      </div>
+
+      <p className="text-sm">
+        <span className="text-muted-foreground">Left over each month:</span>{" "}
+        <span className={income - outgoings < 0 ? "font-medium text-red-600" : "font-medium"}>
+          {(income - outgoings).toLocaleString()}
+        </span>
+      </p>
+    </div>
+  )
+}
+
+interface TermsStepProps extends StepProps {
+  products: LoanProduct[]
+  schedule: AmortizationResult | null
+  affordability: AffordabilityAssessment
+  // Largest affordable amount for the chosen product and tenure, once both are picked
+  maxAffordableAmount?: number
+}
+
+export function TermsStep(props: TermsStepProps) {
+  const { draft, onChange, validation, products, schedule, affordability, maxAffordableAmount } = props
+  const field = bindField(props)
+  const product = findProduct(products, draft.productId)
+
+  // Keep the tenure only when the newly chosen product offers it
+  const handleProductChange = (productId: string) => {
+    const next = findProduct(products, productId)
+    onChange({ productId, tenure: next?.tenures.includes(Number(draft.tenure)) ? draft.tenure : "" })
+  }
+
+  if (products.length === 0) {
+    return <p className="text-sm text-muted-foreground">No loan products are available right now. Please try later.</p>
+  }
+
+  return (
+    <div className="grid gap-4">
+      <div className="grid gap-2">
+        <Label htmlFor="productId">Loan product</Label>
+        <Select value={draft.productId} onValueChange={handleProductChange}>
+          <SelectTrigger id="productId" {...validation.fieldProps("productId")}>
+            <SelectValue placeholder="Choose a product" />
+          </SelectTrigger>
+          <SelectContent>
+            {products.map((option) => (
+              <SelectItem key={option._id} value={option._id}>
+                {option.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <FieldError id="productId-error" message={validation.errors.productId} />
+      </div>
+
+      {product && <LoanProductSummary product={product} amount={Number(draft.amount)} />}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="grid gap-2">
+          <Label htmlFor="amount">How much do you need?</Label>
+          <Input
+            id="amount"
+            type="number"
+            min={product?.minAmount}
+            max={product?.maxAmount}
+            value={draft.amount}
+            onChange={(e) => onChange({ amount: e.target.value })}
+            {...field("amount")}
+          />
+          <FieldError id="amount-error" message={validation.errors.amount} />
+        </div>
+
+        <div className="grid gap-2">
+          <Label htmlFor="tenure">Loan tenure</Label>
+          <Select value={draft.tenure} onValueChange={(value) => onChange({ tenure: value })} disabled={!product}>
+            <SelectTrigger id="tenure" {...validation.fieldProps("tenure")}>
+              <SelectValue placeholder={product ? "Choose a tenure" : "Choose a product first"} />
+            </SelectTrigger>
+            <SelectContent>
+              {product?.tenures.map((months) => (
+                <SelectItem key={months} value={String(months)}>
+                  {months} months
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <FieldError id="tenure-error" message={validation.errors.tenure} />
+        </div>
+      </div>
+
+      {product && (
+        <div>
+          <h3 className="font-medium">Estimated repayments</h3>
+          <p className="text-xs text-muted-foreground mb-2">
+            Based on the {product.name} rate of {product.interestRate}% a year. Your final rate is confirmed on
+            approval.
+          </p>
+          <AmortizationSchedule schedule={schedule} />
+        </div>
+      )}
+
+      <AffordabilityCheck assessment={affordability} maxAmount={maxAffordableAmount} />
+
+      <div className="grid gap-2">
+        <Label htmlFor="reason">Reason for loan</Label>
+        <Textarea
+          id="reason"
+          rows={4}
+          value={draft.reason}
+          onChange={(e) => onChange({ reason: e.target.value })}
+          {...field("reason")}
+        />
+        <FieldError id="reason-error" message={validation.errors.reason} />
+      </div>
+    </div>
+  )
+}
+
+interface ReviewStepProps {
+  draft: LoanApplicationDraft
+  product: LoanProduct | undefined
+  schedule: AmortizationResult | null
+  onEdit: (step: number) => void
+}
+
+const stepIndex = (id: ApplicationStepId) => APPLICATION_STEPS.findIndex((step) => step.id === id)
+
+const formatAmount = (value: string) => (value ? Number(value).toLocaleString() : "-")
+
+export function ReviewStep({ draft, product, schedule, onEdit }: ReviewStepProps) {
+  const sections: { step: ApplicationStepId; rows: [string, string][] }[] = [
+    {
+      step: "personal",
+      rows: [
+        ["Full name", draft.fullName],
+        ["Date of birth", draft.dateOfBirth ? new Date(draft.dateOfBirth).toLocaleDateString() : "-"],
+        ["Phone", draft.phone],
+        ["Address", draft.address],
+      ],
+    },
+    {
+      step: "employment",
+      rows: [
+        ["Status", draft.employmentStatus],
+        ...(hasEmployer(draft.employmentStatus)
+          ? ([
+              ["Employer", draft.employerName],
+              ["Job title", draft.jobTitle || "-"],
+              ["Address", draft.employerAddress || "-"],
+            ] as [string, string][])
+          : []),
+      ],
+    },
+    {
+      step: "finances",
+      rows: [
+        ["Monthly income", formatAmount(draft.monthlyIncome)],
+        ["Other income", formatAmount(draft.otherIncome)],
+        ["Living expenses", formatAmount(draft.monthlyExpenses)],
+        ["Existing debt payments", formatAmount(draft.existingDebtPayments)],
+      ],
+    },
+    {
+      step: "terms",
+      rows: [
+        ["Product", product?.name ?? "-"],
+        ["Amount", formatAmount(draft.amount)],
+        ["Tenure", draft.tenure ? `${draft.tenure} months` : "-"],
+        ["Monthly installment", schedule ? schedule.monthlyInstallment.toLocaleString() : "-"],
+        ["Total payable", schedule ? schedule.totalPayable.toLocaleString() : "-"],
+        ["Processing fee", product ? calculateProductFee(product, Number(draft.amount)).toLocaleString() : "-"],
+        ["Reason", draft.reason],
+      ],
+    },
+    {
+      step: "documents",
+      rows: draft.documents.map((document) => [getKycDocumentLabel(document.type), document.fileName]),
+    },
+  ]
+
+  return (
+    <div className="space-y-4">
+      {sections.map((section) => (
+        <div key={section.step} className="border rounded p-4">
+          <div className="flex justify-between items-center mb-2">
+            <h3 className="font-medium">{APPLICATION_STEPS[stepIndex(section.step)].label}</h3>
+            <Button
+              type="button"
+              variant="link"
+              size="sm"
+              className="px-0"
+              onClick={() => onEdit(stepIndex(section.step))}
+            >
+              Edit
+            </Button>
+          </div>
+          <dl className="grid grid-cols-1 md:grid-cols-2 gap-x-4 gap-y-1 text-sm">
+            {section.rows.map(([label, value], index) => (
+              <div key={`${label}-${index}`} className="flex gap-2">
+                <dt className="text-muted-foreground">{label}:</dt>
+                <dd className="break-words">{value || "-"}</dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,183 @@
+"use client"
+
+import { useState } from "react"
+import { CheckCircle2, Download, XCircle } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { useAuth } from "@/context/auth-context"
+import LoanDecisionDialog from "@/components/loans/loan-decision-dialog"
+import { hasPermission } from "@/lib/permissions"
+import {
+  LOAN_TRANSITIONS,
+  canTransition,
+  type LoanDecision,
+  type LoanStatus,
+  type LoanTransition,
+} from "@/lib/loan-status"
+
+export interface BulkLoan {
+  _id: string
+  status: LoanStatus
+  user: {
+    name: string
+  }
+}
+
+export interface BulkLoanResult {
+  loanId: string
+  borrower: string
+  success: boolean
+  message?: string
+}
+
+interface BulkLoanActionsProps {
+  selectedLoans: BulkLoan[]
+  matchingCount: number
+  allMatchingSelected: boolean
+  onSelectAllMatching: () => void | Promise<void>
+  onClearSelection: () => void
+  // Sends one status change per loan and reports how each one went
+  onBulkUpdate: (loans: BulkLoan[], newStatus: LoanStatus, decision?: LoanDecision) => Promise<BulkLoanResult[]>
+  onExport: () => void
+}
+
+const BULK_STATUSES: LoanStatus[] = ["verified", "approved", "rejected"]
+
+// Toolbar shown above a loan table while rows are selected
+export default function BulkLoanActions({
+  selectedLoans,
+  matchingCount,
+  allMatchingSelected,
+  onSelectAllMatching,
+  onClearSelection,
+  onBulkUpdate,
+  onExport,
+}: BulkLoanActionsProps) {
+  const { user } = useAuth()
+  const [pendingTransition, setPendingTransition] = useState<LoanTransition | null>(null)
+  const [isRunning, setIsRunning] = useState(false)
+  const [results, setResults] = useState<BulkLoanResult[] | null>(null)
+
+  const transitions = LOAN_TRANSITIONS.filter(
+    (transition) => BULK_STATUSES.includes(transition.to) && hasPermission(user?.role, transition.permission),
+  )
+
+  const runTransition = async (transition: LoanTransition, decision?: LoanDecision) => {
+    setIsRunning(true)
+
+    // Loans in a status the transition does not apply to are reported, not sent
+    const eligible = selectedLoans.filter((loan) => canTransition(loan.status, transition.to, user?.role))
+    const skipped: BulkLoanResult[] = selectedLoans
+      .filter((loan) => !eligible.includes(loan))
+      .map((loan) => ({
+        loanId: loan._id,
+        borrower: loan.user.name,
+        success: false,
+        message: `Cannot ${transition.label.toLowerCase()} a ${loan.status} loan`,
+      }))
+
+    try {
+      const sent = eligible.length > 0 ? await onBulkUpdate(eligible, transition.to, decision) : []
+      setResults([...sent, ...skipped])
+      // Statuses have changed, so the old selection no longer describes the rows
+      onClearSelection()
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
+  const handleClick = (transition: LoanTransition) => {
+    if (transition.inputs.length > 0) {
+      setPendingTransition(transition)
+    } else {
+      runTransition(transition)
+    }
+  }
+
+  const succeeded = results?.filter((result) => result.success).length || 0
+
+  return (
+    <>
+      {selectedLoans.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 mb-4 p-3 rounded border bg-gray-50">
+          <span className="text-sm font-medium">{selectedLoans.length} selected</span>
+          {!allMatchingSelected && (
+            <Button variant="link" size="sm" className="px-1" onClick={onSelectAllMatching}>
+              Select all {matchingCount} matching
+            </Button>
+          )}
+          <Button variant="link" size="sm" className="px-1" onClick={onClearSelection}>
+            Clear
+          </Button>
+
+          <div className="flex flex-wrap gap-2 ml-auto">
+            {transitions.map((transition) => (
+              <Button
+                key={transition.to}
+                variant="outline"
+                size="sm"
+                disabled={isRunning}
+                onClick={() => handleClick(transition)}
+              >
+                {transition.label} selected
+              </Button>
+            ))}
+            <Button variant="outline" size="sm" onClick={onExport}>
+              <Download className="mr-2 h-4 w-4" />
+              Export
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <LoanDecisionDialog
+        transition={pendingTransition}
+        onConfirm={(decision) => {
+          if (pendingTransition) runTransition(pendingTransition, decision)
+          setPendingTransition(null)
+        }}
+        onCancel={() => setPendingTransition(null)}
+      />
+
+      <Dialog open={!!results} onOpenChange={(open) => !open && setResults(null)}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Bulk update finished</DialogTitle>
+            <DialogDescription>
+              {succeeded} of {results?.length || 0} loans updated successfully
+            </DialogDescription>
+          </DialogHeader>
+
+          <ul className="space-y-2">
+            {results?.map((result) => (
+              <li key={result.loanId} className="flex items-start gap-2 text-sm">
+                {result.success ? (
+                  <CheckCircle2 className="h-4 w-4 mt-0.5 text-green-600" />
+                ) : (
+                  <XCircle className="h-4 w-4 mt-0.5 text-red-600" />
+                )}
+                <div>
+                  <p className="font-medium">
+                    {result.borrower} <span className="text-muted-foreground">({result.loanId.substring(0, 8)}...)</span>
+                  </p>
+                  {result.message && <p className="text-muted-foreground">{result.message}</p>}
+                </div>
+              </li>
+            ))}
+          </ul>
+
+          <DialogFooter>
+            <Button onClick={() => setResults(null)}>Close</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -0,0 +1,97 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { isDecisionComplete, type LoanDecision, type LoanTransition } from "@/lib/loan-status"
+
+interface LoanDecisionDialogProps {
+  transition: LoanTransition | null
+  onConfirm: (decision: LoanDecision) => void
+  onCancel: () => void
+}
+
+// Collects the reason code and note a status transition requires before it is sent
+export default function LoanDecisionDialog({ transition, onConfirm, onCancel }: LoanDecisionDialogProps) {
+  const [decision, setDecision] = useState<LoanDecision>({})
+
+  useEffect(() => {
+    setDecision({})
+  }, [transition])
+
+  const noteRequired = !!transition?.inputs.includes("note")
+
+  const handleConfirm = () => {
+    if (!transition || !isDecisionComplete(transition, decision)) return
+    onConfirm({ reasonCode: decision.reasonCode, note: decision.note?.trim() || undefined })
+  }
+
+  return (
+    <Dialog open={!!transition} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{transition?.label} loan</DialogTitle>
+          <DialogDescription>
+            This decision is recorded in the loan history and shown to the borrower.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-4">
+          {transition?.reasons && (
+            <div className="grid gap-2">
+              <Label htmlFor="reasonCode">{transition.reasonLabel || "Reason"}</Label>
+              <Select
+                value={decision.reasonCode || ""}
+                onValueChange={(value) => setDecision({ ...decision, reasonCode: value })}
+              >
+                <SelectTrigger id="reasonCode">
+                  <SelectValue placeholder="Select a reason" />
+                </SelectTrigger>
+                <SelectContent>
+                  {transition.reasons.map((reason) => (
+                    <SelectItem key={reason.value} value={reason.value}>
+                      {reason.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="grid gap-2">
+            <Label htmlFor="note">{noteRequired ? "Details" : "Details (optional)"}</Label>
+            <Textarea
+              id="note"
+              rows={4}
+              value={decision.note || ""}
+              onChange={(e) => setDecision({ ...decision, note: e.target.value })}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button
+            className="bg-green-600 hover:bg-green-700"
+            onClick={handleConfirm}
+            disabled={!transition || !isDecisionComplete(transition, decision)}
+          >
+            Confirm
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
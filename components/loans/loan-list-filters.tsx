@@ -0,0 +1,111 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import type { PaginatedQuery } from "@/hooks/use-paginated-query"
+
+export const LOAN_FILTER_KEYS = ["status", "from", "to", "minAmount", "maxAmount"]
+
+interface LoanListFiltersProps {
+  query: PaginatedQuery<any>
+}
+
+// Search, application date range and amount range for a paginated loan list.
+// The status filter is driven by the page's tabs.
+export default function LoanListFilters({ query }: LoanListFiltersProps) {
+  const [minAmount, setMinAmount] = useState(query.filters.minAmount || "")
+  const [maxAmount, setMaxAmount] = useState(query.filters.maxAmount || "")
+
+  // Follow the URL when it changes from outside, e.g. "Clear" or browser navigation
+  useEffect(() => {
+    setMinAmount(query.filters.minAmount || "")
+    setMaxAmount(query.filters.maxAmount || "")
+  }, [query.filters.minAmount, query.filters.maxAmount])
+
+  // Amounts are applied on blur or Enter so each keystroke does not refetch
+  const commitAmount = (key: "minAmount" | "maxAmount", value: string) => {
+    if ((query.filters[key] || "") !== value) {
+      query.setFilter(key, value || null)
+    }
+  }
+
+  const hasFilters = !!query.searchInput || ["from", "to", "minAmount", "maxAmount"].some((key) => query.filters[key])
+
+  return (
+    <div className="flex flex-wrap items-end gap-3 mb-4">
+      <div className="grid gap-1">
+        <Label htmlFor="loan-search" className="text-xs">
+          Search
+        </Label>
+        <Input
+          id="loan-search"
+          placeholder="Borrower, purpose..."
+          value={query.searchInput}
+          onChange={(e) => query.setSearchInput(e.target.value)}
+          className="w-56"
+        />
+      </div>
+      <div className="grid gap-1">
+        <Label htmlFor="loan-from" className="text-xs">
+          Applied from
+        </Label>
+        <Input
+          id="loan-from"
+          type="date"
+          value={query.filters.from || ""}
+          onChange={(e) => query.setFilter("from", e.target.value || null)}
+          className="w-40"
+        />
+      </div>
+      <div className="grid gap-1">
+        <Label htmlFor="loan-to" className="text-xs">
+          Applied to
+        </Label>
+        <Input
+          id="loan-to"
+          type="date"
+          value={query.filters.to || ""}
+          onChange={(e) => query.setFilter("to", e.target.value || null)}
+          className="w-40"
+        />
+      </div>
+      <div className="grid gap-1">
+        <Label htmlFor="loan-min-amount" className="text-xs">
+          Min amount
+        </Label>
+        <Input
+          id="loan-min-amount"
+          type="number"
+          min="0"
+          value={minAmount}
+          onChange={(e) => setMinAmount(e.target.value)}
+          onBlur={() => commitAmount("minAmount", minAmount)}
+          onKeyDown={(e) => e.key === "Enter" && commitAmount("minAmount", minAmount)}
+          className="w-32"
+        />
+      </div>
+      <div className="grid gap-1">
+        <Label htmlFor="loan-max-amount" className="text-xs">
+          Max amount
+        </Label>
+        <Input
+          id="loan-max-amount"
+          type="number"
+          min="0"
+          value={maxAmount}
+          onChange={(e) => setMaxAmount(e.target.value)}
+          onBlur={() => commitAmount("maxAmount", maxAmount)}
+          onKeyDown={(e) => e.key === "Enter" && commitAmount("maxAmount", maxAmount)}
+          className="w-32"
+        />
+      </div>
+      {hasFilters && (
+        <Button variant="ghost" size="sm" onClick={() => query.clearFilters(["status"])}>
+          Clear
+        </Button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,334 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
+import FieldError from "@/components/field-error"
+import { useFormValidation } from "@/hooks/use-form-validation"
+import { useToast } from "@/hooks/use-toast"
+import { INTEREST_METHODS, type InterestMethod } from "@/lib/amortization"
+import { EMPLOYMENT_STATUSES, MIN_APPLICANT_AGE } from "@/lib/loan-application"
+import type { LoanProduct, LoanProductInput } from "@/lib/loan-products"
+import { number, optional, required, type Rule, type Schema } from "@/lib/validation"
+import api from "@/utils/api"
+
+// Numbers are kept as typed until the product is saved
+interface LoanProductForm {
+  name: string
+  description: string
+  minAmount: string
+  maxAmount: string
+  tenures: string
+  interestRate: string
+  interestMethod: InterestMethod
+  processingFeePercent: string
+  flatFee: string
+  minMonthlyIncome: string
+  minAge: string
+  employmentStatuses: string[]
+  active: boolean
+}
+
+type NumericField =
+  | "minAmount"
+  | "maxAmount"
+  | "interestRate"
+  | "processingFeePercent"
+  | "flatFee"
+  | "minMonthlyIncome"
+  | "minAge"
+
+const EMPTY_FORM: LoanProductForm = {
+  name: "",
+  description: "",
+  minAmount: "",
+  maxAmount: "",
+  tenures: "",
+  interestRate: "",
+  interestMethod: "reducing-balance",
+  processingFeePercent: "",
+  flatFee: "",
+  minMonthlyIncome: "",
+  minAge: "",
+  employmentStatuses: [],
+  active: true,
+}
+
+// "3, 6, 12" as sorted unique months, or null when any entry is not a whole number of months
+const parseTenures = (value: string) => {
+  const months = value
+    .split(",")
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .map(Number)
+  if (months.length === 0 || months.some((month) => !Number.isInteger(month) || month < 1)) return null
+  return Array.from(new Set(months)).sort((a, b) => a - b)
+}
+
+const validTenures: Rule<LoanProductForm, string> = (value) =>
+  parseTenures(value) ? undefined : "List whole numbers of months separated by commas, e.g. 3, 6, 12"
+
+const LOAN_PRODUCT_SCHEMA: Schema<LoanProductForm> = {
+  name: [required("Name is required")],
+  minAmount: [required("Minimum amount is required"), number({ min: 1, label: "Minimum amount" })],
+  maxAmount: [
+    required("Maximum amount is required"),
+    number({ min: (form) => Number(form.minAmount) || undefined, label: "Maximum amount" }),
+  ],
+  tenures: [required("Add at least one tenure"), validTenures],
+  interestRate: [required("Interest rate is required"), number({ min: 0, max: 100, label: "Interest rate" })],
+  processingFeePercent: [optional([number({ min: 0, max: 100, label: "Processing fee" })])],
+  flatFee: [optional([number({ min: 0, label: "Flat fee" })])],
+  minMonthlyIncome: [optional([number({ min: 0, label: "Minimum income" })])],
+  minAge: [optional([number({ min: MIN_APPLICANT_AGE, integer: true, label: "Minimum age" })])],
+}
+
+const toForm = (product: LoanProduct): LoanProductForm => ({
+  name: product.name,
+  description: product.description,
+  minAmount: String(product.minAmount),
+  maxAmount: String(product.maxAmount),
+  tenures: product.tenures.join(", "),
+  interestRate: String(product.interestRate),
+  interestMethod: product.interestMethod,
+  processingFeePercent: product.processingFeePercent ? String(product.processingFeePercent) : "",
+  flatFee: product.flatFee ? String(product.flatFee) : "",
+  minMonthlyIncome: product.eligibility.minMonthlyIncome ? String(product.eligibility.minMonthlyIncome) : "",
+  minAge: product.eligibility.minAge ? String(product.eligibility.minAge) : "",
+  employmentStatuses: product.eligibility.employmentStatuses,
+  active: product.active,
+})
+
+const toInput = (form: LoanProductForm): LoanProductInput => ({
+  name: form.name.trim(),
+  description: form.description.trim(),
+  minAmount: Number(form.minAmount),
+  maxAmount: Number(form.maxAmount),
+  tenures: parseTenures(form.tenures) ?? [],
+  interestRate: Number(form.interestRate),
+  interestMethod: form.interestMethod,
+  processingFeePercent: Number(form.processingFeePercent || 0),
+  flatFee: Number(form.flatFee || 0),
+  eligibility: {
+    minMonthlyIncome: Number(form.minMonthlyIncome || 0),
+    minAge: Number(form.minAge || 0),
+    employmentStatuses: form.employmentStatuses,
+  },
+  active: form.active,
+})
+
+interface LoanProductDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // The product being edited, or null to create one
+  product: LoanProduct | null
+  onSaved: (product: LoanProduct) => void
+}
+
+export default function LoanProductDialog({ open, onOpenChange, product, onSaved }: LoanProductDialogProps) {
+  const [form, setForm] = useState<LoanProductForm>(EMPTY_FORM)
+  const [isSaving, setIsSaving] = useState(false)
+  const { errors, validateAll, validateOne, clearError, resetErrors, applyServerError, fieldProps } =
+    useFormValidation(LOAN_PRODUCT_SCHEMA)
+  const { toast } = useToast()
+
+  // Start from the product being edited each time the dialog opens
+  useEffect(() => {
+    if (!open) return
+    setForm(product ? toForm(product) : EMPTY_FORM)
+    resetErrors()
+  }, [open, product, resetErrors])
+
+  const updateField = <K extends keyof LoanProductForm>(field: K, value: LoanProductForm[K]) => {
+    setForm((current) => ({ ...current, [field]: value }))
+    clearError(field)
+  }
+
+  const toggleEmploymentStatus = (status: string) => {
+    updateField(
+      "employmentStatuses",
+      form.employmentStatuses.includes(status)
+        ? form.employmentStatuses.filter((item) => item !== status)
+        : [...form.employmentStatuses, status],
+    )
+  }
+
+  const handleSave = async () => {
+    if (!validateAll(form)) return
+    setIsSaving(true)
+
+    try {
+      const input = toInput(form)
+      const response = product
+        ? await api.put(`/api/admin/loan-products/${product._id}`, input)
+        : await api.post("/api/admin/loan-products", input)
+
+      onSaved(response.data.product)
+      onOpenChange(false)
+
+      toast({
+        title: product ? "Product Updated" : "Product Added",
+        description: `${input.name} has been saved`,
+      })
+    } catch (error: any) {
+      console.error("Error saving loan product:", error)
+      const message = applyServerError(error, "There was an error saving the product.")
+      if (message) {
+        toast({
+          variant: "destructive",
+          title: "Failed to save product",
+          description: message,
+        })
+      }
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const numberField = (field: NumericField, label: string) => (
+    <div className="grid gap-2">
+      <Label htmlFor={field}>{label}</Label>
+      <Input
+        id={field}
+        type="number"
+        min="0"
+        value={form[field]}
+        onChange={(e) => updateField(field, e.target.value)}
+        onBlur={() => validateOne(field, form)}
+        {...fieldProps(field)}
+      />
+      <FieldError id={`${field}-error`} message={errors[field]} />
+    </div>
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{product ? "Edit Loan Product" : "Add Loan Product"}</DialogTitle>
+          <DialogDescription>Limits, pricing and eligibility applied to every loan of this product</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-4">
+          <div className="grid gap-2">
+            <Label htmlFor="name">Name</Label>
+            <Input
+              id="name"
+              placeholder="Salary Advance"
+              value={form.name}
+              onChange={(e) => updateField("name", e.target.value)}
+              onBlur={() => validateOne("name", form)}
+              {...fieldProps("name")}
+            />
+            <FieldError id="name-error" message={errors.name} />
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="description">Description (optional)</Label>
+            <Textarea
+              id="description"
+              rows={2}
+              value={form.description}
+              onChange={(e) => updateField("description", e.target.value)}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {numberField("minAmount", "Minimum amount")}
+            {numberField("maxAmount", "Maximum amount")}
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="tenures">Allowed tenures (months)</Label>
+            <Input
+              id="tenures"
+              placeholder="3, 6, 12"
+              value={form.tenures}
+              onChange={(e) => updateField("tenures", e.target.value)}
+              onBlur={() => validateOne("tenures", form)}
+              {...fieldProps("tenures")}
+            />
+            <FieldError id="tenures-error" message={errors.tenures} />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {numberField("interestRate", "Interest rate (% a year)")}
+
+            <div className="grid gap-2">
+              <Label htmlFor="interestMethod">Interest method</Label>
+              <Select
+                value={form.interestMethod}
+                onValueChange={(value: InterestMethod) => updateField("interestMethod", value)}
+              >
+                <SelectTrigger id="interestMethod">
+                  <SelectValue placeholder="Select method" />
+                </SelectTrigger>
+                <SelectContent>
+                  {INTEREST_METHODS.map((method) => (
+                    <SelectItem key={method.value} value={method.value}>
+                      {method.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {numberField("processingFeePercent", "Processing fee (% of amount)")}
+            {numberField("flatFee", "Flat fee")}
+          </div>
+
+          <div className="border rounded p-4 space-y-4">
+            <h3 className="font-medium">Eligibility</h3>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {numberField("minMonthlyIncome", "Minimum monthly income")}
+              {numberField("minAge", "Minimum age")}
+            </div>
+
+            <div>
+              <p className="text-sm font-medium mb-2">Employment statuses</p>
+              <div className="grid grid-cols-2 gap-2">
+                {EMPLOYMENT_STATUSES.map((status) => (
+                  <label key={status} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={form.employmentStatuses.includes(status)}
+                      onCheckedChange={() => toggleEmploymentStatus(status)}
+                    />
+                    {status}
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground mt-2">Leave all unticked to accept any status.</p>
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox checked={form.active} onCheckedChange={(checked) => updateField("active", checked === true)} />
+            Offer this product for new loans
+          </label>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button className="bg-green-600 hover:bg-green-700" onClick={handleSave} disabled={isSaving}>
+            {isSaving ? "Saving..." : product ? "Save Changes" : "Add Product"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,47 @@
+"use client"
+
+import {
+  calculateProductFee,
+  describeFees,
+  formatTenures,
+  getInterestMethodLabel,
+  type LoanProduct,
+} from "@/lib/loan-products"
+
+interface LoanProductSummaryProps {
+  product: LoanProduct
+  // Shows the fee for this amount when it is within the product's limits
+  amount?: number
+}
+
+// The terms a product sets, shown beside the amount and tenure inputs
+export default function LoanProductSummary({ product, amount }: LoanProductSummaryProps) {
+  const hasFees = product.processingFeePercent > 0 || product.flatFee > 0
+  const fee =
+    amount !== undefined && amount >= product.minAmount && amount <= product.maxAmount
+      ? calculateProductFee(product, amount)
+      : null
+
+  return (
+    <div className="rounded bg-gray-50 px-4 py-3 text-sm space-y-1">
+      {product.description && <p className="text-muted-foreground">{product.description}</p>}
+      <p>
+        <span className="text-muted-foreground">Amount:</span> {product.minAmount.toLocaleString()} to{" "}
+        {product.maxAmount.toLocaleString()}
+      </p>
+      <p>
+        <span className="text-muted-foreground">Tenure:</span> {formatTenures(product.tenures)}
+      </p>
+      <p>
+        <span className="text-muted-foreground">Interest:</span> {product.interestRate}% a year,{" "}
+        {getInterestMethodLabel(product.interestMethod).toLowerCase()}
+      </p>
+      {hasFees && (
+        <p>
+          <span className="text-muted-foreground">Processing fee:</span>{" "}
+          {fee !== null ? fee.toLocaleString() : describeFees(product)}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,74 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { useAuth } from "@/context/auth-context"
+import LoanDecisionDialog from "@/components/loans/loan-decision-dialog"
+import {
+  getAvailableTransitions,
+  type LoanDecision,
+  type LoanStatus,
+  type LoanTransition,
+} from "@/lib/loan-status"
+
+interface LoanStatusActionsProps {
+  loanId: string
+  status: LoanStatus
+  onUpdateStatus: (loanId: string, newStatus: LoanStatus, decision?: LoanDecision) => void
+  size?: "sm" | "default"
+}
+
+const TRANSITION_BUTTON_CLASSES: Record<LoanStatus, string> = {
+  pending: "",
+  verified: "bg-blue-100 text-blue-800 hover:bg-blue-200",
+  approved: "bg-green-100 text-green-800 hover:bg-green-200",
+  disbursed: "bg-purple-100 text-purple-800 hover:bg-purple-200",
+  repaying: "bg-cyan-100 text-cyan-800 hover:bg-cyan-200",
+  completed: "bg-green-100 text-green-800 hover:bg-green-200",
+  defaulted: "bg-red-100 text-red-800 hover:bg-red-200",
+  rejected: "bg-red-100 text-red-800 hover:bg-red-200",
+}
+
+// Status transition buttons for every loan table, rendered from the loan status
+// state machine for the logged in user's role. Transitions that need a reason
+// open a decision dialog first.
+export default function LoanStatusActions({ loanId, status, onUpdateStatus, size = "sm" }: LoanStatusActionsProps) {
+  const { user } = useAuth()
+  const [pendingTransition, setPendingTransition] = useState<LoanTransition | null>(null)
+
+  const handleClick = (transition: LoanTransition) => {
+    if (transition.inputs.length > 0) {
+      setPendingTransition(transition)
+    } else {
+      onUpdateStatus(loanId, transition.to)
+    }
+  }
+
+  const handleConfirm = (decision: LoanDecision) => {
+    if (!pendingTransition) return
+    onUpdateStatus(loanId, pendingTransition.to, decision)
+    setPendingTransition(null)
+  }
+
+  return (
+    <>
+      {getAvailableTransitions(status, user?.role).map((transition) => (
+        <Button
+          key={transition.to}
+          variant="outline"
+          size={size}
+          className={TRANSITION_BUTTON_CLASSES[transition.to]}
+          onClick={() => handleClick(transition)}
+        >
+          {transition.label}
+        </Button>
+      ))}
+
+      <LoanDecisionDialog
+        transition={pendingTransition}
+        onConfirm={handleConfirm}
+        onCancel={() => setPendingTransition(null)}
+      />
+    </>
+  )
+}
@@ -0,0 +1,69 @@
+"use client"
+
+import { Badge } from "@/components/ui/badge"
+import type { UserRole } from "@/context/auth-context"
+import { getDecisionReasonLabel, type LoanStatus } from "@/lib/loan-status"
+
+export interface LoanStatusEvent {
+  status: LoanStatus
+  changedAt: string
+  changedBy?: {
+    _id: string
+    name: string
+    role?: UserRole
+  }
+  reasonCode?: string
+  note?: string
+}
+
+interface LoanStatusTimelineProps {
+  events: LoanStatusEvent[]
+  getStatusBadgeClass: (status: LoanStatus) => string
+  // Borrowers see when their loan moved and why it was declined, but not who handled it
+  variant?: "full" | "borrower"
+}
+
+// Statuses whose decision reason is shared with the borrower
+const BORROWER_VISIBLE_REASONS: LoanStatus[] = ["rejected", "defaulted"]
+
+export default function LoanStatusTimeline({ events, getStatusBadgeClass, variant = "full" }: LoanStatusTimelineProps) {
+  const sortedEvents = [...events].sort((a, b) => new Date(b.changedAt).getTime() - new Date(a.changedAt).getTime())
+
+  if (sortedEvents.length === 0) {
+    return <p className="text-sm text-muted-foreground">No status changes recorded yet</p>
+  }
+
+  return (
+    <ol className="relative border-l-2 border-gray-200 ml-2 space-y-4">
+      {sortedEvents.map((event, index) => {
+        const showReason = variant === "full" || BORROWER_VISIBLE_REASONS.includes(event.status)
+
+        return (
+          <li key={`${event.status}-${event.changedAt}-${index}`} className="ml-4">
+            <span className="absolute -left-[7px] mt-1.5 h-3 w-3 rounded-full border-2 border-white bg-gray-400" />
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge variant="outline" className={getStatusBadgeClass(event.status)}>
+                {event.status.toUpperCase()}
+              </Badge>
+              <time className="text-xs text-muted-foreground" dateTime={event.changedAt}>
+                {new Date(event.changedAt).toLocaleString()}
+              </time>
+            </div>
+
+            {variant === "full" && event.changedBy && (
+              <p className="text-sm mt-1">
+                By {event.changedBy.name}
+                {event.changedBy.role && <span className="text-muted-foreground"> ({event.changedBy.role})</span>}
+              </p>
+            )}
+
+            {showReason && event.reasonCode && (
+              <p className="text-sm font-medium">{getDecisionReasonLabel(event.status, event.reasonCode)}</p>
+            )}
+            {showReason && event.note && <p className="text-sm text-muted-foreground">{event.note}</p>}
+          </li>
+        )
+      })}
+    </ol>
+  )
+}
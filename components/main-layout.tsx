@@ -6,7 +6,19 @@ import { useState } from "react"
 import Link from "next/link"
 import { usePathname } from "next/navigation"
 import { useAuth } from "@/context/auth-context"
-import { Home, Users, CreditCard, DollarSign, Settings, LogOut, Bell, MessageSquare, ChevronDown, Menu } from "lucide-react"
+import {
+  Home,
+  Users,
+  CreditCard,
+  Package,
+  DollarSign,
+  Settings,
+  LogOut,
+  Bell,
+  MessageSquare,
+  ChevronDown,
+  Menu,
+} from "lucide-react"
 
 interface MainLayoutProps {
   children: React.ReactNode
@@ -56,6 +68,13 @@ export default function MainLayout({ children, title = "Dashboard" }: MainLayout
                 <CreditCard className="mr-2 h-5 w-5" />
                 <span>Loans</span>
               </Link>
+              <Link
+                href="/admin/loan-products"
+                className={`flex items-center p-2 rounded mb-1 ${isActive("/admin/loan-products")}`}
+              >
+                <Package className="mr-2 h-5 w-5" />
+                <span>Loan Products</span>
+              </Link>
               <Link
                 href="/admin/repayments"
                 className={`flex items-center p-2 rounded mb-1 ${isActive("/admin/repayments")}`}
@@ -116,7 +135,7 @@ export default function MainLayout({ children, title = "Dashboard" }: MainLayout
             </>
           )}
 
-          <button onClick={logout} className="flex items-center p-2 rounded mb-1 w-full text-left">
+          <button onClick={() => logout()} className="flex items-center p-2 rounded mb-1 w-full text-left">
             <LogOut className="mr-2 h-5 w-5" />
             <span>Logout</span>
           </button>
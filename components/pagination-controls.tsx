@@ -0,0 +1,63 @@
+"use client"
+
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { PAGE_SIZE_OPTIONS } from "@/hooks/use-paginated-query"
+
+interface PaginationControlsProps {
+  page: number
+  pageSize: number
+  total: number
+  onPageChange: (page: number) => void
+  onPageSizeChange: (pageSize: number) => void
+}
+
+export default function PaginationControls({
+  page,
+  pageSize,
+  total,
+  onPageChange,
+  onPageSizeChange,
+}: PaginationControlsProps) {
+  const totalPages = Math.max(Math.ceil(total / pageSize), 1)
+  const first = total === 0 ? 0 : (page - 1) * pageSize + 1
+  const last = Math.min(page * pageSize, total)
+
+  return (
+    <div className="flex justify-between items-center mt-4">
+      <div className="flex items-center gap-2">
+        <span>Items per page:</span>
+        <Select value={String(pageSize)} onValueChange={(value) => onPageSizeChange(Number(value))}>
+          <SelectTrigger className="w-20 h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PAGE_SIZE_OPTIONS.map((size) => (
+              <SelectItem key={size} value={String(size)}>
+                {size}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="flex items-center">
+        <span>
+          {first}-{last} of {total}
+        </span>
+        <button
+          className="ml-2 p-1 rounded border disabled:opacity-50"
+          disabled={page <= 1}
+          onClick={() => onPageChange(page - 1)}
+        >
+          <span className="material-icons">chevron_left</span>
+        </button>
+        <button
+          className="p-1 rounded border disabled:opacity-50"
+          disabled={page >= totalPages}
+          onClick={() => onPageChange(page + 1)}
+        >
+          <span className="material-icons">chevron_right</span>
+        </button>
+      </div>
+    </div>
+  )
+}
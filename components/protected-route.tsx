@@ -3,37 +3,38 @@
 import { useEffect } from "react"
 import { useRouter, usePathname } from "next/navigation"
 import { useAuth } from "@/context/auth-context"
-import type { UserRole } from "@/context/auth-context"
+import { getHomeRoute, type UserRole } from "@/context/auth-context"
+import { hasPermission, type Permission } from "@/lib/permissions"
 
 interface ProtectedRouteProps {
   children: React.ReactNode
   allowedRoles: UserRole[]
+  requiredPermission?: Permission
 }
 
-export default function ProtectedRoute({ children, allowedRoles }: ProtectedRouteProps) {
+export default function ProtectedRoute({ children, allowedRoles, requiredPermission }: ProtectedRouteProps) {
   const { user, isAuthenticated, isLoading } = useAuth()
   const router = useRouter()
   const pathname = usePathname()
 
+  const isAllowed =
+    !!user &&
+    allowedRoles.includes(user.role) &&
+    (!requiredPermission || hasPermission(user.role, requiredPermission))
+
   useEffect(() => {
     if (!isLoading) {
       if (!isAuthenticated) {
-        router.push(`/login?redirect=${pathname}`)
-      } else if (user && !allowedRoles.includes(user.role)) {
+        router.push(`/login?redirect=${encodeURIComponent(pathname)}`)
+      } else if (user && !isAllowed) {
         // Redirect based on user role
-        if (user.role === "admin") {
-          router.push("/admin/dashboard")
-        } else if (user.role === "verifier") {
-          router.push("/verifier/dashboard")
-        } else {
-          router.push("/dashboard")
-        }
+        router.push(getHomeRoute(user.role))
       }
     }
-  }, [isAuthenticated, isLoading, router, user, allowedRoles, pathname])
+  }, [isAuthenticated, isLoading, router, user, isAllowed, pathname])
 
   // Show loading state
-  if (isLoading || !isAuthenticated || (user && !allowedRoles.includes(user.role))) {
+  if (isLoading || !isAuthenticated || !isAllowed) {
     return (
       <div className="flex items-center justify-center min-h-screen">
         <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-green-500"></div>
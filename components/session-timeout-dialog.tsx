@@ -0,0 +1,102 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { useAuth } from "@/context/auth-context"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { IDLE_TIMEOUTS, IDLE_WARNING_MS, getLastActivity, markActivity } from "@/lib/session-timeout"
+
+const ACTIVITY_EVENTS = ["mousemove", "mousedown", "keydown", "scroll", "touchstart"] as const
+
+// Activity is written to localStorage at most this often
+const ACTIVITY_THROTTLE_MS = 5000
+
+export default function SessionTimeoutDialog() {
+  const { user, logout } = useAuth()
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null)
+  const isWarningRef = useRef(false)
+
+  useEffect(() => {
+    if (!user) return
+
+    const timeout = IDLE_TIMEOUTS[user.role]
+    let lastWrite = 0
+
+    const handleActivity = () => {
+      // Once the warning is up only the dialog buttons extend the session
+      if (isWarningRef.current) return
+      const now = Date.now()
+      if (now - lastWrite > ACTIVITY_THROTTLE_MS) {
+        lastWrite = now
+        markActivity()
+      }
+    }
+
+    const checkIdle = () => {
+      const remaining = timeout - (Date.now() - getLastActivity())
+
+      if (remaining <= 0) {
+        isWarningRef.current = false
+        setSecondsLeft(null)
+        logout("idle")
+      } else if (remaining <= IDLE_WARNING_MS) {
+        isWarningRef.current = true
+        setSecondsLeft(Math.ceil(remaining / 1000))
+      } else if (isWarningRef.current) {
+        // Extended from another tab
+        isWarningRef.current = false
+        setSecondsLeft(null)
+      }
+    }
+
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, handleActivity, { passive: true }))
+    const interval = window.setInterval(checkIdle, 1000)
+
+    return () => {
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, handleActivity))
+      window.clearInterval(interval)
+      isWarningRef.current = false
+      setSecondsLeft(null)
+    }
+  }, [user, logout])
+
+  const handleStaySignedIn = () => {
+    markActivity()
+    isWarningRef.current = false
+    setSecondsLeft(null)
+  }
+
+  return (
+    <Dialog
+      open={secondsLeft !== null}
+      onOpenChange={(open) => {
+        if (!open) handleStaySignedIn()
+      }}
+    >
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Are you still there?</DialogTitle>
+          <DialogDescription>
+            For your security you will be logged out in {secondsLeft} second{secondsLeft === 1 ? "" : "s"} due to
+            inactivity.
+          </DialogDescription>
+        </DialogHeader>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => logout()}>
+            Log out now
+          </Button>
+          <Button className="bg-green-600 hover:bg-green-700" onClick={handleStaySignedIn}>
+            Stay signed in
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,29 @@
+"use client"
+
+import { ArrowDown, ArrowUp, ArrowUpDown } from "lucide-react"
+import { TableHead } from "@/components/ui/table"
+import type { SortOrder } from "@/hooks/use-paginated-query"
+
+interface SortableTableHeadProps {
+  label: string
+  column: string
+  sortBy: string
+  sortOrder: SortOrder
+  onSort: (column: string) => void
+  className?: string
+}
+
+// Column header that sorts the table by `column` when clicked
+export default function SortableTableHead({ label, column, sortBy, sortOrder, onSort, className }: SortableTableHeadProps) {
+  const isActive = sortBy === column
+  const Icon = !isActive ? ArrowUpDown : sortOrder === "asc" ? ArrowUp : ArrowDown
+
+  return (
+    <TableHead className={className} aria-sort={isActive ? (sortOrder === "asc" ? "ascending" : "descending") : "none"}>
+      <button className="flex items-center gap-1 hover:text-foreground" onClick={() => onSort(column)}>
+        {label}
+        <Icon className={`h-3 w-3 ${isActive ? "" : "opacity-40"}`} />
+      </button>
+    </TableHead>
+  )
+}
@@ -1,9 +1,11 @@
 "use client"
 
-import { createContext, useState, useContext, useEffect, type ReactNode } from "react"
+import { createContext, useState, useContext, useEffect, useRef, useCallback, type ReactNode } from "react"
 import { useRouter } from "next/navigation"
 import { useToast } from "@/hooks/use-toast"
-import api from "@/utils/api"
+import api, { clearAuthTokens, setAuthTokens, subscribeToAuthEvents } from "@/utils/api"
+import { LOGOUT_REASON_MESSAGES, markActivity, type LogoutReason } from "@/lib/session-timeout"
+import { getSafeRedirect } from "@/lib/safe-redirect"
 
 // Define user roles
 export type UserRole = "user" | "admin" | "verifier"
@@ -16,13 +18,20 @@ export interface User {
   role: UserRole
 }
 
+// Landing page for each role after login
+export const getHomeRoute = (role: UserRole) => {
+  if (role === "admin") return "/admin/dashboard"
+  if (role === "verifier") return "/verifier/dashboard"
+  return "/dashboard"
+}
+
 // Auth context interface
 interface AuthContextType {
   user: User | null
   isLoading: boolean
-  login: (email: string, password: string) => Promise<void>
+  login: (email: string, password: string, redirect?: string) => Promise<void>
   register: (name: string, email: string, password: string) => Promise<void>
-  logout: () => void
+  logout: (reason?: LogoutReason) => void
   isAuthenticated: boolean
 }
 
@@ -41,6 +50,11 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
   const [isLoading, setIsLoading] = useState(true)
   const router = useRouter()
   const { toast } = useToast()
+  const userRef = useRef<User | null>(null)
+
+  useEffect(() => {
+    userRef.current = user
+  }, [user])
 
   // Check if user is already logged in
   useEffect(() => {
@@ -53,8 +67,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
           const response = await api.get('/api/users/profile')
           setUser(response.data.user)
         } catch (error) {
-          localStorage.removeItem("token")
-          delete api.defaults.headers.common['Authorization']
+          clearAuthTokens()
         }
       }
       
@@ -64,28 +77,77 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     checkAuth()
   }, [])
 
+  // Follow the API client when a token refresh fails and the session ends
+  useEffect(() => {
+    return subscribeToAuthEvents((event) => {
+      // A stored session that fails to restore on mount was never shown as logged in, so there is nothing to end
+      if (event.type === "expired" && userRef.current) {
+        setUser(null)
+        router.push("/login?reason=expired")
+
+        toast({
+          variant: "destructive",
+          title: "Session expired",
+          description: "Please log in again to continue.",
+        })
+      }
+    })
+  }, [router, toast])
+
+  // Keep every open tab on the same session. Other tabs write the token to
+  // localStorage on login, logout and refresh, which fires a storage event here.
+  useEffect(() => {
+    const handleStorage = async (event: StorageEvent) => {
+      if (event.key !== "token" && event.key !== null) return
+
+      const token = localStorage.getItem("token")
+
+      if (!token) {
+        delete api.defaults.headers.common['Authorization']
+        if (userRef.current) {
+          setUser(null)
+          router.push("/login")
+        }
+        return
+      }
+
+      api.defaults.headers.common['Authorization'] = `Bearer ${token}`
+
+      try {
+        const response = await api.get('/api/users/profile')
+        const nextUser: User = response.data.user
+        const previousUser = userRef.current
+        setUser(nextUser)
+
+        // A different account or role means the current page may no longer be allowed
+        if (!previousUser || previousUser.id !== nextUser.id || previousUser.role !== nextUser.role) {
+          router.push(getHomeRoute(nextUser.role))
+        }
+      } catch (error) {
+        console.error("Error syncing session from another tab:", error)
+      }
+    }
+
+    window.addEventListener("storage", handleStorage)
+    return () => window.removeEventListener("storage", handleStorage)
+  }, [router])
+
   // Login function
-  const login = async (email: string, password: string) => {
+  const login = async (email: string, password: string, redirect?: string) => {
     setIsLoading(true)
 
     try {
       const response = await api.post('/api/auth/login', { email, password })
-      const { token, user } = response.data
+      const { token, refreshToken, user } = response.data
       
-      // Store token and set default header
-      localStorage.setItem("token", token)
-      api.defaults.headers.common['Authorization'] = `Bearer ${token}`
+      // Store tokens and set default header
+      setAuthTokens(token, refreshToken)
+      markActivity()
       
       setUser(user)
 
-      // Redirect based on role
-      if (user.role === "admin") {
-        router.push("/admin/dashboard")
-      } else if (user.role === "verifier") {
-        router.push("/verifier/dashboard")
-      } else {
-        router.push("/dashboard")
-      }
+      // Return to the requested page when the role may open it, otherwise the role's home
+      router.push(getSafeRedirect(redirect, user.role) ?? getHomeRoute(user.role))
 
       toast({
         title: "Login successful",
@@ -133,18 +195,17 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     }
   }
 
-  // Logout function
-  const logout = () => {
-    localStorage.removeItem("token")
-    delete api.defaults.headers.common['Authorization']
+  // Logout function, with an optional reason shown on the login page
+  const logout = useCallback((reason?: LogoutReason) => {
+    clearAuthTokens()
     setUser(null)
-    router.push("/login")
+    router.push(reason ? `/login?reason=${reason}` : "/login")
 
     toast({
       title: "Logged out",
-      description: "You have been successfully logged out.",
+      description: reason ? LOGOUT_REASON_MESSAGES[reason] : "You have been successfully logged out.",
     })
-  }
+  }, [router, toast])
 
   return (
     <AuthContext.Provider
@@ -0,0 +1,115 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import { useDebouncedValue } from "@/hooks/use-debounced-value"
+import {
+  clearLocalDraft,
+  deleteServerDraft,
+  EMPTY_DRAFT,
+  fetchServerDraft,
+  loadLocalDraft,
+  newerDraft,
+  saveLocalDraft,
+  saveServerDraft,
+  type LoanApplicationDraft,
+} from "@/lib/loan-application"
+
+// "local" means the draft is only in this browser because the last server save failed
+export type DraftSaveStatus = "idle" | "saving" | "saved" | "local"
+
+// Wait for a pause in typing before saving to the server
+const SERVER_SAVE_DELAY = 1500
+
+/**
+ * The borrower's loan application draft. Every change is written to
+ * localStorage straight away and to the server once typing pauses, and the
+ * newer of the two copies is restored on load.
+ */
+export function useApplicationDraft(userId: string | undefined) {
+  const [draft, setDraft] = useState<LoanApplicationDraft>(EMPTY_DRAFT)
+  const [isLoaded, setIsLoaded] = useState(false)
+  const [resumedAt, setResumedAt] = useState<string | null>(null)
+  const [saveStatus, setSaveStatus] = useState<DraftSaveStatus>("idle")
+  // Nothing is saved until the borrower changes something, so opening the page does not create a draft
+  const isEditedRef = useRef(false)
+  // The server save in flight, which must land before the draft can be deleted
+  const pendingSaveRef = useRef<Promise<void> | null>(null)
+  const debouncedDraft = useDebouncedValue(draft, SERVER_SAVE_DELAY)
+
+  useEffect(() => {
+    if (!userId) return
+    let cancelled = false
+
+    const load = async () => {
+      const local = loadLocalDraft(userId)
+      let server: LoanApplicationDraft | null = null
+      try {
+        server = await fetchServerDraft()
+      } catch (error) {
+        console.error("Error loading application draft:", error)
+      }
+      if (cancelled) return
+
+      const restored = newerDraft(local, server)
+      if (restored) {
+        setDraft(restored)
+        setResumedAt(restored.updatedAt)
+      }
+      setIsLoaded(true)
+    }
+
+    load()
+    return () => {
+      cancelled = true
+    }
+  }, [userId])
+
+  useEffect(() => {
+    if (!userId || !isEditedRef.current) return
+    saveLocalDraft(userId, draft)
+    setSaveStatus("saving")
+  }, [userId, draft])
+
+  useEffect(() => {
+    if (!userId || !isEditedRef.current) return
+    let cancelled = false
+
+    pendingSaveRef.current = saveServerDraft(debouncedDraft)
+      .then(() => {
+        if (!cancelled) setSaveStatus("saved")
+      })
+      .catch((error) => {
+        console.error("Error saving application draft:", error)
+        if (!cancelled) setSaveStatus("local")
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [userId, debouncedDraft])
+
+  const updateDraft = useCallback((changes: Partial<LoanApplicationDraft>) => {
+    isEditedRef.current = true
+    setDraft((current) => ({ ...current, ...changes, updatedAt: new Date().toISOString() }))
+  }, [])
+
+  // Called after the application is submitted, or when the borrower starts over
+  const clearDraft = useCallback(async () => {
+    isEditedRef.current = false
+    setDraft(EMPTY_DRAFT)
+    setResumedAt(null)
+    setSaveStatus("idle")
+    if (!userId) return
+
+    clearLocalDraft(userId)
+    try {
+      // A save finishing after the delete would bring the draft back
+      await pendingSaveRef.current
+      await deleteServerDraft()
+    } catch (error) {
+      console.error("Error deleting application draft:", error)
+    }
+  }, [userId])
+
+  return { draft, updateDraft, clearDraft, isLoaded, resumedAt, saveStatus }
+}
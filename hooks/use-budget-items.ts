@@ -0,0 +1,113 @@
+"use client"
+
+import { useState, useEffect, useCallback, useRef } from "react"
+import {
+  type BudgetItem,
+  type BudgetItemInput,
+  type PendingBudgetOp,
+  type RejectedBudgetChange,
+  type SyncResult,
+  createLocalId,
+  loadSnapshot,
+  pullRemote,
+  queueOp,
+  saveSnapshot,
+  syncPending,
+} from "@/lib/budget-store"
+
+// Budget items for one user, persisted locally first and synced to the API
+export function useBudgetItems(userId: string | undefined) {
+  const [items, setItems] = useState<BudgetItem[]>([])
+  const [pendingCount, setPendingCount] = useState(0)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSyncing, setIsSyncing] = useState(false)
+  const [syncResult, setSyncResult] = useState<SyncResult | null>(null)
+  // Changes the server refused since the page last acknowledged them
+  const [rejectedChanges, setRejectedChanges] = useState<RejectedBudgetChange[]>([])
+  const isSyncingRef = useRef(false)
+
+  const refresh = useCallback(() => {
+    if (!userId) return
+    const snapshot = loadSnapshot(userId)
+    setItems(snapshot.items)
+    setPendingCount(snapshot.pending.length)
+  }, [userId])
+
+  const sync = useCallback(async () => {
+    if (!userId || isSyncingRef.current) return
+    isSyncingRef.current = true
+    setIsSyncing(true)
+    let result: SyncResult = "error"
+
+    try {
+      result = await syncPending(userId, (change) => setRejectedChanges((current) => [...current, change]))
+
+      // Only trust the server list once nothing local is waiting to be sent
+      if (result === "synced") {
+        result = await pullRemote(userId)
+      }
+
+      setSyncResult(result)
+    } finally {
+      isSyncingRef.current = false
+      setIsSyncing(false)
+      refresh()
+    }
+
+    // Changes queued while the server list was loading go out straight away
+    if (result === "synced" && loadSnapshot(userId).pending.length > 0) {
+      sync()
+    }
+  }, [userId, refresh])
+
+  useEffect(() => {
+    if (!userId) return
+
+    refresh()
+    setIsLoading(false)
+    sync()
+
+    window.addEventListener("online", sync)
+    return () => window.removeEventListener("online", sync)
+  }, [userId, refresh, sync])
+
+  const applyChange = (nextItems: (items: BudgetItem[]) => BudgetItem[], op: PendingBudgetOp) => {
+    if (!userId) return
+    const snapshot = loadSnapshot(userId)
+    saveSnapshot(userId, { items: nextItems(snapshot.items), pending: queueOp(snapshot.pending, op) })
+    refresh()
+    sync()
+  }
+
+  const addItem = (input: BudgetItemInput) => {
+    const item = { ...input, id: createLocalId() }
+    applyChange((current) => [...current, item], { type: "create", item })
+  }
+
+  const updateItem = (item: BudgetItem) => {
+    applyChange((current) => current.map((existing) => (existing.id === item.id ? item : existing)), {
+      type: "update",
+      item,
+    })
+  }
+
+  const deleteItem = (id: string) => {
+    applyChange((current) => current.filter((item) => item.id !== id), { type: "delete", id })
+  }
+
+  const clearRejectedChanges = useCallback(() => setRejectedChanges([]), [])
+
+  return {
+    items,
+    pendingCount,
+    isLoading,
+    isSyncing,
+    syncResult,
+    rejectedChanges,
+    clearRejectedChanges,
+    addItem,
+    updateItem,
+    deleteItem,
+    sync,
+  }
+}
@@ -0,0 +1,15 @@
+"use client"
+
+import { useEffect, useState } from "react"
+
+// The value after it has stopped changing for `delay` milliseconds
+export function useDebouncedValue<T>(value: T, delay = 300): T {
+  const [debouncedValue, setDebouncedValue] = useState(value)
+
+  useEffect(() => {
+    const timeout = window.setTimeout(() => setDebouncedValue(value), delay)
+    return () => window.clearTimeout(timeout)
+  }, [value, delay])
+
+  return debouncedValue
+}
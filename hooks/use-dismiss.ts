@@ -0,0 +1,24 @@
+"use client"
+
+import { useEffect, type RefObject } from "react"
+
+// Call `onDismiss` on a click outside `ref` or on Escape while `isOpen`
+export function useDismiss(ref: RefObject<HTMLElement>, isOpen: boolean, onDismiss: () => void) {
+  useEffect(() => {
+    if (!isOpen) return
+
+    const handlePointerDown = (event: MouseEvent) => {
+      if (!ref.current?.contains(event.target as Node)) onDismiss()
+    }
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onDismiss()
+    }
+
+    document.addEventListener("mousedown", handlePointerDown)
+    document.addEventListener("keydown", handleKeyDown)
+    return () => {
+      document.removeEventListener("mousedown", handlePointerDown)
+      document.removeEventListener("keydown", handleKeyDown)
+    }
+  }, [ref, isOpen, onDismiss])
+}
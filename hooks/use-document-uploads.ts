@@ -0,0 +1,135 @@
+"use client"
+
+import { useCallback, useState } from "react"
+import { KYC_DOCUMENT_REQUIREMENTS, validateKycFile, type KycDocument, type KycDocumentType } from "@/lib/kyc"
+import api from "@/utils/api"
+
+export type DocumentUploadStatus = "uploading" | "uploaded" | "failed"
+
+export interface DocumentUpload {
+  key: string
+  type: KycDocumentType
+  fileName: string
+  size: number
+  // Missing for documents restored from a saved draft, which are already uploaded
+  file?: File
+  status: DocumentUploadStatus
+  // 0 to 100
+  progress: number
+  error?: string
+  document?: KycDocument
+}
+
+let uploadCount = 0
+
+/**
+ * Upload KYC files as soon as they are picked, tracking progress per file.
+ * Uploaded documents are linked to the loan when the application is submitted
+ * with `documentIds`.
+ */
+export function useDocumentUploads() {
+  const [uploads, setUploads] = useState<DocumentUpload[]>([])
+
+  const updateUpload = useCallback((key: string, changes: Partial<DocumentUpload>) => {
+    setUploads((current) => current.map((upload) => (upload.key === key ? { ...upload, ...changes } : upload)))
+  }, [])
+
+  const startUpload = useCallback(
+    async ({ key, file, type }: DocumentUpload) => {
+      // Restored documents have no file to send
+      if (!file) return
+      updateUpload(key, { status: "uploading", progress: 0, error: undefined })
+
+      const formData = new FormData()
+      formData.append("file", file)
+      formData.append("type", type)
+
+      try {
+        const response = await api.post("/api/documents", formData, {
+          // The shared client defaults to JSON, which would serialize the FormData and drop the file
+          headers: { "Content-Type": "multipart/form-data" },
+          onUploadProgress: (event) => {
+            if (event.total) updateUpload(key, { progress: Math.round((event.loaded / event.total) * 100) })
+          },
+        })
+        updateUpload(key, { status: "uploaded", progress: 100, document: response.data.document })
+      } catch (error: any) {
+        console.error(`Error uploading ${file.name}:`, error)
+        updateUpload(key, { status: "failed", error: error.response?.data?.message || "Upload failed" })
+      }
+    },
+    [updateUpload],
+  )
+
+  // Returns a message for each file that was turned away
+  const addFiles = (type: KycDocumentType, files: File[]): string[] => {
+    const maxFiles = KYC_DOCUMENT_REQUIREMENTS.find((requirement) => requirement.type === type)?.maxFiles ?? 1
+    let remaining = maxFiles - uploads.filter((upload) => upload.type === type).length
+    const errors: string[] = []
+    const accepted: DocumentUpload[] = []
+
+    files.forEach((file) => {
+      const error = validateKycFile(file)
+      if (error) {
+        errors.push(`${file.name}: ${error}`)
+      } else if (remaining <= 0) {
+        errors.push(`${file.name}: No more than ${maxFiles} ${maxFiles === 1 ? "file" : "files"} for this document`)
+      } else {
+        remaining--
+        accepted.push({
+          key: `upload-${++uploadCount}`,
+          type,
+          fileName: file.name,
+          size: file.size,
+          file,
+          status: "uploading",
+          progress: 0,
+        })
+      }
+    })
+
+    setUploads((current) => [...current, ...accepted])
+    accepted.forEach(startUpload)
+    return errors
+  }
+
+  const retry = (key: string) => {
+    const upload = uploads.find((item) => item.key === key)
+    if (upload) startUpload(upload)
+  }
+
+  // Show documents uploaded in an earlier session, e.g. from a saved application draft
+  const restore = useCallback((documents: KycDocument[]) => {
+    setUploads(
+      documents.map((document) => ({
+        key: `upload-${++uploadCount}`,
+        type: document.type,
+        fileName: document.fileName,
+        size: document.size,
+        status: "uploaded",
+        progress: 100,
+        document,
+      })),
+    )
+  }, [])
+
+  const remove = (key: string) => {
+    setUploads((current) => current.filter((upload) => upload.key !== key))
+  }
+
+  const uploadedTypes = new Set(uploads.filter((upload) => upload.status === "uploaded").map((upload) => upload.type))
+
+  return {
+    uploads,
+    addFiles,
+    retry,
+    remove,
+    restore,
+    uploadedDocuments: uploads.flatMap((upload) => (upload.document ? [upload.document] : [])),
+    isUploading: uploads.some((upload) => upload.status === "uploading"),
+    documentIds: uploads.flatMap((upload) => (upload.document ? [upload.document._id] : [])),
+    missingTypes: KYC_DOCUMENT_REQUIREMENTS.filter((requirement) => !uploadedTypes.has(requirement.type)),
+  }
+}
+
+export type DocumentUploads = ReturnType<typeof useDocumentUploads>
@@ -0,0 +1,47 @@
+"use client"
+
+import { useCallback, useState } from "react"
+import { hasErrors, mapServerErrors, validate, validateField, type FieldErrors, type Schema } from "@/lib/validation"
+
+/**
+ * Inline errors for one form. Errors appear when the form is submitted or a
+ * field loses focus, and a field's error clears as soon as it is edited.
+ */
+export function useFormValidation<T>(schema: Schema<T>) {
+  const [errors, setErrors] = useState<FieldErrors<T>>({})
+
+  // Checks every field and shows what failed; true when the form can be sent
+  const validateAll = (values: T) => {
+    const next = validate(schema, values)
+    setErrors(next)
+    return !hasErrors(next)
+  }
+
+  const validateOne = (field: keyof T & string, values: T) => {
+    const message = validateField(schema, values, field)
+    setErrors((current) => ({ ...current, [field]: message }))
+  }
+
+  const clearError = useCallback((field: keyof T & string) => {
+    setErrors((current) => (current[field] ? { ...current, [field]: undefined } : current))
+  }, [])
+
+  const resetErrors = useCallback(() => setErrors({}), [])
+
+  // Puts a failed request's field errors next to their fields; returns whatever is left for a toast
+  const applyServerError = (error: unknown, fallback: string) => {
+    const { fieldErrors, message } = mapServerErrors<T>(error, Object.keys(schema) as (keyof T & string)[])
+    setErrors(fieldErrors)
+    return message ?? (hasErrors(fieldErrors) ? undefined : fallback)
+  }
+
+  // Accessibility wiring for an input; pairs with <FieldError id={`${id}-error`} />
+  const fieldProps = (field: keyof T & string, id: string = field) => ({
+    "aria-invalid": Boolean(errors[field]),
+    "aria-describedby": errors[field] ? `${id}-error` : undefined,
+  })
+
+  return { errors, setErrors, validateAll, validateOne, clearError, resetErrors, applyServerError, fieldProps }
+}
+
+export type FormValidation<T> = ReturnType<typeof useFormValidation<T>>
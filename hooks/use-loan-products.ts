@@ -0,0 +1,34 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { fetchLoanProducts, type LoanProduct } from "@/lib/loan-products"
+
+// Active loan products to choose from when creating or applying for a loan
+export function useLoanProducts() {
+  const [products, setProducts] = useState<LoanProduct[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const load = async () => {
+      try {
+        const loaded = await fetchLoanProducts()
+        if (!cancelled) setProducts(loaded.filter((product) => product.active))
+      } catch (err: any) {
+        console.error("Error fetching loan products:", err)
+        if (!cancelled) setError(err.response?.data?.message || "Failed to load loan products")
+      } finally {
+        if (!cancelled) setIsLoading(false)
+      }
+    }
+
+    load()
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  return { products, isLoading, error }
+}
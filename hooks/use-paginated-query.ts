@@ -0,0 +1,175 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { usePathname, useRouter, useSearchParams } from "next/navigation"
+import { useDebouncedValue } from "@/hooks/use-debounced-value"
+import api from "@/utils/api"
+
+export type SortOrder = "asc" | "desc"
+
+export const PAGE_SIZE_OPTIONS = [5, 10, 25, 50]
+
+interface PaginatedQueryOptions {
+  // Key of the list in the response body, e.g. "loans"
+  dataKey: string
+  // URL parameters forwarded to the API as filters, e.g. status or minAmount
+  filterKeys: string[]
+  defaultPageSize?: number
+  defaultSortBy?: string
+  defaultSortOrder?: SortOrder
+}
+
+/**
+ * Fetch one page of a list endpoint. Page, page size, sort, search and filters
+ * live in the URL so a view can be shared or bookmarked. The endpoint is sent
+ * `page`, `limit`, `sortBy`, `sortOrder`, `search` and the filter keys, and is
+ * expected to answer with the page of items under `dataKey` plus `total`.
+ */
+export function usePaginatedQuery<T>(endpoint: string, options: PaginatedQueryOptions) {
+  const { dataKey, filterKeys, defaultPageSize = 10, defaultSortBy = "", defaultSortOrder = "desc" } = options
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+
+  const page = Math.max(Number(searchParams.get("page")) || 1, 1)
+  // Only the offered sizes, so a hand-edited URL cannot ask for the whole table
+  const requestedPageSize = Number(searchParams.get("pageSize"))
+  const pageSize = PAGE_SIZE_OPTIONS.includes(requestedPageSize) ? requestedPageSize : defaultPageSize
+  const sortBy = searchParams.get("sortBy") || defaultSortBy
+  const sortOrder: SortOrder = searchParams.get("sortOrder") === "asc" ? "asc" : defaultSortOrder
+  const search = searchParams.get("search") || ""
+  const filterKeysKey = filterKeys.join(",")
+  const filters: Record<string, string> = {}
+  filterKeys.forEach((key) => {
+    const value = searchParams.get(key)
+    if (value) filters[key] = value
+  })
+
+  const [items, setItems] = useState<T[]>([])
+  const [total, setTotal] = useState(0)
+  const [meta, setMeta] = useState<Record<string, any>>({})
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [reloadKey, setReloadKey] = useState(0)
+  const [searchInput, setSearchInput] = useState(search)
+  const debouncedSearch = useDebouncedValue(searchInput)
+
+  const updateParams = useCallback(
+    (updates: Record<string, string | null>) => {
+      const next = new URLSearchParams(searchParams.toString())
+      Object.entries(updates).forEach(([key, value]) => {
+        if (value) {
+          next.set(key, value)
+        } else {
+          next.delete(key)
+        }
+      })
+      const queryString = next.toString()
+      router.replace(queryString ? `${pathname}?${queryString}` : pathname, { scroll: false })
+    },
+    [router, pathname, searchParams],
+  )
+
+  // Push the search box to the URL once typing pauses
+  useEffect(() => {
+    if (debouncedSearch !== search) {
+      updateParams({ search: debouncedSearch || null, page: null })
+    }
+    // Only the debounced input should trigger this, not URL changes from elsewhere
+  }, [debouncedSearch])
+
+  const buildParams = useCallback(() => {
+    const params: Record<string, string | number> = { page, limit: pageSize, sortOrder }
+    if (sortBy) params.sortBy = sortBy
+    if (search) params.search = search
+    filterKeysKey.split(",").forEach((key) => {
+      const value = searchParams.get(key)
+      if (key && value) params[key] = value
+    })
+    return params
+  }, [page, pageSize, sortBy, sortOrder, search, filterKeysKey, searchParams])
+
+  useEffect(() => {
+    const fetchPage = async () => {
+      setIsLoading(true)
+      setError(null)
+      try {
+        const response = await api.get(endpoint, { params: buildParams() })
+        const pageItems: T[] = response.data[dataKey] || []
+        setItems(pageItems)
+        setTotal(response.data.total ?? pageItems.length)
+        setMeta(response.data)
+      } catch (error: any) {
+        console.error(`Error fetching ${dataKey}:`, error)
+
+        let errorMessage = `Failed to load ${dataKey}`
+        if (error.response) {
+          errorMessage += `: ${error.response.status} - ${error.response.data?.message || "Unknown error"}`
+        } else if (error.request) {
+          errorMessage += ": No response received from server"
+        } else {
+          errorMessage += `: ${error.message}`
+        }
+
+        setError(errorMessage)
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchPage()
+  }, [endpoint, dataKey, buildParams, reloadKey])
+
+  // Every item matching the current filters, across all pages
+  const fetchAllMatching = useCallback(async (): Promise<T[]> => {
+    const response = await api.get(endpoint, { params: { ...buildParams(), page: 1, limit: Math.max(total, 1) } })
+    return response.data[dataKey] || []
+  }, [endpoint, dataKey, buildParams, total])
+
+  const setPage = (nextPage: number) => updateParams({ page: nextPage > 1 ? String(nextPage) : null })
+
+  const setPageSize = (nextPageSize: number) => updateParams({ pageSize: String(nextPageSize), page: null })
+
+  // Clicking the active column flips the order, a new column starts descending
+  const setSort = (column: string) => {
+    const nextOrder: SortOrder = column === sortBy && sortOrder === "desc" ? "asc" : "desc"
+    updateParams({ sortBy: column, sortOrder: nextOrder, page: null })
+  }
+
+  const setFilter = (key: string, value: string | null) => updateParams({ [key]: value, page: null })
+
+  // Reset search and filters, except any listed in `keep` such as a tab's status
+  const clearFilters = (keep: string[] = []) => {
+    setSearchInput("")
+    const keys = [...filterKeys, "search", "page"].filter((key) => !keep.includes(key))
+    updateParams(Object.fromEntries(keys.map((key) => [key, null])))
+  }
+
+  return {
+    items,
+    setItems,
+    total,
+    meta,
+    isLoading,
+    error,
+    page,
+    pageSize,
+    totalPages: Math.max(Math.ceil(total / pageSize), 1),
+    sortBy,
+    sortOrder,
+    filters,
+    // Changes whenever the set of matching rows changes, but not when paging
+    filterKey: JSON.stringify({ search, filters }),
+    searchInput,
+    setSearchInput,
+    setPage,
+    setPageSize,
+    setSort,
+    setFilter,
+    clearFilters,
+    fetchAllMatching,
+    refetch: () => setReloadKey((key) => key + 1),
+  }
+}
+
+export type PaginatedQuery<T> = ReturnType<typeof usePaginatedQuery<T>>
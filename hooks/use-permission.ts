@@ -0,0 +1,10 @@
+"use client"
+
+import { useAuth } from "@/context/auth-context"
+import { hasPermission, type Permission } from "@/lib/permissions"
+
+// Whether the logged in user may perform the given action
+export function usePermission(permission: Permission): boolean {
+  const { user } = useAuth()
+  return hasPermission(user?.role, permission)
+}
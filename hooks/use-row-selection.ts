@@ -0,0 +1,61 @@
+"use client"
+
+import { useEffect, useState } from "react"
+
+// Checkbox selection for a paginated table. Selected rows are kept across pages;
+// `pageRows` are the rows currently shown and refresh the stored copies.
+// Changing `resetKey` (for example when filters change) clears the selection.
+export function useRowSelection<T>(pageRows: T[], getId: (row: T) => string, resetKey?: string) {
+  const [selected, setSelected] = useState<Map<string, T>>(new Map())
+
+  useEffect(() => {
+    setSelected(new Map())
+  }, [resetKey])
+
+  const pageById = new Map(pageRows.map((row) => [getId(row), row]))
+  const selectedRows = Array.from(selected.entries()).map(([id, row]) => pageById.get(id) ?? row)
+
+  const isSelected = (id: string) => selected.has(id)
+
+  const toggle = (row: T) => {
+    setSelected((current) => {
+      const next = new Map(current)
+      const id = getId(row)
+      if (next.has(id)) {
+        next.delete(id)
+      } else {
+        next.set(id, row)
+      }
+      return next
+    })
+  }
+
+  const selectedOnPage = pageRows.filter((row) => selected.has(getId(row))).length
+  const allPageSelected = pageRows.length > 0 && selectedOnPage === pageRows.length
+  const somePageSelected = selectedOnPage > 0 && !allPageSelected
+
+  const togglePage = () => {
+    setSelected((current) => {
+      const next = new Map(current)
+      pageRows.forEach((row) => (allPageSelected ? next.delete(getId(row)) : next.set(getId(row), row)))
+      return next
+    })
+  }
+
+  const selectRows = (rows: T[]) => setSelected(new Map(rows.map((row) => [getId(row), row])))
+
+  const clear = () => setSelected(new Map())
+
+  return {
+    selectedRows,
+    isSelected,
+    toggle,
+    togglePage,
+    selectRows,
+    clear,
+    allPageSelected,
+    somePageSelected,
+  }
+}
+
+export type RowSelection<T> = ReturnType<typeof useRowSelection<T>>
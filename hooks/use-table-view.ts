@@ -0,0 +1,55 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useAuth } from "@/context/auth-context"
+import {
+  DEFAULT_TABLE_VIEW,
+  countActiveFilters,
+  loadTableView,
+  saveTableView,
+  type TableSortField,
+  type TableView,
+} from "@/lib/table-view"
+
+// Sort and filter state for a dashboard table, remembered per signed-in user
+export function useTableView(tableKey: string) {
+  const { user } = useAuth()
+  const userId = user?.id
+  const [view, setViewState] = useState<TableView>(DEFAULT_TABLE_VIEW)
+
+  useEffect(() => {
+    setViewState(userId ? loadTableView(userId, tableKey) : DEFAULT_TABLE_VIEW)
+  }, [userId, tableKey])
+
+  const setView = (changes: Partial<TableView>) => {
+    setViewState((current) => {
+      const next = { ...current, ...changes }
+      if (userId) saveTableView(userId, tableKey, next)
+      return next
+    })
+  }
+
+  // Picking the active field again flips the direction; a new field starts descending
+  const setSort = (field: TableSortField) => {
+    setView(
+      view.sortBy === field
+        ? { sortOrder: view.sortOrder === "asc" ? "desc" : "asc" }
+        : { sortBy: field, sortOrder: "desc" },
+    )
+  }
+
+  const resetFilters = () => {
+    const { statuses, from, to, minAmount, maxAmount } = DEFAULT_TABLE_VIEW
+    setView({ statuses, from, to, minAmount, maxAmount })
+  }
+
+  return {
+    view,
+    setView,
+    setSort,
+    resetFilters,
+    activeFilterCount: countActiveFilters(view),
+  }
+}
+
+export type TableViewState = ReturnType<typeof useTableView>
@@ -0,0 +1,32 @@
+import { email, optional, phone, required, sameAs, strongPassword, type Schema } from "@/lib/validation"
+
+// Fields every new account needs, whoever creates it
+export interface AccountForm {
+  name: string
+  email: string
+  password: string
+}
+
+export const accountSchema: Schema<AccountForm> = {
+  name: [required("Name is required")],
+  email: [required("Email is required"), email()],
+  password: [required("Password is required"), strongPassword()],
+}
+
+export interface RegistrationForm extends AccountForm {
+  confirmPassword: string
+}
+
+export const registrationSchema: Schema<RegistrationForm> = {
+  ...accountSchema,
+  confirmPassword: [required("Please confirm your password"), sameAs("password", "Passwords do not match")],
+}
+
+export interface BorrowerAccountForm extends AccountForm {
+  phone: string
+}
+
+export const borrowerAccountSchema: Schema<BorrowerAccountForm> = {
+  ...accountSchema,
+  phone: [optional([phone()])],
+}
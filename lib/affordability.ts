@@ -0,0 +1,182 @@
+import { calculateAmortization, type AmortizationResult } from "@/lib/amortization"
+import type { BudgetItem } from "@/lib/budget-store"
+import type { LoanProduct } from "@/lib/loan-products"
+
+// Lending policy, as shares of monthly income
+export const MAX_DEBT_TO_INCOME = 0.4
+export const STRETCHED_DEBT_TO_INCOME = 0.3
+// Left over after every payment, so one bad month does not cause a missed installment
+export const MIN_INCOME_BUFFER = 0.1
+
+// Budget entries in this category are existing debt rather than living costs
+const DEBT_CATEGORY = "Loan Repayment"
+const BUDGET_MONTHS = 3
+
+export interface BudgetSummary {
+  monthlyIncome: number
+  monthlyExpenses: number
+  monthlyDebtPayments: number
+  // Months in the window that have any entries
+  months: number
+}
+
+/**
+ * Monthly averages from the last three months of budget entries, over the
+ * months that have entries. Null when there are none to go on.
+ */
+export function summarizeBudget(items: BudgetItem[], today = new Date()): BudgetSummary | null {
+  const since = new Date(today.getFullYear(), today.getMonth() - (BUDGET_MONTHS - 1), 1)
+  const recent = items.filter((item) => {
+    const date = new Date(item.date)
+    return date >= since && date <= today
+  })
+  if (recent.length === 0) return null
+
+  const months = new Set(recent.map((item) => item.date.slice(0, 7))).size
+  const total = (predicate: (item: BudgetItem) => boolean) =>
+    recent.filter(predicate).reduce((sum, item) => sum + item.amount, 0) / months
+
+  return {
+    monthlyIncome: total((item) => item.type === "income"),
+    monthlyExpenses: total((item) => item.type === "expense" && item.category !== DEBT_CATEGORY),
+    monthlyDebtPayments: total((item) => item.type === "expense" && item.category === DEBT_CATEGORY),
+    months,
+  }
+}
+
+// Monthly figures the borrower declared on the application
+export interface DeclaredFinances {
+  monthlyIncome: number
+  monthlyExpenses: number
+  existingDebtPayments: number
+}
+
+export type AffordabilityStatus = "ok" | "warn" | "block"
+
+export interface AffordabilityAssessment {
+  status: AffordabilityStatus
+  // Figures the assessment used, after comparing the declaration with the budget
+  income: number
+  expenses: number
+  debtPayments: number
+  // The new loan's regular monthly payment
+  installment: number
+  // Final lump sum of an interest-only loan, or 0
+  balloon: number
+  // Debt payments including the new installment, as a share of income
+  debtToIncome: number
+  maxInstallment: number
+  // Why the status is what it is, and where the figures came from
+  reasons: string[]
+  notes: string[]
+}
+
+/**
+ * The regular monthly payment, and the final lump sum when the schedule ends in
+ * one. Interest-only loans repay the whole amount in their last month.
+ */
+export function getSchedulePayments(schedule: AmortizationResult) {
+  const finalPayment = schedule.rows[schedule.rows.length - 1].payment
+  // Other methods only differ in the last month by rounding
+  const balloon = schedule.rows.length > 1 && finalPayment > schedule.monthlyInstallment * 2 ? finalPayment : 0
+  return { installment: schedule.monthlyInstallment, balloon }
+}
+
+const percent = (share: number) => `${Math.round(share * 100)}%`
+const money = (value: number) => Math.round(value).toLocaleString()
+
+/**
+ * Check a monthly installment against the borrower's income and outgoings.
+ * Budget data only ever makes the check stricter: lower income or higher
+ * outgoings than declared are used in place of the declared figures. A final
+ * `balloon` payment is warned about rather than measured against income.
+ */
+export function assessAffordability(
+  declared: DeclaredFinances,
+  installment: number,
+  budget: BudgetSummary | null,
+  balloon = 0,
+): AffordabilityAssessment {
+  let income = declared.monthlyIncome
+  let expenses = declared.monthlyExpenses
+  let debtPayments = declared.existingDebtPayments
+  const notes: string[] = []
+
+  if (budget) {
+    const period = budget.months === 1 ? "this month" : `the last ${budget.months} months`
+    if (budget.monthlyIncome > 0 && budget.monthlyIncome < income) {
+      income = budget.monthlyIncome
+      notes.push(`Your budget shows income of ${money(income)} a month over ${period}, less than you declared.`)
+    }
+    if (budget.monthlyExpenses > expenses) {
+      expenses = budget.monthlyExpenses
+      notes.push(`Your budget shows expenses of ${money(expenses)} a month over ${period}, more than you declared.`)
+    }
+    if (budget.monthlyDebtPayments > debtPayments) {
+      debtPayments = budget.monthlyDebtPayments
+      notes.push(`Your budget shows loan repayments of ${money(debtPayments)} a month over ${period}.`)
+    }
+  }
+
+  const leftOver = income - expenses - debtPayments
+  const maxInstallment = Math.max(
+    0,
+    Math.min(income * MAX_DEBT_TO_INCOME - debtPayments, leftOver - income * MIN_INCOME_BUFFER),
+  )
+  const debtToIncome = income > 0 ? (debtPayments + installment) / income : Infinity
+  const reasons: string[] = []
+  let status: AffordabilityStatus = "ok"
+
+  if (debtToIncome > MAX_DEBT_TO_INCOME) {
+    status = "block"
+    reasons.push(
+      `All your loan payments would take ${income > 0 ? percent(debtToIncome) : "all"} of your income. ` +
+        `The limit is ${percent(MAX_DEBT_TO_INCOME)}.`,
+    )
+  }
+  if (installment > leftOver) {
+    status = "block"
+    reasons.push(`The installment of ${money(installment)} is more than the ${money(leftOver)} left after expenses.`)
+  }
+  if (status === "ok" && installment > maxInstallment) {
+    status = "warn"
+    reasons.push(`This would leave less than ${percent(MIN_INCOME_BUFFER)} of your income spare each month.`)
+  }
+  if (status === "ok" && debtToIncome > STRETCHED_DEBT_TO_INCOME) {
+    status = "warn"
+    reasons.push(
+      `Loan payments would take ${percent(debtToIncome)} of your income, above the ` +
+        `${percent(STRETCHED_DEBT_TO_INCOME)} we consider comfortable.`,
+    )
+  }
+  // The lump sum is rarely payable from income, so it is flagged rather than blocked
+  if (balloon > 0) {
+    if (status === "ok") status = "warn"
+    reasons.push(`The last payment of ${money(balloon)} repays the whole amount at once. Plan how you will cover it.`)
+  }
+
+  return {
+    status,
+    income,
+    expenses,
+    debtPayments,
+    installment,
+    balloon,
+    debtToIncome,
+    maxInstallment,
+    reasons,
+    notes,
+  }
+}
+
+/**
+ * The largest amount of a product whose installment over `tenure` fits within
+ * `maxInstallment`, rounded down to a hundred. Installments grow in step with the
+ * amount for every interest method, so one schedule gives the ratio.
+ */
+export function getMaxAffordableAmount(product: LoanProduct, tenure: number, maxInstallment: number) {
+  const schedule = calculateAmortization(product.maxAmount, product.interestRate, tenure, product.interestMethod)
+  if (!schedule || schedule.monthlyInstallment <= 0) return 0
+  const amount = Math.floor(((maxInstallment / schedule.monthlyInstallment) * product.maxAmount) / 100) * 100
+  return Math.min(amount, product.maxAmount)
+}
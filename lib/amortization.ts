@@ -0,0 +1,77 @@
+export type InterestMethod = "reducing-balance" | "flat-rate" | "interest-only"
+
+export const INTEREST_METHODS: { value: InterestMethod; label: string }[] = [
+  { value: "reducing-balance", label: "Reducing balance" },
+  { value: "flat-rate", label: "Flat rate" },
+  { value: "interest-only", label: "Interest only" },
+]
+
+export interface ScheduleRow {
+  month: number
+  payment: number
+  principal: number
+  interest: number
+  balance: number
+}
+
+export interface AmortizationResult {
+  rows: ScheduleRow[]
+  monthlyInstallment: number
+  totalInterest: number
+  totalPayable: number
+}
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+/**
+ * Build a month-by-month repayment schedule.
+ * `annualRate` is a percentage (15 means 15% a year) and `tenure` is in months.
+ * Returns null when the inputs cannot produce a schedule.
+ */
+export function calculateAmortization(
+  amount: number,
+  annualRate: number,
+  tenure: number,
+  method: InterestMethod = "reducing-balance",
+): AmortizationResult | null {
+  if (!(amount > 0) || !(tenure > 0) || !Number.isInteger(tenure) || !(annualRate >= 0)) {
+    return null
+  }
+
+  const monthlyRate = annualRate / 100 / 12
+  const rows: ScheduleRow[] = []
+  let balance = amount
+
+  for (let month = 1; month <= tenure; month++) {
+    const isLast = month === tenure
+    let interest: number
+    let principal: number
+
+    if (method === "flat-rate") {
+      // Interest is charged on the original amount for the whole term
+      interest = round(amount * monthlyRate)
+      principal = isLast ? balance : round(amount / tenure)
+    } else if (method === "interest-only") {
+      interest = round(balance * monthlyRate)
+      principal = isLast ? balance : 0
+    } else {
+      interest = round(balance * monthlyRate)
+      const installment =
+        monthlyRate === 0 ? amount / tenure : (amount * monthlyRate) / (1 - Math.pow(1 + monthlyRate, -tenure))
+      // The final month absorbs rounding drift so the balance ends at zero
+      principal = isLast ? balance : round(installment - interest)
+    }
+
+    balance = round(balance - principal)
+    rows.push({ month, payment: round(principal + interest), principal, interest, balance })
+  }
+
+  const totalPayable = round(rows.reduce((sum, row) => sum + row.payment, 0))
+
+  return {
+    rows,
+    monthlyInstallment: rows[0].payment,
+    totalInterest: round(totalPayable - amount),
+    totalPayable,
+  }
+}
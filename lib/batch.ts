@@ -0,0 +1,24 @@
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+/**
+ * Run `worker` over `items` a few at a time, pausing between batches so a large
+ * job does not flood the API. Results keep the order of `items`, and a failure
+ * in one item does not stop the others.
+ */
+export async function runInBatches<T, R>(
+  items: T[],
+  worker: (item: T) => Promise<R>,
+  options: { batchSize: number; delayMs: number; onProgress?: (done: number, total: number) => void },
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = []
+
+  for (let start = 0; start < items.length; start += options.batchSize) {
+    if (start > 0) await wait(options.delayMs)
+
+    const batch = items.slice(start, start + options.batchSize)
+    results.push(...(await Promise.allSettled(batch.map(worker))))
+    options.onProgress?.(results.length, items.length)
+  }
+
+  return results
+}
@@ -0,0 +1,149 @@
+import { parseCsv, type CsvColumn } from "@/lib/csv"
+import { isValidEmail, isValidPhone, passwordIssues } from "@/lib/validation"
+
+// Larger lists should be split so one import stays reviewable and quick to run
+export const MAX_IMPORT_ROWS = 500
+
+export const IMPORT_BATCH_SIZE = 5
+export const IMPORT_BATCH_DELAY_MS = 1000
+
+export const BORROWER_IMPORT_TEMPLATE = "name,email,phone,password\r\nJane Doe,jane.doe@example.com,+1 555 010 0000,\r\n"
+
+type ImportField = "name" | "email" | "phone" | "password"
+
+// Header spellings accepted for each field, compared case-insensitively
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  name: ["name", "full name", "fullname"],
+  email: ["email", "email address", "e-mail"],
+  phone: ["phone", "phone number", "mobile", "telephone"],
+  password: ["password"],
+}
+
+export interface BorrowerImportRow {
+  // Line in the file, with the header on line 1
+  line: number
+  name: string
+  email: string
+  phone: string
+  password: string
+  // True when the file left the password blank and one was generated
+  generatedPassword: boolean
+  errors: string[]
+}
+
+export type BorrowerImportOutcome = "created" | "failed" | "skipped"
+
+export interface BorrowerImportResult {
+  row: BorrowerImportRow
+  outcome: BorrowerImportOutcome
+  message: string
+}
+
+// Look-alike characters such as 0/O and 1/l are left out
+const PASSWORD_CHARACTER_SETS = ["ABCDEFGHJKLMNPQRSTUVWXYZ", "abcdefghijkmnopqrstuvwxyz", "23456789"]
+
+/**
+ * Random password for rows without one; the admin passes it on from the report.
+ * One character comes from each set so it always meets `passwordIssues`.
+ */
+export function generatePassword(length = 12) {
+  const all = PASSWORD_CHARACTER_SETS.join("")
+  const values = crypto.getRandomValues(new Uint32Array(length * 2))
+  const characters = Array.from({ length }, (_, i) => {
+    const set = PASSWORD_CHARACTER_SETS[i] ?? all
+    return set[values[i] % set.length]
+  })
+
+  // Shuffle so the guaranteed characters are not always at the front
+  for (let i = characters.length - 1; i > 0; i--) {
+    const j = values[length + i] % (i + 1)
+    const swapped = characters[i]
+    characters[i] = characters[j]
+    characters[j] = swapped
+  }
+  return characters.join("")
+}
+
+/**
+ * Read a borrower CSV and validate every row against the file itself and the
+ * emails already registered. Throws when the file as a whole cannot be used.
+ */
+export function parseBorrowerCsv(text: string, existingEmails: string[]): BorrowerImportRow[] {
+  const [header, ...records] = parseCsv(text)
+  if (!header) throw new Error("The file is empty.")
+
+  const normalizedHeader = header.map((cell) => cell.trim().toLowerCase())
+  const columnIndex = (field: ImportField) =>
+    normalizedHeader.findIndex((cell) => HEADER_ALIASES[field].includes(cell))
+
+  const indexes = {
+    name: columnIndex("name"),
+    email: columnIndex("email"),
+    phone: columnIndex("phone"),
+    password: columnIndex("password"),
+  }
+  if (indexes.name === -1 || indexes.email === -1) {
+    throw new Error("The header row must include name and email columns.")
+  }
+  if (records.length === 0) throw new Error("The file has no borrower rows.")
+  if (records.length > MAX_IMPORT_ROWS) {
+    throw new Error(`The file has ${records.length} rows; import at most ${MAX_IMPORT_ROWS} at a time.`)
+  }
+
+  const registered = new Set(existingEmails.map((email) => email.toLowerCase()))
+  const firstLineByEmail = new Map<string, number>()
+
+  return records.map((record, index) => {
+    const line = index + 2
+    const cell = (column: number) => (column === -1 ? "" : (record[column] ?? "").trim())
+    const name = cell(indexes.name)
+    const email = cell(indexes.email).toLowerCase()
+    const phone = cell(indexes.phone)
+    const password = cell(indexes.password)
+    const errors: string[] = []
+
+    if (!name) errors.push("Name is required")
+
+    if (!email) {
+      errors.push("Email is required")
+    } else if (!isValidEmail(email)) {
+      errors.push("Email is not valid")
+    } else if (registered.has(email)) {
+      errors.push("A user with this email already exists")
+    } else if (firstLineByEmail.has(email)) {
+      errors.push(`Duplicate of line ${firstLineByEmail.get(email)}`)
+    } else {
+      firstLineByEmail.set(email, line)
+    }
+
+    if (phone && !isValidPhone(phone)) errors.push("Phone must have 7 to 15 digits")
+
+    // Generated passwords are strong already; ones from the file get the same check as Add Borrower
+    const issues = password ? passwordIssues(password) : []
+    if (issues.length > 0) errors.push(`Password needs ${issues.join(", ")}`)
+
+    return {
+      line,
+      name,
+      email,
+      phone,
+      password: password || generatePassword(),
+      generatedPassword: !password,
+      errors,
+    }
+  })
+}
+
+export const BORROWER_IMPORT_REPORT_COLUMNS: CsvColumn<BorrowerImportResult>[] = [
+  { header: "Line", value: (result) => result.row.line },
+  { header: "Name", value: (result) => result.row.name },
+  { header: "Email", value: (result) => result.row.email },
+  { header: "Phone", value: (result) => result.row.phone },
+  { header: "Outcome", value: (result) => result.outcome },
+  { header: "Message", value: (result) => result.message },
+  // Only generated passwords are reported; ones supplied in the file are already known
+  {
+    header: "Temporary Password",
+    value: (result) => (result.outcome === "created" && result.row.generatedPassword ? result.row.password : ""),
+  },
+]
@@ -0,0 +1,165 @@
+import type { UserRole } from "@/context/auth-context"
+import type { KycDocument } from "@/lib/kyc"
+import type { LoanStatus } from "@/lib/loan-status"
+import type { RepaymentStatus } from "@/lib/status-badges"
+
+export type BorrowerAccountStatus = "active" | "inactive" | "blacklisted"
+export type BorrowerVerificationStatus = "pending" | "verified" | "rejected"
+
+export interface BorrowerStatusEvent {
+  status: BorrowerAccountStatus
+  changedAt: string
+  changedBy?: {
+    _id: string
+    name: string
+    role?: UserRole
+  }
+  reason?: string
+}
+
+export interface BorrowerNote {
+  _id: string
+  text: string
+  createdAt: string
+  author: {
+    _id: string
+    name: string
+    role?: UserRole
+  }
+}
+
+export interface BorrowerProfile {
+  _id: string
+  name: string
+  email: string
+  phone?: string
+  address?: string
+  createdAt: string
+  status: BorrowerAccountStatus
+  verificationStatus: BorrowerVerificationStatus
+  documents: KycDocument[]
+  statusHistory: BorrowerStatusEvent[]
+  notes: BorrowerNote[]
+}
+
+export interface BorrowerLoan {
+  _id: string
+  amount: number
+  reason: string
+  status: LoanStatus
+  applicationDate: string
+  amountPaid: number
+  totalAmountPayable: number
+}
+
+export interface BorrowerRepayment {
+  _id: string
+  loanId: string
+  amount: number
+  dueDate: string
+  paidDate: string | null
+  status: RepaymentStatus
+}
+
+export type RiskLevel = "low" | "medium" | "high"
+
+export interface BorrowerRiskSummary {
+  totalBorrowed: number
+  outstandingBalance: number
+  activeLoans: number
+  defaultedLoans: number
+  // Repayments due by today, plus any paid ahead of their due date
+  dueRepayments: number
+  onTimeRepayments: number
+  lateRepayments: number
+  overdueRepayments: number
+  // Share of due repayments paid by their due date, or null before the first one falls due
+  onTimeRate: number | null
+  riskLevel: RiskLevel
+}
+
+// Loans that still carry a balance the borrower owes
+const OUTSTANDING_STATUSES: LoanStatus[] = ["disbursed", "repaying", "defaulted"]
+// Loans that count towards total borrowed
+const FUNDED_STATUSES: LoanStatus[] = ["disbursed", "repaying", "completed", "defaulted"]
+
+export function summarizeBorrowerRisk(
+  loans: BorrowerLoan[],
+  repayments: BorrowerRepayment[],
+  today = new Date(),
+): BorrowerRiskSummary {
+  const funded = loans.filter((loan) => FUNDED_STATUSES.includes(loan.status))
+  const outstanding = loans.filter((loan) => OUTSTANDING_STATUSES.includes(loan.status))
+
+  const due = repayments.filter((repayment) => new Date(repayment.dueDate) <= today || repayment.status === "paid")
+  const isPaidOnTime = (repayment: BorrowerRepayment) =>
+    repayment.status === "paid" && !!repayment.paidDate && new Date(repayment.paidDate) <= new Date(repayment.dueDate)
+  const onTime = due.filter(isPaidOnTime)
+  const late = due.filter((repayment) => repayment.status === "paid" && !onTime.includes(repayment))
+  const overdue = due.filter((repayment) => repayment.status === "overdue")
+
+  const onTimeRate = due.length > 0 ? (onTime.length / due.length) * 100 : null
+  const defaultedLoans = loans.filter((loan) => loan.status === "defaulted").length
+
+  let riskLevel: RiskLevel = "low"
+  if (defaultedLoans > 0 || overdue.length >= 2 || (onTimeRate !== null && onTimeRate < 70)) {
+    riskLevel = "high"
+  } else if (overdue.length > 0 || (onTimeRate !== null && onTimeRate < 90)) {
+    riskLevel = "medium"
+  }
+
+  return {
+    totalBorrowed: funded.reduce((sum, loan) => sum + loan.amount, 0),
+    outstandingBalance: outstanding.reduce(
+      (sum, loan) => sum + Math.max(loan.totalAmountPayable - loan.amountPaid, 0),
+      0,
+    ),
+    activeLoans: loans.filter((loan) => loan.status === "disbursed" || loan.status === "repaying").length,
+    defaultedLoans,
+    dueRepayments: due.length,
+    onTimeRepayments: onTime.length,
+    lateRepayments: late.length,
+    overdueRepayments: overdue.length,
+    onTimeRate,
+    riskLevel,
+  }
+}
+
+export const getRiskLevelBadgeClass = (level: RiskLevel) => {
+  switch (level) {
+    case "low":
+      return "bg-green-100 text-green-800"
+    case "medium":
+      return "bg-yellow-100 text-yellow-800"
+    case "high":
+      return "bg-red-100 text-red-800"
+    default:
+      return "bg-gray-100 text-gray-800"
+  }
+}
+
+export const getAccountStatusBadgeClass = (status: BorrowerAccountStatus) => {
+  switch (status) {
+    case "active":
+      return "bg-green-100 text-green-800"
+    case "inactive":
+      return "bg-yellow-100 text-yellow-800"
+    case "blacklisted":
+      return "bg-red-100 text-red-800"
+    default:
+      return "bg-gray-100 text-gray-800"
+  }
+}
+
+export const getVerificationStatusBadgeClass = (status: BorrowerVerificationStatus) => {
+  switch (status) {
+    case "pending":
+      return "bg-yellow-100 text-yellow-800"
+    case "verified":
+      return "bg-green-100 text-green-800"
+    case "rejected":
+      return "bg-red-100 text-red-800"
+    default:
+      return "bg-gray-100 text-gray-800"
+  }
+}
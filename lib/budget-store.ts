@@ -0,0 +1,206 @@
+import api from "@/utils/api"
+
+export interface BudgetItem {
+  id: string
+  category: string
+  amount: number
+  type: "income" | "expense"
+  date: string
+  description: string
+}
+
+export type BudgetItemInput = Omit<BudgetItem, "id">
+
+// Changes made while offline, replayed against the API in order
+export type PendingBudgetOp =
+  | { type: "create"; item: BudgetItem }
+  | { type: "update"; item: BudgetItem }
+  | { type: "delete"; id: string }
+
+interface BudgetSnapshot {
+  items: BudgetItem[]
+  pending: PendingBudgetOp[]
+}
+
+export type SyncResult = "synced" | "offline" | "error"
+
+// A queued change the server refused, dropped so later changes can still sync
+export interface RejectedBudgetChange {
+  op: PendingBudgetOp
+  message: string
+}
+
+const LOCAL_ID_PREFIX = "local-"
+
+const storageKey = (userId: string) => `budget:${userId}`
+
+export const isLocalId = (id: string) => id.startsWith(LOCAL_ID_PREFIX)
+
+export const createLocalId = () => `${LOCAL_ID_PREFIX}${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+
+export function loadSnapshot(userId: string): BudgetSnapshot {
+  if (typeof window === "undefined") {
+    return { items: [], pending: [] }
+  }
+
+  try {
+    const raw = localStorage.getItem(storageKey(userId))
+    if (!raw) {
+      return { items: [], pending: [] }
+    }
+    const parsed = JSON.parse(raw)
+    return { items: parsed.items || [], pending: parsed.pending || [] }
+  } catch {
+    return { items: [], pending: [] }
+  }
+}
+
+export function saveSnapshot(userId: string, snapshot: BudgetSnapshot) {
+  if (typeof window === "undefined") return
+  localStorage.setItem(storageKey(userId), JSON.stringify(snapshot))
+}
+
+// Queue a change, collapsing it into earlier unsynced changes to the same item
+export function queueOp(pending: PendingBudgetOp[], op: PendingBudgetOp): PendingBudgetOp[] {
+  if (op.type === "create") {
+    return [...pending, op]
+  }
+
+  const id = op.type === "delete" ? op.id : op.item.id
+  const queuedCreate = pending.find((p) => p.type === "create" && p.item.id === id)
+
+  if (queuedCreate) {
+    const others = pending.filter((p) => !(p.type !== "delete" && p.item.id === id))
+    // Deleting an item the server never saw needs no request at all
+    return op.type === "delete" ? others : [...others, { type: "create", item: op.item }]
+  }
+
+  const others = pending.filter((p) => !(p.type === "update" && p.item.id === id))
+  return [...others, op]
+}
+
+const toBudgetItem = (raw: any): BudgetItem => ({
+  id: raw._id || raw.id,
+  category: raw.category,
+  amount: Number(raw.amount),
+  type: raw.type,
+  date: typeof raw.date === "string" ? raw.date.split("T")[0] : raw.date,
+  description: raw.description || "",
+})
+
+// Validation-type refusals, which would fail the same way on every retry
+const REFUSED_STATUSES = [400, 409, 422]
+
+// Anything else is retried later: no network, server errors, an expired session, rate
+// limits, or a 404 from a budget endpoint the API does not have yet
+const isOfflineError = (error: any) => !REFUSED_STATUSES.includes(error.response?.status)
+
+const describeOp = (op: PendingBudgetOp) =>
+  op.type === "delete" ? "Deleting a budget item" : `Saving "${op.item.category}" (${op.item.amount.toLocaleString()})`
+
+const sameOp = (a: PendingBudgetOp, b: PendingBudgetOp) => JSON.stringify(a) === JSON.stringify(b)
+
+// Fold a successfully sent op into the latest snapshot. The user may have
+// edited or deleted the item while the request was in flight, so the queue
+// is reconciled rather than blindly shifted.
+function settleOp(snapshot: BudgetSnapshot, op: PendingBudgetOp, saved: BudgetItem | null): BudgetSnapshot {
+  let { items, pending } = snapshot
+
+  if (op.type === "create" && saved) {
+    const localId = op.item.id
+    const index = pending.findIndex((p) => p.type === "create" && p.item.id === localId)
+
+    if (index === -1) {
+      // Deleted locally while it was being created
+      return { items, pending: [...pending, { type: "delete", id: saved.id }] }
+    }
+
+    const queued = pending[index] as Extract<PendingBudgetOp, { type: "create" }>
+    if (sameOp(queued, op)) {
+      pending = pending.filter((_, i) => i !== index)
+      items = items.map((item) => (item.id === localId ? saved : item))
+    } else {
+      // Edited while in flight: send the newer values as an update
+      const item = { ...queued.item, id: saved.id }
+      pending = pending.map((p, i) => (i === index ? { type: "update", item } : p))
+      items = items.map((existing) => (existing.id === localId ? item : existing))
+    }
+    return { items, pending }
+  }
+
+  const index = pending.findIndex((p) => sameOp(p, op))
+  if (index !== -1) {
+    pending = pending.filter((_, i) => i !== index)
+    if (saved) {
+      items = items.map((item) => (item.id === saved.id ? saved : item))
+    }
+  }
+  return { items, pending }
+}
+
+/**
+ * Replay queued changes for a user against the API, oldest first. Sync stops
+ * at the first change that cannot reach the server and retries it next time.
+ * Changes the server refuses are dropped and passed to `onRejected`.
+ */
+export async function syncPending(
+  userId: string,
+  onRejected: (change: RejectedBudgetChange) => void = () => {},
+): Promise<SyncResult> {
+  for (;;) {
+    const [op] = loadSnapshot(userId).pending
+    if (!op) return "synced"
+
+    let saved: BudgetItem | null = null
+
+    try {
+      if (op.type === "create") {
+        const { id, ...data } = op.item
+        const response = await api.post("/api/budget", data)
+        saved = toBudgetItem(response.data.item)
+      } else if (op.type === "update") {
+        const { id, ...data } = op.item
+        const response = await api.put(`/api/budget/${id}`, data)
+        saved = toBudgetItem(response.data.item)
+      } else {
+        await api.delete(`/api/budget/${op.id}`)
+      }
+    } catch (error: any) {
+      console.error("Error syncing budget item:", error)
+
+      // Updates and deletes carry ids the server issued, so a 404 means the item
+      // was already deleted there and there is nothing left to change
+      if (op.type !== "create" && error.response?.status === 404) {
+        saveSnapshot(userId, settleOp(loadSnapshot(userId), op, null))
+        continue
+      }
+
+      if (isOfflineError(error)) return "offline"
+
+      // Retrying a refused change would block the queue behind it for good
+      saveSnapshot(userId, settleOp(loadSnapshot(userId), op, null))
+      onRejected({
+        op,
+        message: `${describeOp(op)} failed: ${error.response.data?.message || "the server rejected the change"}`,
+      })
+      continue
+    }
+
+    saveSnapshot(userId, settleOp(loadSnapshot(userId), op, saved))
+  }
+}
+
+// Replace the local copy with the server list, unless local changes are still queued
+export async function pullRemote(userId: string): Promise<SyncResult> {
+  try {
+    const response = await api.get("/api/budget")
+    const items: BudgetItem[] = (response.data.items || []).map(toBudgetItem)
+    if (loadSnapshot(userId).pending.length === 0) {
+      saveSnapshot(userId, { items, pending: [] })
+    }
+    return "synced"
+  } catch (error: any) {
+    console.error("Error fetching budget items:", error)
+    return isOfflineError(error) ? "offline" : "error"
+  }
+}
@@ -0,0 +1,88 @@
+export interface CsvColumn<T> {
+  header: string
+  value: (row: T) => string | number | null | undefined
+}
+
+// Spreadsheets run text starting with these as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+const escapeCell = (value: string | number | null | undefined, delimiter = ",") => {
+  let text = value === null || value === undefined ? "" : String(value)
+  // A leading quote keeps user-entered text such as names or notes from being run as a formula
+  if (typeof value === "string" && FORMULA_PREFIX.test(text)) text = `'${text}`
+  return text.includes(delimiter) || /["\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+// Locales that write decimals with a comma expect `;` between cells instead
+export function toCsv<T>(rows: T[], columns: CsvColumn<T>[], delimiter = ","): string {
+  const lines = [
+    columns.map((column) => escapeCell(column.header, delimiter)).join(delimiter),
+    ...rows.map((row) => columns.map((column) => escapeCell(column.value(row), delimiter)).join(delimiter)),
+  ]
+  return lines.join("\r\n")
+}
+
+// Split CSV text into rows of cells. Handles quoted cells, escaped quotes and
+// line breaks inside quotes; the delimiter is guessed from the first line.
+export function parseCsv(text: string): string[][] {
+  const source = text.replace(/^\uFEFF/, "")
+  const firstLine = source.split(/\r?\n/, 1)[0]
+  const delimiter = (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ";" : ","
+
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ""
+  let inQuotes = false
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i]
+
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === delimiter) {
+      row.push(cell)
+      cell = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[i + 1] === "\n") i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ""
+    } else {
+      cell += char
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+
+  // Blank lines carry no data
+  return rows.filter((cells) => cells.some((value) => value.trim() !== ""))
+}
+
+// Trigger a browser download of generated content
+export function downloadFile(filename: string, content: BlobPart, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement("a")
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  URL.revokeObjectURL(url)
+}
+
+export function downloadCsv<T>(filename: string, rows: T[], columns: CsvColumn<T>[]) {
+  downloadFile(filename, toCsv(rows, columns), "text/csv;charset=utf-8")
+}
@@ -0,0 +1,78 @@
+import { downloadFile, toCsv } from "@/lib/csv"
+import { toXlsx, XLSX_MIME_TYPE, type XlsxCellType } from "@/lib/xlsx"
+
+export type ExportFormat = "csv" | "xlsx"
+
+export interface ExportColumn<T> {
+  id: string
+  header: string
+  // "amount" has two decimals, "percent" holds whole percentages such as 12.5
+  type: XlsxCellType
+  value: (row: T) => string | number | Date | null | undefined
+}
+
+export interface ExportOptions {
+  format: ExportFormat
+  // BCP 47 tag for CSV number and date formatting; undefined uses the browser's locale
+  locale?: string
+  columnIds: string[]
+}
+
+export const EXPORT_LOCALES = [
+  { value: "en-US", label: "English (US)" },
+  { value: "en-GB", label: "English (UK)" },
+  { value: "fr-FR", label: "French" },
+  { value: "de-DE", label: "German" },
+]
+
+// CSV has no cell types, so values are written the way the chosen locale shows them
+function formatCsvValue(value: string | number | Date | null | undefined, type: XlsxCellType, locale?: string) {
+  if (value === null || value === undefined) return ""
+
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? "" : new Intl.DateTimeFormat(locale).format(value)
+  }
+
+  if (typeof value !== "number") return value
+
+  switch (type) {
+    case "amount":
+      return new Intl.NumberFormat(locale, { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(value)
+    case "percent":
+      return new Intl.NumberFormat(locale, { style: "percent", maximumFractionDigits: 2 }).format(value / 100)
+    case "number":
+      return new Intl.NumberFormat(locale).format(value)
+    default:
+      return String(value)
+  }
+}
+
+const usesDecimalComma = (locale?: string) => new Intl.NumberFormat(locale).format(1.5).includes(",")
+
+// Convert an API date string for export, leaving missing dates empty
+export const toExportDate = (value: string | null | undefined) => (value ? new Date(value) : null)
+
+export function exportRows<T>(filename: string, rows: T[], columns: ExportColumn<T>[], options: ExportOptions) {
+  const selected = columns.filter((column) => options.columnIds.includes(column.id))
+
+  if (options.format === "xlsx") {
+    const content = toXlsx(
+      filename,
+      selected.map((column) => column.header),
+      rows.map((row) => selected.map((column) => ({ value: column.value(row), type: column.type }))),
+    )
+    downloadFile(`${filename}.xlsx`, content, XLSX_MIME_TYPE)
+    return
+  }
+
+  const csv = toCsv(
+    rows,
+    selected.map((column) => ({
+      header: column.header,
+      value: (row: T) => formatCsvValue(column.value(row), column.type, options.locale),
+    })),
+    usesDecimalComma(options.locale) ? ";" : ",",
+  )
+  // The byte order mark lets Excel detect UTF-8 for names with accents
+  downloadFile(`${filename}.csv`, `\uFEFF${csv}`, "text/csv;charset=utf-8")
+}
@@ -0,0 +1,82 @@
+export type KycDocumentType = "id" | "proof_of_address" | "payslip"
+export type KycDocumentStatus = "pending" | "accepted" | "rejected"
+
+export interface KycDocument {
+  _id: string
+  type: KycDocumentType
+  fileName: string
+  mimeType: string
+  size: number
+  uploadedAt: string
+  status: KycDocumentStatus
+  reviewReasonCode?: string
+  reviewNote?: string
+  reviewedAt?: string
+  reviewedBy?: {
+    _id: string
+    name: string
+  }
+}
+
+export interface KycDocumentRequirement {
+  type: KycDocumentType
+  label: string
+  description: string
+  maxFiles: number
+}
+
+// Documents a loan application must include, in the order they are asked for
+export const KYC_DOCUMENT_REQUIREMENTS: KycDocumentRequirement[] = [
+  { type: "id", label: "Government ID", description: "Passport, national ID card or driver's licence", maxFiles: 2 },
+  {
+    type: "proof_of_address",
+    label: "Proof of address",
+    description: "Utility bill or bank statement from the last 3 months",
+    maxFiles: 1,
+  },
+  { type: "payslip", label: "Payslips", description: "Your most recent payslips, up to 3", maxFiles: 3 },
+]
+
+export const KYC_ACCEPTED_MIME_TYPES = ["application/pdf", "image/jpeg", "image/png"]
+export const KYC_MAX_FILE_SIZE = 5 * 1024 * 1024
+
+export const KYC_REJECTION_REASONS = [
+  { value: "unreadable", label: "Unreadable or blurry" },
+  { value: "expired", label: "Expired document" },
+  { value: "name_mismatch", label: "Name does not match the applicant" },
+  { value: "wrong_type", label: "Not the requested document" },
+  { value: "incomplete", label: "Pages or details missing" },
+  { value: "other", label: "Other" },
+]
+
+export const getKycDocumentLabel = (type: KycDocumentType) =>
+  KYC_DOCUMENT_REQUIREMENTS.find((requirement) => requirement.type === type)?.label ?? type
+
+export const getKycRejectionReasonLabel = (code: string) =>
+  KYC_REJECTION_REASONS.find((reason) => reason.value === code)?.label ?? code
+
+export const formatFileSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(Math.round(bytes / 1024), 1)} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+
+// Returns why the file cannot be uploaded, or null when it is acceptable
+export function validateKycFile(file: File): string | null {
+  if (!KYC_ACCEPTED_MIME_TYPES.includes(file.type)) return "Only PDF, JPG and PNG files are accepted"
+  if (file.size > KYC_MAX_FILE_SIZE) return `Files must be ${formatFileSize(KYC_MAX_FILE_SIZE)} or smaller`
+  return null
+}
+
+// Served with the caller's auth token, so it is fetched through `api` rather than linked directly
+export const getKycDocumentFileUrl = (documentId: string) => `/api/documents/${documentId}/file`
+
+export const getKycStatusBadgeClass = (status: KycDocumentStatus) => {
+  switch (status) {
+    case "pending":
+      return "bg-yellow-100 text-yellow-800"
+    case "accepted":
+      return "bg-green-100 text-green-800"
+    case "rejected":
+      return "bg-red-100 text-red-800"
+    default:
+      return "bg-gray-100 text-gray-800"
+  }
+}
@@ -0,0 +1,219 @@
+import {
+  assessAffordability,
+  getSchedulePayments,
+  type BudgetSummary,
+  type DeclaredFinances,
+} from "@/lib/affordability"
+import { calculateAmortization } from "@/lib/amortization"
+import type { KycDocument } from "@/lib/kyc"
+import {
+  findProduct,
+  getEligibilityIssues,
+  productAmount,
+  productTenure,
+  type LoanProduct,
+} from "@/lib/loan-products"
+import { number, optional, phone, required, when, type Rule, type Schema } from "@/lib/validation"
+import api from "@/utils/api"
+
+export const EMPLOYMENT_STATUSES = ["Employed", "Self-employed", "Unemployed", "Student", "Retired"]
+
+// Statuses that come with an employer or business to name
+export const hasEmployer = (employmentStatus: string) =>
+  employmentStatus === "Employed" || employmentStatus === "Self-employed"
+
+export type ApplicationStepId = "personal" | "employment" | "finances" | "terms" | "documents" | "review"
+
+export const APPLICATION_STEPS: { id: ApplicationStepId; label: string }[] = [
+  { id: "personal", label: "Personal details" },
+  { id: "employment", label: "Employment" },
+  { id: "finances", label: "Income & expenses" },
+  { id: "terms", label: "Loan terms" },
+  { id: "documents", label: "Documents" },
+  { id: "review", label: "Review" },
+]
+
+// Form values are kept as entered, so numbers stay strings until the application is sent
+export interface LoanApplicationDraft {
+  fullName: string
+  dateOfBirth: string
+  phone: string
+  address: string
+  employmentStatus: string
+  employerName: string
+  employerAddress: string
+  jobTitle: string
+  monthlyIncome: string
+  otherIncome: string
+  monthlyExpenses: string
+  existingDebtPayments: string
+  productId: string
+  amount: string
+  tenure: string
+  reason: string
+  // Documents already uploaded, so a resumed draft does not ask for them again
+  documents: KycDocument[]
+  // Index into APPLICATION_STEPS the borrower was on
+  step: number
+  updatedAt: string
+}
+
+export const EMPTY_DRAFT: LoanApplicationDraft = {
+  fullName: "",
+  dateOfBirth: "",
+  phone: "",
+  address: "",
+  employmentStatus: "",
+  employerName: "",
+  employerAddress: "",
+  jobTitle: "",
+  monthlyIncome: "",
+  otherIncome: "",
+  monthlyExpenses: "",
+  existingDebtPayments: "",
+  productId: "",
+  amount: "",
+  tenure: "",
+  reason: "",
+  documents: [],
+  step: 0,
+  updatedAt: "",
+}
+
+export const MIN_APPLICANT_AGE = 18
+
+// Whole years between a YYYY-MM-DD date of birth and today. The parts are compared
+// directly, since new Date() would read the string as UTC and shift it a day west of UTC.
+const ageOn = (dateOfBirth: string, today = new Date()) => {
+  const [year, month, day] = dateOfBirth.split("-").map(Number)
+  const age = today.getFullYear() - year
+  const hadBirthday =
+    today.getMonth() + 1 > month || (today.getMonth() + 1 === month && today.getDate() >= day)
+  return hadBirthday ? age : age - 1
+}
+
+const adult: Rule<LoanApplicationDraft, string> = (value) =>
+  Number.isNaN(new Date(value).getTime())
+    ? "Enter a valid date"
+    : ageOn(value) < MIN_APPLICANT_AGE
+      ? `You must be at least ${MIN_APPLICANT_AGE} to apply`
+      : undefined
+
+export type ApplicationStepSchemas = Partial<Record<ApplicationStepId, Schema<LoanApplicationDraft>>>
+
+export const getDeclaredFinances = (draft: LoanApplicationDraft): DeclaredFinances => ({
+  monthlyIncome: Number(draft.monthlyIncome || 0) + Number(draft.otherIncome || 0),
+  monthlyExpenses: Number(draft.monthlyExpenses || 0),
+  existingDebtPayments: Number(draft.existingDebtPayments || 0),
+})
+
+// The schedule for the amount and tenure entered, priced by the chosen product
+export function getDraftSchedule(draft: LoanApplicationDraft, product: LoanProduct | undefined) {
+  if (!product) return null
+  return calculateAmortization(Number(draft.amount), product.interestRate, Number(draft.tenure), product.interestMethod)
+}
+
+// What the draft says about the applicant, for checking a product's eligibility rules
+const toProductApplicant = (draft: LoanApplicationDraft) => ({
+  employmentStatus: draft.employmentStatus || undefined,
+  monthlyIncome: draft.monthlyIncome === "" ? undefined : Number(draft.monthlyIncome),
+  age: draft.dateOfBirth ? ageOn(draft.dateOfBirth) : undefined,
+})
+
+/**
+ * Rules for the fields on each step, checked before the borrower moves on.
+ * The loan terms are checked against the chosen product from `products` and
+ * must be affordable on the declared finances and any `budget` data.
+ * The documents step is checked against the live uploads by the page instead.
+ */
+export function getApplicationStepSchemas(
+  products: LoanProduct[],
+  budget: BudgetSummary | null = null,
+): ApplicationStepSchemas {
+  const getProduct = (draft: LoanApplicationDraft) => findProduct(products, draft.productId)
+  const eligible: Rule<LoanApplicationDraft, string> = (productId, draft) => {
+    const product = findProduct(products, productId)
+    return product ? getEligibilityIssues(product, toProductApplicant(draft))[0] : undefined
+  }
+  const affordable: Rule<LoanApplicationDraft, string> = (_, draft) => {
+    const schedule = getDraftSchedule(draft, getProduct(draft))
+    if (!schedule) return undefined
+    const { installment, balloon } = getSchedulePayments(schedule)
+    const assessment = assessAffordability(getDeclaredFinances(draft), installment, budget, balloon)
+    return assessment.status === "block" ? "The repayments on this amount are more than you can afford" : undefined
+  }
+
+  return {
+    personal: {
+      fullName: [required("Full name is required")],
+      dateOfBirth: [required("Date of birth is required"), adult],
+      phone: [required("Phone number is required"), phone()],
+      address: [required("Address is required")],
+    },
+    employment: {
+      employmentStatus: [required("Employment status is required")],
+      employerName: [
+        when((draft) => hasEmployer(draft.employmentStatus), [required("Employer or business name is required")]),
+      ],
+    },
+    finances: {
+      monthlyIncome: [required("Monthly income is required"), number({ min: 0, label: "Monthly income" })],
+      otherIncome: [optional([number({ min: 0, label: "Other income" })])],
+      monthlyExpenses: [required("Monthly expenses are required"), number({ min: 0, label: "Monthly expenses" })],
+      existingDebtPayments: [optional([number({ min: 0, label: "Existing debt payments" })])],
+    },
+    terms: {
+      productId: [required("Choose a loan product"), eligible],
+      amount: [required("Amount is required"), productAmount(getProduct), affordable],
+      tenure: [required("Choose a tenure"), productTenure(getProduct)],
+      reason: [required("Reason for the loan is required")],
+    },
+  }
+}
+
+// Every step's rules together, for checking one field and placing errors returned by the server
+export const combineStepSchemas = (schemas: ApplicationStepSchemas): Schema<LoanApplicationDraft> =>
+  Object.assign({}, ...Object.values(schemas))
+
+// Index of the step holding a field, or -1 for fields no step validates
+export const getFieldStep = (schemas: ApplicationStepSchemas, field: string) =>
+  APPLICATION_STEPS.findIndex((step) => field in (schemas[step.id] ?? {}))
+
+const storageKey = (userId: string) => `loan-application-draft:${userId}`
+
+export function loadLocalDraft(userId: string): LoanApplicationDraft | null {
+  if (typeof window === "undefined") return null
+  try {
+    const raw = localStorage.getItem(storageKey(userId))
+    return raw ? { ...EMPTY_DRAFT, ...JSON.parse(raw) } : null
+  } catch {
+    return null
+  }
+}
+
+export function saveLocalDraft(userId: string, draft: LoanApplicationDraft) {
+  localStorage.setItem(storageKey(userId), JSON.stringify(draft))
+}
+
+export function clearLocalDraft(userId: string) {
+  localStorage.removeItem(storageKey(userId))
+}
+
+export async function fetchServerDraft(): Promise<LoanApplicationDraft | null> {
+  const response = await api.get("/api/loans/draft")
+  return response.data.draft ? { ...EMPTY_DRAFT, ...response.data.draft } : null
+}
+
+export async function saveServerDraft(draft: LoanApplicationDraft) {
+  await api.put("/api/loans/draft", { draft })
+}
+
+export async function deleteServerDraft() {
+  await api.delete("/api/loans/draft")
+}
+
+// The more recently edited of two drafts, e.g. this browser's copy and the one saved from another device
+export function newerDraft(a: LoanApplicationDraft | null, b: LoanApplicationDraft | null) {
+  if (!a || !b) return a ?? b
+  return new Date(b.updatedAt).getTime() > new Date(a.updatedAt).getTime() ? b : a
+}
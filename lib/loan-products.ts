@@ -0,0 +1,102 @@
+import { INTEREST_METHODS, type InterestMethod } from "@/lib/amortization"
+import { number, type Rule } from "@/lib/validation"
+import api from "@/utils/api"
+
+// Who may take a product. Zero or an empty list means no restriction.
+export interface LoanProductEligibility {
+  minMonthlyIncome: number
+  minAge: number
+  employmentStatuses: string[]
+}
+
+export interface LoanProduct {
+  _id: string
+  name: string
+  description: string
+  minAmount: number
+  maxAmount: number
+  // Terms in months a loan may run for
+  tenures: number[]
+  // Annual percentage
+  interestRate: number
+  interestMethod: InterestMethod
+  // Percentage of the amount plus a fixed charge, taken once at disbursement
+  processingFeePercent: number
+  flatFee: number
+  eligibility: LoanProductEligibility
+  // Inactive products stay on existing loans but cannot be chosen for new ones
+  active: boolean
+}
+
+export type LoanProductInput = Omit<LoanProduct, "_id">
+
+// What is known about the applicant when a product is picked; missing details are not checked
+export interface ProductApplicant {
+  employmentStatus?: string
+  monthlyIncome?: number
+  age?: number
+}
+
+export const calculateProductFee = (product: LoanProduct, amount: number) =>
+  Math.round(amount * product.processingFeePercent + product.flatFee * 100) / 100
+
+// Fee terms in short, e.g. "2% + 500"
+export const describeFees = (product: LoanProduct) => {
+  const fees = [
+    product.processingFeePercent > 0 ? `${product.processingFeePercent}%` : "",
+    product.flatFee > 0 ? product.flatFee.toLocaleString() : "",
+  ].filter(Boolean)
+  return fees.length > 0 ? fees.join(" + ") : "None"
+}
+
+export const formatTenures = (tenures: number[]) => `${tenures.join(", ")} months`
+
+export const getInterestMethodLabel = (method: InterestMethod) =>
+  INTEREST_METHODS.find((option) => option.value === method)?.label ?? method
+
+/**
+ * Reasons the applicant does not qualify for a product, in a form that can be
+ * shown to them. Empty when they qualify.
+ */
+export function getEligibilityIssues(product: LoanProduct, applicant: ProductApplicant): string[] {
+  const { minMonthlyIncome, minAge, employmentStatuses } = product.eligibility
+  const issues: string[] = []
+
+  if (applicant.employmentStatus && employmentStatuses.length > 0) {
+    if (!employmentStatuses.includes(applicant.employmentStatus)) {
+      issues.push(`${product.name} is only offered to ${employmentStatuses.join(", ").toLowerCase()} applicants`)
+    }
+  }
+  if (applicant.monthlyIncome !== undefined && minMonthlyIncome > 0 && applicant.monthlyIncome < minMonthlyIncome) {
+    issues.push(`${product.name} needs a monthly income of at least ${minMonthlyIncome.toLocaleString()}`)
+  }
+  if (applicant.age !== undefined && minAge > 0 && applicant.age < minAge) {
+    issues.push(`${product.name} is only offered to applicants aged ${minAge} or over`)
+  }
+
+  return issues
+}
+
+// Validation for a loan made under the product returned by `getProduct`
+export const productAmount = <T>(getProduct: (values: T) => LoanProduct | undefined): Rule<T, string> =>
+  number({
+    min: (values) => getProduct(values)?.minAmount,
+    max: (values) => getProduct(values)?.maxAmount,
+    label: "Amount",
+  })
+
+export const productTenure =
+  <T>(getProduct: (values: T) => LoanProduct | undefined): Rule<T, string> =>
+  (value, values) => {
+    const product = getProduct(values)
+    if (!product || product.tenures.includes(Number(value))) return undefined
+    return `${product.name} runs for ${formatTenures(product.tenures)}`
+  }
+
+export const findProduct = (products: LoanProduct[], id: string) => products.find((product) => product._id === id)
+
+// Products borrowers and staff can choose from for a new loan
+export async function fetchLoanProducts(): Promise<LoanProduct[]> {
+  const response = await api.get("/api/loan-products")
+  return response.data.products
+}
@@ -0,0 +1,136 @@
+import type { UserRole } from "@/context/auth-context"
+import { hasPermission, type Permission } from "@/lib/permissions"
+
+export type LoanStatus =
+  | "pending"
+  | "verified"
+  | "approved"
+  | "disbursed"
+  | "repaying"
+  | "completed"
+  | "defaulted"
+  | "rejected"
+
+export const LOAN_STATUSES: LoanStatus[] = [
+  "pending",
+  "verified",
+  "approved",
+  "disbursed",
+  "repaying",
+  "completed",
+  "defaulted",
+  "rejected",
+]
+
+// Extra information a transition must carry to the API besides the new status
+export type LoanTransitionInput = "reason" | "note"
+
+export interface DecisionReason {
+  value: string
+  label: string
+}
+
+// Sent with the status PATCH and stored on the loan and its status history
+export interface LoanDecision {
+  reasonCode?: string
+  note?: string
+}
+
+export interface LoanTransition {
+  from: LoanStatus[]
+  to: LoanStatus
+  label: string
+  permission: Permission
+  inputs: LoanTransitionInput[]
+  reasonLabel?: string
+  reasons?: DecisionReason[]
+}
+
+const REJECTION_REASONS: DecisionReason[] = [
+  { value: "insufficient_income", label: "Insufficient income" },
+  { value: "incomplete_documents", label: "Incomplete or invalid documents" },
+  { value: "employment_unverified", label: "Employment could not be verified" },
+  { value: "poor_credit_history", label: "Poor credit history" },
+  { value: "existing_debt", label: "Too much existing debt" },
+  { value: "other", label: "Other" },
+]
+
+const DEFAULT_REASONS: DecisionReason[] = [
+  { value: "missed_payments", label: "Repeated missed payments" },
+  { value: "borrower_unreachable", label: "Borrower unreachable" },
+  { value: "insolvency", label: "Borrower insolvency" },
+  { value: "fraud", label: "Suspected fraud" },
+  { value: "other", label: "Other" },
+]
+
+const DISBURSEMENT_METHODS: DecisionReason[] = [
+  { value: "bank_transfer", label: "Bank transfer" },
+  { value: "mobile_money", label: "Mobile money" },
+  { value: "cheque", label: "Cheque" },
+  { value: "cash", label: "Cash" },
+]
+
+// Every status change the app allows. Buttons are rendered from this list in
+// the order given, so the usual next step comes before reject/default.
+export const LOAN_TRANSITIONS: LoanTransition[] = [
+  { from: ["pending"], to: "verified", label: "Verify", permission: "loans.verify", inputs: [] },
+  { from: ["verified"], to: "approved", label: "Approve", permission: "loans.approve", inputs: [] },
+  {
+    from: ["approved"],
+    to: "disbursed",
+    label: "Disburse",
+    permission: "loans.disburse",
+    inputs: ["reason"],
+    reasonLabel: "Disbursement method",
+    reasons: DISBURSEMENT_METHODS,
+  },
+  { from: ["disbursed"], to: "repaying", label: "Start Repayment", permission: "loans.service", inputs: [] },
+  { from: ["repaying"], to: "completed", label: "Mark Completed", permission: "loans.service", inputs: [] },
+  {
+    from: ["pending", "verified", "approved"],
+    to: "rejected",
+    label: "Reject",
+    permission: "loans.reject",
+    inputs: ["reason", "note"],
+    reasonLabel: "Rejection reason",
+    reasons: REJECTION_REASONS,
+  },
+  {
+    from: ["disbursed", "repaying"],
+    to: "defaulted",
+    label: "Mark Default",
+    permission: "loans.service",
+    inputs: ["reason", "note"],
+    reasonLabel: "Default reason",
+    reasons: DEFAULT_REASONS,
+  },
+]
+
+export function getTransition(from: LoanStatus, to: LoanStatus): LoanTransition | undefined {
+  return LOAN_TRANSITIONS.find((transition) => transition.from.includes(from) && transition.to === to)
+}
+
+// Transitions out of `status` that the given role is allowed to make
+export function getAvailableTransitions(status: LoanStatus, role: UserRole | undefined): LoanTransition[] {
+  return LOAN_TRANSITIONS.filter(
+    (transition) => transition.from.includes(status) && hasPermission(role, transition.permission),
+  )
+}
+
+export function canTransition(from: LoanStatus, to: LoanStatus, role: UserRole | undefined): boolean {
+  const transition = getTransition(from, to)
+  return !!transition && hasPermission(role, transition.permission)
+}
+
+// Whether the decision carries every input the transition requires
+export function isDecisionComplete(transition: LoanTransition, decision: LoanDecision): boolean {
+  if (transition.inputs.includes("reason") && !decision.reasonCode) return false
+  if (transition.inputs.includes("note") && !decision.note?.trim()) return false
+  return true
+}
+
+// Human readable label for a stored reason code, falling back to the code itself
+export function getDecisionReasonLabel(status: LoanStatus, reasonCode: string): string {
+  const transition = LOAN_TRANSITIONS.find((t) => t.to === status)
+  return transition?.reasons?.find((reason) => reason.value === reasonCode)?.label ?? reasonCode
+}
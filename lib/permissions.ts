@@ -0,0 +1,38 @@
+import type { UserRole } from "@/context/auth-context"
+
+// Named actions checked in the UI. The API enforces the same rules server-side.
+export type Permission =
+  | "loans.create"
+  | "loans.verify"
+  | "loans.approve"
+  | "loans.reject"
+  | "loans.disburse"
+  | "loans.service"
+  | "products.manage"
+  | "repayments.create"
+  | "repayments.record"
+  | "users.create"
+  | "users.update"
+  | "users.delete"
+
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  admin: [
+    "loans.create",
+    "loans.approve",
+    "loans.reject",
+    "loans.disburse",
+    "loans.service",
+    "products.manage",
+    "repayments.create",
+    "repayments.record",
+    "users.create",
+    "users.update",
+    "users.delete",
+  ],
+  verifier: ["loans.verify", "loans.reject"],
+  user: [],
+}
+
+export function hasPermission(role: UserRole | undefined, permission: Permission): boolean {
+  return !!role && ROLE_PERMISSIONS[role].includes(permission)
+}
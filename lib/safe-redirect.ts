@@ -0,0 +1,39 @@
+import type { UserRole } from "@/context/auth-context"
+
+// Sections of the app each role may be sent to after logging in
+const ROLE_ROUTES: Record<UserRole, string[]> = {
+  admin: ["/admin"],
+  verifier: ["/verifier"],
+  user: ["/dashboard", "/apply-loan", "/payments", "/budget"],
+}
+
+const matchesRoute = (pathname: string, route: string) => pathname === route || pathname.startsWith(`${route}/`)
+
+/**
+ * Validate a `?redirect=` target from the login page.
+ * Returns a same-origin path the role is allowed to open, or null when the
+ * target is missing, points elsewhere or belongs to another role.
+ */
+export function getSafeRedirect(target: string | null | undefined, role: UserRole): string | null {
+  // Only app-relative paths; "//host" and "/\host" are treated as external by browsers
+  if (!target || !target.startsWith("/") || target.startsWith("//") || target.startsWith("/\\")) {
+    return null
+  }
+
+  let url: URL
+  try {
+    url = new URL(target, window.location.origin)
+  } catch {
+    return null
+  }
+
+  if (url.origin !== window.location.origin) {
+    return null
+  }
+
+  if (!ROLE_ROUTES[role].some((route) => matchesRoute(url.pathname, route))) {
+    return null
+  }
+
+  return `${url.pathname}${url.search}${url.hash}`
+}
@@ -0,0 +1,43 @@
+import type { UserRole } from "@/context/auth-context"
+
+const minutes = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value)
+  return (parsed > 0 ? parsed : fallback) * 60 * 1000
+}
+
+// How long each role may stay inactive before being logged out, in milliseconds.
+// Back office roles get a shorter window; override with NEXT_PUBLIC_IDLE_TIMEOUT_<ROLE> (minutes).
+export const IDLE_TIMEOUTS: Record<UserRole, number> = {
+  admin: minutes(process.env.NEXT_PUBLIC_IDLE_TIMEOUT_ADMIN, 15),
+  verifier: minutes(process.env.NEXT_PUBLIC_IDLE_TIMEOUT_VERIFIER, 15),
+  user: minutes(process.env.NEXT_PUBLIC_IDLE_TIMEOUT_USER, 30),
+}
+
+// The warning dialog opens this long before the session ends
+export const IDLE_WARNING_MS = 60 * 1000
+
+// Shared by every tab so activity in one keeps the others alive
+export const LAST_ACTIVITY_KEY = "lastActivity"
+
+export type LogoutReason = "idle" | "expired"
+
+// Messages shown on the login page, keyed by the `reason` query parameter
+export const LOGOUT_REASON_MESSAGES: Record<LogoutReason, string> = {
+  idle: "You were logged out after a period of inactivity.",
+  expired: "Your session has expired. Please log in again.",
+}
+
+export const isLogoutReason = (value: string | null): value is LogoutReason =>
+  !!value && Object.hasOwn(LOGOUT_REASON_MESSAGES, value)
+
+// A restored session with nothing stored starts its idle clock now, rather than never
+export function getLastActivity(): number {
+  const stored = Number(localStorage.getItem(LAST_ACTIVITY_KEY))
+  return stored > 0 ? stored : markActivity()
+}
+
+export function markActivity() {
+  const now = Date.now()
+  localStorage.setItem(LAST_ACTIVITY_KEY, String(now))
+  return now
+}
@@ -0,0 +1,41 @@
+import type { LoanStatus } from "@/lib/loan-status"
+
+export type RepaymentStatus = "pending" | "paid" | "overdue" | "partial"
+
+export const getLoanStatusBadgeClass = (status: LoanStatus) => {
+  switch (status) {
+    case "pending":
+      return "bg-yellow-100 text-yellow-800"
+    case "verified":
+      return "bg-blue-100 text-blue-800"
+    case "approved":
+      return "bg-green-100 text-green-800"
+    case "disbursed":
+      return "bg-purple-100 text-purple-800"
+    case "repaying":
+      return "bg-cyan-100 text-cyan-800"
+    case "completed":
+      return "bg-green-100 text-green-800"
+    case "defaulted":
+      return "bg-red-100 text-red-800"
+    case "rejected":
+      return "bg-red-100 text-red-800"
+    default:
+      return "bg-gray-100 text-gray-800"
+  }
+}
+
+export const getRepaymentStatusBadgeClass = (status: RepaymentStatus) => {
+  switch (status) {
+    case "pending":
+      return "bg-yellow-100 text-yellow-800"
+    case "paid":
+      return "bg-green-100 text-green-800"
+    case "overdue":
+      return "bg-red-100 text-red-800"
+    case "partial":
+      return "bg-blue-100 text-blue-800"
+    default:
+      return "bg-gray-100 text-gray-800"
+  }
+}
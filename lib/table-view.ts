@@ -0,0 +1,106 @@
+import { LOAN_STATUSES, type LoanStatus } from "@/lib/loan-status"
+
+export type TableSortField = "amount" | "date" | "status"
+
+export type TableSortOrder = "asc" | "desc"
+
+export const TABLE_SORT_FIELDS: { value: TableSortField; label: string }[] = [
+  { value: "amount", label: "Amount" },
+  { value: "date", label: "Date" },
+  { value: "status", label: "Status" },
+]
+
+// Sort and filter choices for one of the dashboard loan tables
+export interface TableView {
+  sortBy: TableSortField
+  sortOrder: TableSortOrder
+  statuses: LoanStatus[]
+  from: string
+  to: string
+  minAmount: string
+  maxAmount: string
+}
+
+// How to read the sortable and filterable values from a row
+export interface TableViewAccessors<T> {
+  amount: (row: T) => number
+  date: (row: T) => string
+  status: (row: T) => LoanStatus
+}
+
+export const DEFAULT_TABLE_VIEW: TableView = {
+  sortBy: "date",
+  sortOrder: "desc",
+  statuses: [],
+  from: "",
+  to: "",
+  minAmount: "",
+  maxAmount: "",
+}
+
+const storageKey = (userId: string, tableKey: string) => `table-view:${userId}:${tableKey}`
+
+export function loadTableView(userId: string, tableKey: string): TableView {
+  if (typeof window === "undefined") {
+    return DEFAULT_TABLE_VIEW
+  }
+
+  try {
+    const raw = localStorage.getItem(storageKey(userId, tableKey))
+    if (!raw) {
+      return DEFAULT_TABLE_VIEW
+    }
+    return { ...DEFAULT_TABLE_VIEW, ...JSON.parse(raw) }
+  } catch {
+    return DEFAULT_TABLE_VIEW
+  }
+}
+
+export function saveTableView(userId: string, tableKey: string, view: TableView) {
+  if (typeof window === "undefined") return
+  localStorage.setItem(storageKey(userId, tableKey), JSON.stringify(view))
+}
+
+// Number of filters that differ from the defaults, shown on the filter button
+export function countActiveFilters(view: TableView) {
+  return [view.statuses.length > 0, view.from, view.to, view.minAmount, view.maxAmount].filter(Boolean).length
+}
+
+// Date inputs give local yyyy-mm-dd values, so rows are compared by their local day
+const toDay = (value: string) => {
+  const date = new Date(value)
+  if (isNaN(date.getTime())) return ""
+  const pad = (part: number) => String(part).padStart(2, "0")
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+export function applyTableView<T>(rows: T[], view: TableView, accessors: TableViewAccessors<T>): T[] {
+  const minAmount = view.minAmount === "" ? null : Number(view.minAmount)
+  const maxAmount = view.maxAmount === "" ? null : Number(view.maxAmount)
+
+  const filtered = rows.filter((row) => {
+    const amount = accessors.amount(row)
+    const day = toDay(accessors.date(row))
+
+    if (view.statuses.length > 0 && !view.statuses.includes(accessors.status(row))) return false
+    if (view.from && day < view.from) return false
+    if (view.to && day > view.to) return false
+    if (minAmount !== null && amount < minAmount) return false
+    if (maxAmount !== null && amount > maxAmount) return false
+    return true
+  })
+
+  const direction = view.sortOrder === "asc" ? 1 : -1
+
+  return filtered.sort((a, b) => {
+    switch (view.sortBy) {
+      case "amount":
+        return (accessors.amount(a) - accessors.amount(b)) * direction
+      case "status":
+        // Statuses sort in workflow order rather than alphabetically
+        return (LOAN_STATUSES.indexOf(accessors.status(a)) - LOAN_STATUSES.indexOf(accessors.status(b))) * direction
+      default:
+        return (new Date(accessors.date(a)).getTime() - new Date(accessors.date(b)).getTime()) * direction
+    }
+  })
+}
@@ -0,0 +1,158 @@
+// Small typed form validation: a schema lists the rules for each field, and every
+// rule sees the whole form so cross-field checks read like any other rule.
+
+export type FieldErrors<T> = Partial<Record<keyof T & string, string>>
+
+// Returns a message when the value is invalid
+export type Rule<T, V = unknown> = (value: V, values: T) => string | undefined
+
+export type Schema<T> = { [K in keyof T & string]?: Rule<T, T[K]>[] }
+
+const isBlank = (value: unknown) =>
+  value === undefined ||
+  value === null ||
+  (typeof value === "string" && value.trim() === "") ||
+  (Array.isArray(value) && value.length === 0)
+
+// The first failing rule for each field in the schema
+export function validate<T>(schema: Schema<T>, values: T): FieldErrors<T> {
+  const errors: FieldErrors<T> = {}
+  for (const field of Object.keys(schema) as (keyof T & string)[]) {
+    const message = validateField(schema, values, field)
+    if (message) errors[field] = message
+  }
+  return errors
+}
+
+export function validateField<T, K extends keyof T & string>(schema: Schema<T>, values: T, field: K) {
+  for (const rule of schema[field] ?? []) {
+    const message = rule(values[field], values)
+    if (message) return message
+  }
+  return undefined
+}
+
+export const hasErrors = <T>(errors: FieldErrors<T>) => Object.values(errors).some(Boolean)
+
+export const required =
+  <T>(message = "This field is required"): Rule<T, unknown> =>
+  (value) =>
+    isBlank(value) || value === false ? message : undefined
+
+// Applies `rules` only when `condition` holds, e.g. employer name only for employed applicants
+export const when =
+  <T, V>(condition: (values: T) => boolean, rules: Rule<T, V>[]): Rule<T, V> =>
+  (value, values) => {
+    if (!condition(values)) return undefined
+    for (const rule of rules) {
+      const message = rule(value, values)
+      if (message) return message
+    }
+    return undefined
+  }
+
+export const optional =
+  <T, V>(rules: Rule<T, V>[]): Rule<T, V> =>
+  (value, values) =>
+    isBlank(value) ? undefined : when<T, V>(() => true, rules)(value, values)
+
+export const isValidEmail = (value: string) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value.trim())
+
+// Separators and a leading + are allowed around 7 to 15 digits
+export const isValidPhone = (value: string) =>
+  /^\+?[\d\s().-]+$/.test(value) && /^\d{7,15}$/.test(value.replace(/\D/g, ""))
+
+export const email =
+  <T>(message = "Enter a valid email address"): Rule<T, string> =>
+  (value) =>
+    isValidEmail(value) ? undefined : message
+
+export const phone =
+  <T>(message = "Enter a phone number with 7 to 15 digits"): Rule<T, string> =>
+  (value) =>
+    isValidPhone(value) ? undefined : message
+
+export const minLength =
+  <T>(length: number, message?: string): Rule<T, string> =>
+  (value) =>
+    value.trim().length >= length ? undefined : message || `Must be at least ${length} characters`
+
+interface NumberOptions<T> {
+  // Limits may depend on other fields, such as a product's amount range
+  min?: number | ((values: T) => number | undefined)
+  max?: number | ((values: T) => number | undefined)
+  integer?: boolean
+  label?: string
+}
+
+// Numeric text inputs, which hold strings until the form is sent
+export const number =
+  <T>({ min, max, integer, label = "Value" }: NumberOptions<T> = {}): Rule<T, string | number> =>
+  (value, values) => {
+    const parsed = Number(value)
+    if (value === "" || !Number.isFinite(parsed)) return `${label} must be a number`
+    if (integer && !Number.isInteger(parsed)) return `${label} must be a whole number`
+
+    const lower = typeof min === "function" ? min(values) : min
+    const upper = typeof max === "function" ? max(values) : max
+    if (lower !== undefined && parsed < lower) return `${label} must be at least ${lower.toLocaleString()}`
+    if (upper !== undefined && parsed > upper) return `${label} must be at most ${upper.toLocaleString()}`
+    return undefined
+  }
+
+export const sameAs =
+  <T>(field: keyof T, message = "Values do not match"): Rule<T, unknown> =>
+  (value, values) =>
+    value === values[field] ? undefined : message
+
+export const PASSWORD_MIN_LENGTH = 8
+
+// What a password still needs; empty when it is strong enough
+export function passwordIssues(password: string) {
+  const issues: string[] = []
+  if (password.length < PASSWORD_MIN_LENGTH) issues.push(`at least ${PASSWORD_MIN_LENGTH} characters`)
+  if (!/[a-z]/.test(password) || !/[A-Z]/.test(password)) issues.push("upper and lower case letters")
+  if (!/\d/.test(password)) issues.push("a number")
+  return issues
+}
+
+export const strongPassword =
+  <T>(): Rule<T, string> =>
+  (value) => {
+    const issues = passwordIssues(value)
+    return issues.length > 0 ? `Password needs ${issues.join(", ")}` : undefined
+  }
+
+/**
+ * Split an API error into messages for known fields and a message for the rest.
+ * Understands `{ errors: { field: message } }` and express-validator style
+ * `{ errors: [{ path | param | field, msg | message }] }` bodies.
+ */
+export function mapServerErrors<T>(
+  error: any,
+  fields: (keyof T & string)[],
+): { fieldErrors: FieldErrors<T>; message?: string } {
+  const data = error?.response?.data
+  const fieldErrors: FieldErrors<T> = {}
+  const unmatched: string[] = []
+
+  const assign = (field: string | undefined, message: string | undefined) => {
+    if (!message) return
+    if (field && (fields as string[]).includes(field)) {
+      fieldErrors[field as keyof T & string] ??= message
+    } else {
+      unmatched.push(message)
+    }
+  }
+
+  if (Array.isArray(data?.errors)) {
+    data.errors.forEach((item: any) => assign(item.path ?? item.param ?? item.field, item.msg ?? item.message))
+  } else if (data?.errors && typeof data.errors === "object") {
+    Object.entries(data.errors).forEach(([field, value]: [string, any]) =>
+      assign(field, typeof value === "string" ? value : value?.message),
+    )
+  }
+
+  const message = unmatched[0] ?? (hasErrors(fieldErrors) ? undefined : data?.message)
+  return { fieldErrors, message }
+}
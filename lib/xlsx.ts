@@ -0,0 +1,227 @@
+// Minimal XLSX writer: one worksheet, written as an uncompressed zip so no
+// spreadsheet library is needed in the browser.
+
+export type XlsxCellType = "text" | "number" | "amount" | "percent" | "date"
+
+export interface XlsxCell {
+  value: string | number | Date | null | undefined
+  type: XlsxCellType
+}
+
+// Indexes into the cellXfs list in STYLES_XML
+const CELL_STYLES: Record<XlsxCellType, number> = {
+  text: 0,
+  number: 4,
+  amount: 1,
+  percent: 3,
+  date: 2,
+}
+const HEADER_STYLE = 5
+
+// Built-in number formats, which Excel displays with the reader's own separators:
+// 3 "#,##0", 4 "#,##0.00", 10 "0.00%" and 14 the short date of the reader's locale
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="6">
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>
+<xf numFmtId="4" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="14" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="10" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="3" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>
+</cellXfs>
+</styleSheet>`
+
+const CONTENT_TYPES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+</Types>`
+
+const ROOT_RELS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`
+
+const WORKBOOK_RELS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`
+
+export const XLSX_MIME_TYPE = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+
+const escapeXml = (text: string) =>
+  text
+    // Control characters other than tab and newlines are not allowed in XML
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+
+// A, B, ... Z, AA, AB, ...
+const columnName = (index: number) => {
+  let name = ""
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name
+  }
+  return name
+}
+
+// Excel stores dates as days since 1899-12-30; the calendar day is kept as shown locally
+const toExcelDate = (date: Date) =>
+  (Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) - Date.UTC(1899, 11, 30)) / 86400000
+
+function cellXml(ref: string, cell: XlsxCell) {
+  const { value, type } = cell
+  if (value === null || value === undefined || value === "") return ""
+
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? "" : `<c r="${ref}" s="${CELL_STYLES.date}"><v>${toExcelDate(value)}</v></c>`
+  }
+
+  if (typeof value === "number" && type !== "text") {
+    if (!isFinite(value)) return ""
+    // Percent columns hold whole percentages, e.g. 12.5 for 12.5%
+    const stored = type === "percent" ? value / 100 : value
+    return `<c r="${ref}" s="${CELL_STYLES[type]}"><v>${stored}</v></c>`
+  }
+
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`
+}
+
+function sheetXml(headers: string[], rows: XlsxCell[][]) {
+  const widths = headers.map((header, index) => {
+    const longest = rows.reduce((max, row) => {
+      const value = row[index]?.value
+      return Math.max(max, value instanceof Date ? 10 : String(value ?? "").length)
+    }, header.length)
+    return Math.min(Math.max(longest, 10) + 2, 60)
+  })
+
+  const headerCells = headers.map(
+    (header, index) =>
+      `<c r="${columnName(index)}1" t="inlineStr" s="${HEADER_STYLE}"><is><t>${escapeXml(header)}</t></is></c>`,
+  )
+  const headerRow = `<row r="1">${headerCells.join("")}</row>`
+
+  const dataRows = rows
+    .map((row, rowIndex) => {
+      const r = rowIndex + 2
+      return `<row r="${r}">${row.map((cell, index) => cellXml(`${columnName(index)}${r}`, cell)).join("")}</row>`
+    })
+    .join("")
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>
+<cols>${widths.map((width, index) => `<col min="${index + 1}" max="${index + 1}" width="${width}" customWidth="1"/>`).join("")}</cols>
+<sheetData>${headerRow}${dataRows}</sheetData>
+</worksheet>`
+}
+
+function workbookXml(sheetName: string) {
+  // Sheet names are limited to 31 characters and may not contain []:*?/\
+  const name = escapeXml(sheetName.replace(/[[\]:*?/\\]/g, " ").slice(0, 31) || "Sheet1")
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets><sheet name="${name}" sheetId="1" r:id="rId1"/></sheets>
+</workbook>`
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// 1980-01-01, the earliest date a zip entry can carry
+const DOS_DATE = (1 << 5) | 1
+
+// Zip archive with every entry stored uncompressed
+function zip(files: { name: string; content: string }[]): Uint8Array {
+  const encoder = new TextEncoder()
+  const localParts: Uint8Array[] = []
+  const centralParts: Uint8Array[] = []
+  let offset = 0
+
+  files.forEach((file) => {
+    const name = encoder.encode(file.name)
+    const data = encoder.encode(file.content)
+    const crc = crc32(data)
+
+    const local = new DataView(new ArrayBuffer(30))
+    local.setUint32(0, 0x04034b50, true)
+    local.setUint16(4, 20, true)
+    local.setUint16(12, DOS_DATE, true)
+    local.setUint32(14, crc, true)
+    local.setUint32(18, data.length, true)
+    local.setUint32(22, data.length, true)
+    local.setUint16(26, name.length, true)
+
+    const central = new DataView(new ArrayBuffer(46))
+    central.setUint32(0, 0x02014b50, true)
+    central.setUint16(4, 20, true)
+    central.setUint16(6, 20, true)
+    central.setUint16(14, DOS_DATE, true)
+    central.setUint32(16, crc, true)
+    central.setUint32(20, data.length, true)
+    central.setUint32(24, data.length, true)
+    central.setUint16(28, name.length, true)
+    central.setUint32(42, offset, true)
+
+    localParts.push(new Uint8Array(local.buffer), name, data)
+    centralParts.push(new Uint8Array(central.buffer), name)
+    offset += 30 + name.length + data.length
+  })
+
+  const centralSize = centralParts.reduce((size, part) => size + part.length, 0)
+  const end = new DataView(new ArrayBuffer(22))
+  end.setUint32(0, 0x06054b50, true)
+  end.setUint16(8, files.length, true)
+  end.setUint16(10, files.length, true)
+  end.setUint32(12, centralSize, true)
+  end.setUint32(16, offset, true)
+
+  const parts = [...localParts, ...centralParts, new Uint8Array(end.buffer)]
+  const result = new Uint8Array(parts.reduce((size, part) => size + part.length, 0))
+  let position = 0
+  parts.forEach((part) => {
+    result.set(part, position)
+    position += part.length
+  })
+  return result
+}
+
+export function toXlsx(sheetName: string, headers: string[], rows: XlsxCell[][]): Uint8Array {
+  return zip([
+    { name: "[Content_Types].xml", content: CONTENT_TYPES_XML },
+    { name: "_rels/.rels", content: ROOT_RELS_XML },
+    { name: "xl/workbook.xml", content: workbookXml(sheetName) },
+    { name: "xl/_rels/workbook.xml.rels", content: WORKBOOK_RELS_XML },
+    { name: "xl/styles.xml", content: STYLES_XML },
+    { name: "xl/worksheets/sheet1.xml", content: sheetXml(headers, rows) },
+  ])
+}
@@ -1,12 +1,46 @@
 import axios, { AxiosError, InternalAxiosRequestConfig, AxiosResponse } from 'axios'
 
+const baseURL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000/api'
+
 const api = axios.create({
-  baseURL: process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000/api',
+  baseURL,
   headers: {
     'Content-Type': 'application/json',
   },
 })
 
+// Auth lifecycle events so the AuthProvider can stay in sync with the interceptor
+export type AuthEvent = { type: 'expired' }
+
+type AuthEventListener = (event: AuthEvent) => void
+
+const authListeners = new Set<AuthEventListener>()
+
+export const subscribeToAuthEvents = (listener: AuthEventListener) => {
+  authListeners.add(listener)
+  return () => {
+    authListeners.delete(listener)
+  }
+}
+
+const emitAuthEvent = (event: AuthEvent) => {
+  authListeners.forEach((listener) => listener(event))
+}
+
+export const setAuthTokens = (token: string, refreshToken?: string) => {
+  localStorage.setItem('token', token)
+  if (refreshToken) {
+    localStorage.setItem('refreshToken', refreshToken)
+  }
+  api.defaults.headers.common['Authorization'] = `Bearer ${token}`
+}
+
+export const clearAuthTokens = () => {
+  localStorage.removeItem('token')
+  localStorage.removeItem('refreshToken')
+  delete api.defaults.headers.common['Authorization']
+}
+
 // Add a request interceptor to include the token in requests
 api.interceptors.request.use(
   (config: InternalAxiosRequestConfig) => {
@@ -19,19 +53,76 @@ api.interceptors.request.use(
   (error: AxiosError) => Promise.reject(error)
 )
 
-// Add a response interceptor to handle token expiration
+// A single refresh is shared by every request that fails while it is in flight
+let refreshPromise: Promise<string> | null = null
+
+const refreshAccessToken = async (): Promise<string> => {
+  const refreshToken = localStorage.getItem('refreshToken')
+  if (!refreshToken) {
+    throw new Error('No refresh token available')
+  }
+
+  // Use a bare client so a failing refresh cannot trigger this interceptor again
+  const response = await axios.post(`${baseURL}/api/auth/refresh`, { refreshToken })
+  const { token, refreshToken: rotatedRefreshToken } = response.data
+
+  setAuthTokens(token, rotatedRefreshToken)
+  return token
+}
+
+// Credential checks return 401 for a wrong password, which is not an expired session
+const isAuthEndpoint = (url?: string) => !!url && /\/api\/auth\/(login|register|refresh)/.test(url)
+
+type RetriableRequest = InternalAxiosRequestConfig & { _retry?: boolean }
+
+// Add a response interceptor to refresh expired tokens and retry the request
 api.interceptors.response.use(
   (response: AxiosResponse) => response,
-  (error: AxiosError) => {
-    if (error.response?.status === 401) {
-      // Token expired or invalid, clear storage and redirect to login
-      if (typeof window !== 'undefined') {
-        localStorage.removeItem('token')
-        window.location.href = '/login'
-      }
+  async (error: AxiosError) => {
+    const originalRequest = error.config as RetriableRequest | undefined
+
+    if (
+      typeof window === 'undefined' ||
+      error.response?.status !== 401 ||
+      !originalRequest ||
+      originalRequest._retry ||
+      isAuthEndpoint(originalRequest.url)
+    ) {
+      return Promise.reject(error)
+    }
+
+    originalRequest._retry = true
+
+    // Another request may already have refreshed the token this one was sent with
+    const currentToken = localStorage.getItem('token')
+    if (currentToken && originalRequest.headers.Authorization !== `Bearer ${currentToken}`) {
+      originalRequest.headers.Authorization = `Bearer ${currentToken}`
+      return api(originalRequest)
+    }
+
+    if (!refreshPromise) {
+      // A stale token without a refresh token is not a session that can expire
+      const hadSession = !!localStorage.getItem('refreshToken')
+      refreshPromise = refreshAccessToken()
+        .catch((refreshError) => {
+          // Only a failed refresh ends the session; the AuthProvider handles the redirect
+          clearAuthTokens()
+          if (hadSession) emitAuthEvent({ type: 'expired' })
+          throw refreshError
+        })
+        .finally(() => {
+          refreshPromise = null
+        })
+    }
+
+    try {
+      const token = await refreshPromise
+      originalRequest.headers.Authorization = `Bearer ${token}`
+      return api(originalRequest)
+    } catch {
+      return Promise.reject(error)
     }
-    return Promise.reject(error)
   }
 )
 
-export default api
\ No newline at end of file
+export default api